@@ -26,7 +26,14 @@ Preferences prefs;
 // ---------- Audio & Pin Configuration ----------
 volatile float sensorMaxVol[4] = {1.0f, 1.0f, 1.0f, 1.0f};
 volatile int sensorBaselines[4] = {300, 300, 300, 300};
+volatile int sensorSpans[4] = {4095, 4095, 4095, 4095};  // raw ADC read as full load
 volatile int sensorThresholds[4] = {150, 150, 150, 150};
+
+// ADC counts from no load (baseline) to full load (span), at least 1
+static inline float sensorRange(int i) {
+  int range = sensorSpans[i] - sensorBaselines[i];
+  return range > 0 ? (float)range : 1.0f;
+}
 volatile float masterVol = 1.0f;
 volatile bool systemOn = true;
 
@@ -35,6 +42,7 @@ volatile bool systemOn = true;
 // Back uses higher exponent = needs harder press
 volatile float frontExp = 0.5f;   // default: sqrt (very responsive)
 volatile float backExp  = 2.0f;   // default: squared (needs firm press)
+volatile int sensitivitySlider = -1;  // last SENSITIVITY value, -1 = never set since boot
 
 // ---------- Wavetable Synthesis ----------
 #define WAVETABLE_SIZE 256
@@ -83,7 +91,14 @@ volatile bool needCloseSong = false;
 
 // BLE notification runs on Core 0 (same core as BLE stack) to prevent
 // cross-core mutex deadlock. loop() writes data here, Core 0 task sends it.
-char blePayload[80];
+// Binary sensor frame (little-endian):
+//   [0]=0xA5 magic, [1]=version, [2..3]=seq, [4..7]=millis, [8]=N, then N x uint16 ADC
+#define FRAME_MAGIC   0xA5
+#define FRAME_VERSION 1
+#define FRAME_HEADER_SIZE 9
+uint8_t blePayload[FRAME_HEADER_SIZE + 2 * 4];
+size_t blePayloadLen = 0;
+uint16_t frameSeq = 0;   // increments per frame; app uses it to detect drops
 volatile bool bleNeedsSend = false;
 
 // FIX #5: BLE heartbeat — track when loop() last updated blePayload
@@ -146,6 +161,12 @@ BLECharacteristic* pLedCharacteristic = NULL;
 bool deviceConnected = false;
 bool oldDeviceConnected = false;
 
+// Serial host: the web app can also talk to us over USB (Web Serial).
+// Same commands, newline-terminated; messages go out as JSON lines.
+// Enabled by "HOST:1", disabled by "HOST:0".
+volatile bool serialHost = false;
+uint16_t serialSeq = 0;
+
 // See the following for generating UUIDs:
 // https://www.uuidgenerator.net/
 #define SERVICE_UUID        "19b10000-e8f2-537e-4f6c-d104768a1214"
@@ -273,6 +294,68 @@ static int parseCsvInts(const char *str, int *out, int maxOut) {
   return count;
 }
 
+// ---------- Handshake ----------
+// Answer to GET:HELLO — lets the app adapt to what this build supports.
+// Bump PROTOCOL_VERSION on any incompatible change to frames or replies.
+#define FIRMWARE_VERSION "1.2.0"
+#define PROTOCOL_VERSION 2   // 2: tagged commands are acknowledged
+const char *HELLO_COMMANDS =
+  "\"GET\",\"POWER\",\"MODE\",\"VOLUME_TOTAL\",\"SENSOR_VOLUME\",\"SENSOR_THRESHOLD\","
+  "\"CALIBRATE\",\"SENSITIVITY\",\"GETLOG\",\"HOST\",\"CALIBRATE_SPAN\"";
+
+// ---------- Request/Response Replies ----------
+// Commands may end with a "#<id>" tag. Replies go out as {"re":id,...}
+// notifications on the sensor characteristic so the app can match them to
+// the pending request. The BLE write callback fills this small ring,
+// bleNotifyTask (Core 0) drains it. One slot stays empty, so it holds
+// REPLY_SLOTS - 1 replies: more than the app keeps in flight (4), so a burst
+// of tagged commands (a volume step sends up to 5) never loses an ack.
+#define REPLY_SLOTS 8
+#define REPLY_BUF_SIZE 256
+char replyQueue[REPLY_SLOTS][REPLY_BUF_SIZE];
+volatile int replyHead = 0;   // next slot to fill
+volatile int replyTail = 0;   // next slot to send
+
+// fields: JSON members after "re", e.g. "\"d\":1" or "\"err\":\"...\""
+void queueReply(long id, const char *fields) {
+  int next = (replyHead + 1) % REPLY_SLOTS;
+  if (next == replyTail) return;  // full — app times out and may retry
+  snprintf(replyQueue[replyHead], REPLY_BUF_SIZE, "{\"re\":%ld,%s}", id, fields);
+  replyHead = next;
+}
+
+// Answer "GET:<endpoint>#<id>"
+void handleGet(const char *endpoint, long id) {
+  if (id < 0) return;  // untagged GET from old app versions — nothing to correlate
+  char fields[REPLY_BUF_SIZE - 20];
+  if (strcmp(endpoint, "MODE") == 0) {
+    snprintf(fields, sizeof(fields), "\"d\":%d", audioMode);
+  } else if (strcmp(endpoint, "VOLUME_TOTAL") == 0) {
+    snprintf(fields, sizeof(fields), "\"d\":%d", (int)lroundf(masterVol * 100.0f));
+  } else if (strcmp(endpoint, "PING") == 0) {
+    snprintf(fields, sizeof(fields), "\"d\":%lu", millis());
+  } else if (strcmp(endpoint, "HELLO") == 0) {
+    snprintf(fields, sizeof(fields), "\"d\":{\"fw\":\"%s\",\"proto\":%d,\"n\":%d,\"cmd\":[%s]}",
+      FIRMWARE_VERSION, PROTOCOL_VERSION, numSensors, HELLO_COMMANDS);
+  } else if (strcmp(endpoint, "STATE") == 0) {
+    // One snapshot of everything the app can configure.
+    // Volumes in 0-100, thresholds/baselines/spans in raw ADC, bat=-1 (no fuel gauge)
+    snprintf(fields, sizeof(fields),
+      "\"d\":{\"m\":%d,\"on\":%d,\"vol\":%d,\"sv\":[%d,%d,%d,%d],\"thr\":[%d,%d,%d,%d],"
+      "\"sens\":%d,\"cal\":[%d,%d,%d,%d],\"span\":[%d,%d,%d,%d],\"bat\":-1}",
+      audioMode, systemOn ? 1 : 0, (int)lroundf(masterVol * 100.0f),
+      (int)lroundf(sensorMaxVol[0] * 100.0f), (int)lroundf(sensorMaxVol[1] * 100.0f),
+      (int)lroundf(sensorMaxVol[2] * 100.0f), (int)lroundf(sensorMaxVol[3] * 100.0f),
+      sensorThresholds[0], sensorThresholds[1], sensorThresholds[2], sensorThresholds[3],
+      sensitivitySlider,
+      sensorBaselines[0], sensorBaselines[1], sensorBaselines[2], sensorBaselines[3],
+      sensorSpans[0], sensorSpans[1], sensorSpans[2], sensorSpans[3]);
+  } else {
+    snprintf(fields, sizeof(fields), "\"err\":\"unknown endpoint\"");
+  }
+  queueReply(id, fields);
+}
+
 // ---------- Audio Task (Dual Mode) ----------
 // FIX #1: Larger buffer (512 frames) — fewer SD transactions per second
 // FIX #2: Double buffering — prefetch next SD block while I2S plays current
@@ -512,6 +595,181 @@ class MyServerCallbacks: public BLEServerCallbacks {
   }
 };
 
+// Apply one "COMMAND:data[#id]" command, from BLE or serial.
+// buf is modified in place.
+void handleCommand(char *buf) {
+  // Find separator ':'
+  char *sep = strchr(buf, ':');
+  if (sep == NULL) return;
+
+  *sep = '\0';           // split: buf = command, sep+1 = data
+  const char *command = buf;
+  char *data = sep + 1;
+
+  // Optional request tag: "COMMAND:data#<id>"
+  long reqId = -1;
+  char *tag = strrchr(data, '#');
+  if (tag != NULL) {
+    *tag = '\0';
+    reqId = atol(tag + 1);
+  }
+
+  if (strcmp(command, "GET") == 0) {
+    handleGet(data, reqId);
+    return;  // GET answers with its own reply
+  }
+
+  // Set by each command once it took effect; malformed or out-of-range data leaves it false
+  bool applied = false;
+
+  if (strcmp(command, "POWER") == 0) {
+    int state = atoi(data);
+    applied = true;
+    if (state == 1) {
+      digitalWrite(ledPin, HIGH);
+      systemOn = true;
+      Serial.println("System ON");
+    } else {
+      digitalWrite(ledPin, LOW);
+      systemOn = false;
+      Serial.println("System OFF");
+    }
+  }
+  else if (strcmp(command, "SENSOR_VOLUME") == 0) {
+    // Data format: "ID,VOLUME"
+    const char *comma = strchr(data, ',');
+    if (comma != NULL) {
+      int id = atoi(data);
+      float volume = atof(comma + 1);
+
+      if (id >= 0 && id < 4) {
+        if (volume < 0) volume = 0;
+        if (volume > 100) volume = 100;
+
+        sensorMaxVol[id] = volume / 100.0f;
+        applied = true;
+        Serial.printf("Set Sensor %d Max Vol: %f\n", id, sensorMaxVol[id]);
+      }
+    }
+  }
+  else if (strcmp(command, "CALIBRATE") == 0) {
+    int vals[4];
+    if (parseCsvInts(data, vals, 4) == 4) {
+      for (int i = 0; i < 4; i++) sensorBaselines[i] = vals[i];
+      applied = true;
+      Serial.printf("Calibrated Baselines: %d, %d, %d, %d\n",
+        sensorBaselines[0], sensorBaselines[1], sensorBaselines[2], sensorBaselines[3]);
+    }
+  }
+  else if (strcmp(command, "CALIBRATE_SPAN") == 0) {
+    // Raw ADC of full single-leg stance scaled to full load (app's two-point calibration)
+    int vals[4];
+    if (parseCsvInts(data, vals, 4) == 4) {
+      for (int i = 0; i < 4; i++) sensorSpans[i] = constrain(vals[i], 1, 4095);
+      applied = true;
+      Serial.printf("Calibrated Spans: %d, %d, %d, %d\n",
+        sensorSpans[0], sensorSpans[1], sensorSpans[2], sensorSpans[3]);
+    }
+  }
+  else if (strcmp(command, "SENSOR_THRESHOLD") == 0) {
+    int vals[4];
+    if (parseCsvInts(data, vals, 4) == 4) {
+      for (int i = 0; i < 4; i++) sensorThresholds[i] = vals[i];
+      applied = true;
+      Serial.printf("Thresholds: %d, %d, %d, %d\n",
+        sensorThresholds[0], sensorThresholds[1], sensorThresholds[2], sensorThresholds[3]);
+    }
+  }
+  else if (strcmp(command, "VOLUME_TOTAL") == 0) {
+    float vol = atof(data);
+    if (vol < 0) vol = 0;
+    if (vol > 100) vol = 100;
+    masterVol = vol / 100.0f;
+    applied = true;
+    Serial.printf("Master Volume: %f\n", masterVol);
+  }
+  else if (strcmp(command, "MODE") == 0) {
+    int mode = atoi(data);
+    applied = mode == 0 || mode == 1;
+    if (applied) prefs.putInt("mode", mode);  // persist to NVS — survives resets
+    if (mode == 0) {
+      audioMode = 0;
+      needCloseSong = true;  // Audio task will close file on Core 1
+      // Restore accordion frequencies with detuning
+      const float dr = powf(2.0f, 4.0f / 1200.0f);
+      for (int i = 0; i < NUM_VOICES; i++) {
+        float freq = noteFreqs[i];
+        voices[i].phaseIncrement = (freq / dr * WAVETABLE_SIZE) / (float)SAMPLE_RATE;
+        voices[i].phaseInc2 = (freq * dr * WAVETABLE_SIZE) / (float)SAMPLE_RATE;
+        voices[i].targetVol = 0.0f;
+      }
+      logEvent(EVT_MODE_CHANGE, 0);
+      Serial.println("Mode: Accordion (saved)");
+    } else if (mode == 1) {
+      // Song mode: silence all accordion voices
+      for (int i = 0; i < NUM_VOICES; i++) {
+        voices[i].targetVol = 0.0f;
+      }
+      resetFilterState();
+      needOpenSong = true;  // Audio task will open file on Core 1
+      audioMode = 1;
+      logEvent(EVT_MODE_CHANGE, 1);
+      Serial.println("Mode: Song (saved, file will open on audio core)");
+    }
+  }
+  else if (strcmp(command, "GETLOG") == 0) {
+    // Send diagnostic log via BLE notifications.
+    // bleNotifyTask on Core 0 will handle the actual sending.
+    needSendLog = true;
+    applied = true;
+    Serial.printf("GETLOG requested (%d entries)\n", logCount);
+  }
+  else if (strcmp(command, "SENSITIVITY") == 0) {
+    // Slider 0-100: 0=back sensitive, 50=balanced, 100=front sensitive
+    float s = atof(data);
+    if (s < 0) s = 0;
+    if (s > 100) s = 100;
+    sensitivitySlider = (int)s;
+    float t = s / 100.0f;
+    // Map slider to exponents: higher exponent = less sensitive
+    frontExp = 2.0f - t * 1.7f;   // 2.0 at s=0 → 0.3 at s=100
+    backExp  = 0.3f + t * 1.7f;   // 0.3 at s=0 → 2.0 at s=100
+    applied = true;
+    Serial.printf("Sensitivity: slider=%d front=%.2f back=%.2f\n", (int)s, frontExp, backExp);
+  }
+  else if (strcmp(command, "HOST") == 0) {
+    serialHost = atoi(data) == 1;
+    serialSeq = 0;
+    applied = true;
+    Serial.printf("Serial host %s\n", serialHost ? "on" : "off");
+  }
+  else {
+    if (reqId >= 0) queueReply(reqId, "\"err\":\"unknown command\"");
+    return;
+  }
+
+  // Tagged commands are acknowledged once applied; the app retries a missing ack
+  // and reports rejected data without retrying
+  if (reqId >= 0) queueReply(reqId, applied ? "\"ok\":1" : "\"err\":\"bad data\"");
+}
+
+// Read newline-terminated commands from USB serial without blocking loop()
+void pollSerialCommands() {
+  static char serialBuf[CMD_BUF_SIZE];
+  static size_t serialLen = 0;
+  while (Serial.available() > 0) {
+    char c = (char)Serial.read();
+    if (c == '\r') continue;
+    if (c == '\n') {
+      serialBuf[serialLen] = '\0';
+      if (serialLen > 0) handleCommand(serialBuf);
+      serialLen = 0;
+    } else if (serialLen < CMD_BUF_SIZE - 1) {
+      serialBuf[serialLen++] = c;
+    }
+  }
+}
+
 // FIX #4: Zero-allocation BLE command parser
 // Uses stack-allocated char arrays instead of Arduino String to prevent
 // heap fragmentation that causes BLE stack memory allocation failures.
@@ -540,110 +798,7 @@ class MyCharacteristicCallbacks : public BLECharacteristicCallbacks {
     memcpy(buf, value.c_str(), len);
     buf[len] = '\0';
 
-    // Find separator ':'
-    char *sep = strchr(buf, ':');
-    if (sep == NULL) return;
-
-    *sep = '\0';           // split: buf = command, sep+1 = data
-    const char *command = buf;
-    const char *data = sep + 1;
-
-    if (strcmp(command, "POWER") == 0) {
-      int state = atoi(data);
-      if (state == 1) {
-        digitalWrite(ledPin, HIGH);
-        systemOn = true;
-        Serial.println("System ON");
-      } else {
-        digitalWrite(ledPin, LOW);
-        systemOn = false;
-        Serial.println("System OFF");
-      }
-    }
-    else if (strcmp(command, "SENSOR_VOLUME") == 0) {
-      // Data format: "ID,VOLUME"
-      const char *comma = strchr(data, ',');
-      if (comma != NULL) {
-        int id = atoi(data);
-        float volume = atof(comma + 1);
-
-        if (id >= 0 && id < 4) {
-          if (volume < 0) volume = 0;
-          if (volume > 100) volume = 100;
-
-          sensorMaxVol[id] = volume / 100.0f;
-          Serial.printf("Set Sensor %d Max Vol: %f\n", id, sensorMaxVol[id]);
-        }
-      }
-    }
-    else if (strcmp(command, "CALIBRATE") == 0) {
-      int vals[4];
-      if (parseCsvInts(data, vals, 4) == 4) {
-        for (int i = 0; i < 4; i++) sensorBaselines[i] = vals[i];
-        Serial.printf("Calibrated Baselines: %d, %d, %d, %d\n",
-          sensorBaselines[0], sensorBaselines[1], sensorBaselines[2], sensorBaselines[3]);
-      }
-    }
-    else if (strcmp(command, "SENSOR_THRESHOLD") == 0) {
-      int vals[4];
-      if (parseCsvInts(data, vals, 4) == 4) {
-        for (int i = 0; i < 4; i++) sensorThresholds[i] = vals[i];
-        Serial.printf("Thresholds: %d, %d, %d, %d\n",
-          sensorThresholds[0], sensorThresholds[1], sensorThresholds[2], sensorThresholds[3]);
-      }
-    }
-    else if (strcmp(command, "VOLUME_TOTAL") == 0) {
-      float vol = atof(data);
-      if (vol < 0) vol = 0;
-      if (vol > 100) vol = 100;
-      masterVol = vol / 100.0f;
-      Serial.printf("Master Volume: %f\n", masterVol);
-    }
-    else if (strcmp(command, "MODE") == 0) {
-      int mode = atoi(data);
-      prefs.putInt("mode", mode);  // persist to NVS — survives resets
-      if (mode == 0) {
-        audioMode = 0;
-        needCloseSong = true;  // Audio task will close file on Core 1
-        // Restore accordion frequencies with detuning
-        const float dr = powf(2.0f, 4.0f / 1200.0f);
-        for (int i = 0; i < NUM_VOICES; i++) {
-          float freq = noteFreqs[i];
-          voices[i].phaseIncrement = (freq / dr * WAVETABLE_SIZE) / (float)SAMPLE_RATE;
-          voices[i].phaseInc2 = (freq * dr * WAVETABLE_SIZE) / (float)SAMPLE_RATE;
-          voices[i].targetVol = 0.0f;
-        }
-        logEvent(EVT_MODE_CHANGE, 0);
-        Serial.println("Mode: Accordion (saved)");
-      } else if (mode == 1) {
-        // Song mode: silence all accordion voices
-        for (int i = 0; i < NUM_VOICES; i++) {
-          voices[i].targetVol = 0.0f;
-        }
-        resetFilterState();
-        needOpenSong = true;  // Audio task will open file on Core 1
-        audioMode = 1;
-        logEvent(EVT_MODE_CHANGE, 1);
-        Serial.println("Mode: Song (saved, file will open on audio core)");
-      }
-    }
-    else if (strcmp(command, "GETLOG") == 0) {
-      // Send diagnostic log via BLE notifications.
-      // bleNotifyTask on Core 0 will handle the actual sending.
-      needSendLog = true;
-      Serial.printf("GETLOG requested (%d entries)\n", logCount);
-    }
-    else if (strcmp(command, "SENSITIVITY") == 0) {
-      // Slider 0-100: 0=back sensitive, 50=balanced, 100=front sensitive
-      float s = atof(data);
-      if (s < 0) s = 0;
-      if (s > 100) s = 100;
-      float t = s / 100.0f;
-      // Map slider to exponents: higher exponent = less sensitive
-      frontExp = 2.0f - t * 1.7f;   // 2.0 at s=0 → 0.3 at s=100
-      backExp  = 0.3f + t * 1.7f;   // 0.3 at s=0 → 2.0 at s=100
-      Serial.printf("Sensitivity: slider=%d front=%.2f back=%.2f\n", (int)s, frontExp, backExp);
-    }
+    handleCommand(buf);
   }
 };
 
@@ -658,9 +813,19 @@ static const char* evtNames[] = {
   "LOOP_SLOW", "SD_SLOW", "MODE_CHG", "SD_REWIND", "SD_FAIL", "HEAP_SNAP"
 };
 
+// Send a JSON message to every active host (BLE notification and/or serial line)
+void sendText(const char *msg) {
+  if (deviceConnected && pSensorCharacteristic != NULL) {
+    pSensorCharacteristic->setValue(msg);
+    pSensorCharacteristic->notify();
+  }
+  if (serialHost) Serial.println(msg);
+}
+
 void bleNotifyTask(void *parameter) {
   while (true) {
-    if (deviceConnected && pSensorCharacteristic != NULL) {
+    bool bleReady = deviceConnected && pSensorCharacteristic != NULL;
+    if (bleReady || serialHost) {
 
       // --- Send diagnostic log if requested ---
       if (needSendLog) {
@@ -671,8 +836,7 @@ void bleNotifyTask(void *parameter) {
         // Send header: {"log":"start","n":count}
         char hdr[60];
         snprintf(hdr, sizeof(hdr), "{\"log\":\"start\",\"n\":%d}", count);
-        pSensorCharacteristic->setValue(hdr);
-        pSensorCharacteristic->notify();
+        sendText(hdr);
         vTaskDelay(pdMS_TO_TICKS(30));  // pace notifications
 
         for (int i = 0; i < count; i++) {
@@ -683,28 +847,34 @@ void bleNotifyTask(void *parameter) {
           char line[80];
           snprintf(line, sizeof(line), "{\"log\":\"evt\",\"i\":%d,\"t\":%lu,\"e\":\"%s\",\"v\":%u}",
                    i, e.timestamp, name, e.value);
-          pSensorCharacteristic->setValue(line);
-          pSensorCharacteristic->notify();
+          sendText(line);
           vTaskDelay(pdMS_TO_TICKS(30));  // pace: ~33 notifications/sec max
 
-          // If disconnected mid-send, abort
-          if (!deviceConnected) break;
+          // If every host went away mid-send, abort
+          if (!deviceConnected && !serialHost) break;
         }
 
         // Send footer: {"log":"end"}
-        if (deviceConnected) {
-          pSensorCharacteristic->setValue("{\"log\":\"end\"}");
-          pSensorCharacteristic->notify();
-        }
+        sendText("{\"log\":\"end\"}");
         Serial.printf("Log sent: %d entries\n", count);
         vTaskDelay(pdMS_TO_TICKS(50));
         continue;  // skip normal notify this cycle
       }
 
+      // --- Request replies (small, sent ahead of sensor data) ---
+      if (replyTail != replyHead) {
+        sendText(replyQueue[replyTail]);
+        replyTail = (replyTail + 1) % REPLY_SLOTS;
+        vTaskDelay(pdMS_TO_TICKS(10));
+        continue;
+      }
+
       // --- Normal sensor notification path ---
-      if (bleNeedsSend) {
+      if (!bleReady) {
+        // Serial-only host: loop() prints sensor lines itself
+      } else if (bleNeedsSend) {
         // Normal path: loop() prepared fresh data
-        pSensorCharacteristic->setValue(blePayload);
+        pSensorCharacteristic->setValue(blePayload, blePayloadLen);
         pSensorCharacteristic->notify();
         bleNeedsSend = false;
       } else {
@@ -863,7 +1033,7 @@ void loop() {
         if (force < 0) force = 0;
 
         if (force > sensorThresholds[i]) {
-          float maxRange = 4095.0f - sensorBaselines[i];
+          float maxRange = sensorRange(i);
           float normalizedForce = (float)force / maxRange;
           if (normalizedForce > 1.0f) normalizedForce = 1.0f;
 
@@ -890,7 +1060,7 @@ void loop() {
         int force = sensorValues[sensorIdx] - sensorBaselines[sensorIdx]; \
         if (force < 0) force = 0; \
         if (force > sensorThresholds[sensorIdx]) { \
-          float maxRange = 4095.0f - sensorBaselines[sensorIdx]; \
+          float maxRange = sensorRange(sensorIdx); \
           float nf = (float)force / maxRange; \
           if (nf > 1.0f) nf = 1.0f; \
           nf = powf(nf, sensExp); \
@@ -940,13 +1110,35 @@ void loop() {
   // Write sensor data to shared buffer; Core 0 bleNotifyTask does the actual BLE send.
   // This prevents loop() from holding BLE mutex while audio task preempts it.
   if (deviceConnected && !bleNeedsSend) {
-    snprintf(blePayload, sizeof(blePayload), "{\"t\":%lu,\"s\":[%d,%d,%d,%d]}",
-      timestamp,
-      sensorValues[0], sensorValues[1], sensorValues[2], sensorValues[3]);
+    uint32_t ts = (uint32_t)timestamp;
+    blePayload[0] = FRAME_MAGIC;
+    blePayload[1] = FRAME_VERSION;
+    blePayload[2] = frameSeq & 0xFF;
+    blePayload[3] = frameSeq >> 8;
+    blePayload[4] = ts & 0xFF;
+    blePayload[5] = (ts >> 8) & 0xFF;
+    blePayload[6] = (ts >> 16) & 0xFF;
+    blePayload[7] = (ts >> 24) & 0xFF;
+    blePayload[8] = numSensors;
+    for (int i = 0; i < numSensors; i++) {
+      blePayload[FRAME_HEADER_SIZE + i * 2]     = sensorValues[i] & 0xFF;
+      blePayload[FRAME_HEADER_SIZE + i * 2 + 1] = (sensorValues[i] >> 8) & 0xFF;
+    }
+    blePayloadLen = FRAME_HEADER_SIZE + 2 * numSensors;
+    frameSeq++;
     bleNeedsSend = true;  // signal Core 0 task to send
     lastBleUpdateMs = millis();  // FIX #5: track last update time for heartbeat
   }
 
+  // ---- Serial Host ----
+  // JSON line per sample; binary frames can't be newline-delimited
+  pollSerialCommands();
+  if (serialHost) {
+    Serial.printf("{\"t\":%lu,\"n\":%u,\"s\":[%d,%d,%d,%d]}\n",
+                  timestamp, serialSeq, sensorValues[0], sensorValues[1], sensorValues[2], sensorValues[3]);
+    serialSeq++;
+  }
+
   // BLE Maintenance
   if (!deviceConnected && oldDeviceConnected) {
     Serial.println("Device disconnected.");
@@ -0,0 +1,192 @@
+// WebSocket relay for the insole protocol (see src/services/WebSocketTransport.ts).
+//
+//   npm run relay                                # simulated gait data
+//   npm run relay -- --profile limp              # ...walking with a stub gait profile
+//   npm run relay -- --serial /dev/ttyUSB0       # forward to a board on USB
+//   npm run relay -- --port 9000 --baud 115200
+//
+// One WebSocket message per protocol message: clients send command text,
+// the relay sends JSON text or binary sensor frames back.
+
+import { parseArgs } from 'node:util';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { encodeBinaryFrame } from '../src/services/sensorFrame';
+import { StubDevice, SIMULATION_INTERVAL_MS } from '../src/services/stubSimulation';
+import { ScenarioEngine, GAIT_PROFILES, type GaitProfile } from '../src/services/stubScenarios';
+
+// Firmware resets when the port opens; repeat HOST:1 until it answers (as SerialTransport does)
+const HOST_ANNOUNCE_INTERVAL_MS = 1000;
+// Tagged commands awaiting a reply from the board; the oldest are dropped beyond this
+const MAX_PENDING_REPLIES = 256;
+
+interface Backend {
+  // Command from one client; reply (if any) goes back through send
+  handleCommand(command: string, client: WebSocket): void;
+  // Client went away; drop anything kept for it
+  forget?(client: WebSocket): void;
+  close(): void;
+}
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    serial: { type: 'string' },
+    baud: { type: 'string', default: '115200' },
+    profile: { type: 'string', default: 'mode' },
+  },
+});
+
+const clients = new Set<WebSocket>();
+
+function broadcast(data: string | Uint8Array): void {
+  for (const client of clients) {
+    if (client.readyState === WebSocket.OPEN) client.send(data);
+  }
+}
+
+// ---------- Simulation Backend ----------
+// Same fake board as the app's stub mode, shared by every client
+function createSimulation(profile: string): Backend {
+  if (!GAIT_PROFILES.includes(profile as GaitProfile)) {
+    throw new Error(`Unknown gait profile "${profile}" (one of: ${GAIT_PROFILES.join(', ')})`);
+  }
+  const device = new StubDevice('main');
+  const scenarios = new ScenarioEngine();
+  scenarios.setProfile(profile as GaitProfile);
+  let tick = 0;
+
+  const interval = setInterval(() => {
+    if (clients.size === 0) return;
+    tick++;
+    device.sampleHealth();
+    const values = scenarios.sample(tick * SIMULATION_INTERVAL_MS / 1000, device.mode, device.sensitivity);
+    broadcast(encodeBinaryFrame(device.seq++, device.millis(), values));
+  }, SIMULATION_INTERVAL_MS);
+
+  console.log(`[relay] Serving simulated gait data (profile: ${profile})`);
+  return {
+    handleCommand(command, client) {
+      if (command.startsWith('GETLOG:')) {
+        for (const message of device.diagLogMessages()) client.send(message);
+        return;
+      }
+      const reply = device.handleText(command);
+      // Request ids are per client, so replies only go to the asker
+      if (reply && client.readyState === WebSocket.OPEN) client.send(JSON.stringify(reply));
+    },
+    close() {
+      clearInterval(interval);
+    },
+  };
+}
+
+// ---------- Serial Backend ----------
+// serialport is an optional dependency (native bindings); only loaded when asked for
+async function createSerialBridge(path: string, baudRate: number): Promise<Backend> {
+  const { SerialPort, ReadlineParser } = await import('serialport').catch(() => {
+    throw new Error('serialport is not installed — run "npm install serialport" to use --serial');
+  });
+
+  const port = new SerialPort({ path, baudRate });
+  const lines = port.pipe(new ReadlineParser({ delimiter: '\n' }));
+  let answering = false;
+
+  // Every client numbers its requests from 1, so tagged commands go to the
+  // board under a relay-wide id and the reply is routed back to the asker
+  // with its own id restored
+  const pending = new Map<number, { client: WebSocket; id: string }>();
+  let nextId = 1;
+
+  const write = (command: string) => port.write(`${command}\n`);
+
+  lines.on('data', (raw: string) => {
+    const line = raw.trim();
+    const reply = /^\{"re":(\d+)(.*)$/.exec(line);
+    if (reply) {
+      answering = true;
+      const asker = pending.get(Number(reply[1]));
+      pending.delete(Number(reply[1]));
+      if (asker?.client.readyState === WebSocket.OPEN) asker.client.send(`{"re":${asker.id}${reply[2]}`);
+    } else if (line.startsWith('{') || line.startsWith('[')) {
+      answering = true;
+      broadcast(line);
+    } else if (line) {
+      console.log(`[board] ${line}`);
+    }
+  });
+
+  port.on('open', () => {
+    console.log(`[relay] Forwarding to ${path} at ${baudRate} baud`);
+    write('HOST:1');
+  });
+  port.on('error', (err: Error) => console.error('[relay] Serial error:', err.message));
+  port.on('close', () => {
+    console.error('[relay] Serial port closed');
+    process.exit(1);
+  });
+
+  const announce = setInterval(() => {
+    if (answering) clearInterval(announce);
+    else write('HOST:1');
+  }, HOST_ANNOUNCE_INTERVAL_MS);
+
+  return {
+    handleCommand(command, client) {
+      const tagged = /^(.*)#(\d+)$/.exec(command);
+      if (!tagged) {
+        write(command);
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, { client, id: tagged[2] });
+      if (pending.size > MAX_PENDING_REPLIES) pending.delete(pending.keys().next().value!);
+      write(`${tagged[1]}#${id}`);
+    },
+    forget(client) {
+      for (const [id, asker] of pending) {
+        if (asker.client === client) pending.delete(id);
+      }
+    },
+    close() {
+      clearInterval(announce);
+      write('HOST:0');
+      port.close();
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const backend = args.serial
+    ? await createSerialBridge(args.serial, Number(args.baud))
+    : createSimulation(args.profile);
+
+  const port = Number(args.port);
+  const server = new WebSocketServer({ port });
+  console.log(`[relay] Listening on ws://0.0.0.0:${port}`);
+
+  server.on('connection', (client, request) => {
+    clients.add(client);
+    console.log(`[relay] Client connected from ${request.socket.remoteAddress} (${clients.size} total)`);
+
+    client.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary) return;  // commands are always text
+      backend.handleCommand(data.toString(), client);
+    });
+    client.on('close', () => {
+      clients.delete(client);
+      backend.forget?.(client);
+      console.log(`[relay] Client disconnected (${clients.size} left)`);
+    });
+  });
+
+  process.on('SIGINT', () => {
+    backend.close();
+    server.close();
+    process.exit(0);
+  });
+}
+
+main().catch((err: Error) => {
+  console.error(`[relay] ${err.message}`);
+  process.exit(1);
+});
@@ -1,8 +1,11 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { Navbar } from '@/components/Navbar'
+import { ReplayControls } from '@/components/ReplayControls'
+import { StubDevPanel } from '@/components/StubDevPanel'
 import { Home } from '@/pages/Home'
 import { Sensors } from '@/pages/Sensors'
 import { View } from '@/pages/View'
+import { Health } from '@/pages/Health'
 import { ConnectionProvider } from '@/context/ConnectionContext'
 import './App.css'
 
@@ -11,11 +14,14 @@ function App() {
     <ConnectionProvider>
       <Router>
         <Navbar />
+        <ReplayControls />
+        <StubDevPanel />
         <div className="container mx-auto p-4 pb-24">
           <Routes>
             <Route path="/" element={<Home />} />
             <Route path="/sensors" element={<Sensors />} />
             <Route path="/view" element={<View />} />
+            <Route path="/health" element={<Health />} />
           </Routes>
         </div>
       </Router>
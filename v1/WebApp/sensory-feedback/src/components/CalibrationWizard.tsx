@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Crosshair, Loader2, RotateCcw, X, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSensorStream } from '@/hooks/useSensorStream';
+import { EspApi } from '@/services/api';
+import { commandErrorMessage } from '@/services/CommandChannel';
+import {
+    applyCalibration, CAPTURE_MS, captureNormalized, checkCapture, computeCalibration, getSensorCalibration, stepChannels,
+    type CalibrationStep, type CaptureCheck, type CaptureProblem,
+} from '@/services/calibration';
+
+interface CalibrationWizardProps {
+    onClose: () => void;
+}
+
+const CHANNELS = [
+    { id: 0, label: 'Right front', color: '#fb923c' },
+    { id: 1, label: 'Left front', color: '#60a5fa' },
+    { id: 2, label: 'Right back', color: '#ea580c' },
+    { id: 3, label: 'Left back', color: '#2563eb' },
+];
+
+const STEPS: { step: CalibrationStep; title: string; instruction: string }[] = [
+    { step: 'zero', title: 'Zero', instruction: 'Sit down and lift both feet off the floor. Keep them still until the capture ends.' },
+    { step: 'right', title: 'Right foot', instruction: 'Stand on your right foot only, with your full weight on it. Hold on to something for balance.' },
+    { step: 'left', title: 'Left foot', instruction: 'Stand on your left foot only, with your full weight on it. Hold on to something for balance.' },
+];
+
+const PROBLEMS: Record<CaptureProblem, string> = {
+    'too-few-samples': 'No data, is the insole streaming?',
+    noisy: 'Too noisy, keep still',
+    drifting: 'Reading drifted, hold the position until the end',
+    loaded: 'Loaded, lift the foot off the floor',
+    'not-loaded': 'Barely loaded, put your full weight on this foot',
+};
+
+function LevelBar({ value, color, faded }: { value: number; color: string; faded?: boolean }) {
+    return (
+        <div className="relative h-1.5 rounded-full bg-slate-100 overflow-hidden">
+            <div
+                className={cn("absolute inset-y-0 left-0 rounded-full transition-[width] duration-100", faded && "opacity-40")}
+                style={{ width: `${value}%`, backgroundColor: color }}
+            />
+        </div>
+    );
+}
+
+// Guided two-point calibration: zero with the feet unloaded, then the span of
+// each foot in single-leg stance, each averaged over a few seconds
+export function CalibrationWizard({ onClose }: CalibrationWizardProps) {
+    const [checks, setChecks] = useState<CaptureCheck[]>([]);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [rejected, setRejected] = useState<CaptureCheck | null>(null);
+    const [applying, setApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { latest } = useSensorStream({ historySize: 1 });
+    const closed = useRef(false);
+
+    useEffect(() => () => {
+        closed.current = true;
+    }, []);
+
+    const current = STEPS[checks.length];
+    const candidate = checks.length === STEPS.length ? computeCalibration(checks[0], checks[1], checks[2]) : null;
+
+    const capture = async () => {
+        if (!current) return;
+        setRejected(null);
+        setProgress(0);
+        const frames = await captureNormalized(CAPTURE_MS, fraction => {
+            if (!closed.current) setProgress(fraction);
+        });
+        if (closed.current) return;
+        setProgress(null);
+        const check = checkCapture(current.step, frames, checks[0]?.channels);
+        if (check.ok) setChecks([...checks, check]);
+        else setRejected(check);
+    };
+
+    const restart = () => {
+        setChecks([]);
+        setRejected(null);
+        setError(null);
+    };
+
+    const apply = async () => {
+        if (!candidate) return;
+        setApplying(true);
+        setError(null);
+        try {
+            await EspApi.setCalibration(candidate);
+            onClose();
+        } catch (err) {
+            console.error('Failed to send calibration:', err);
+            // Already saved and in use by the app; the next state sync resends it
+            setError(`${commandErrorMessage('Calibration', err) ?? 'Calibration not sent'}. The app uses it already; syncing from Home sends it again.`);
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const before = latest ? applyCalibration(latest.normalized, getSensorCalibration()) : null;
+    const after = latest && candidate ? applyCalibration(latest.normalized, candidate) : null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[85vh] flex flex-col animate-in slide-in-from-bottom duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                        <Crosshair className="w-4 h-4 text-slate-500" />
+                        <span className="text-sm font-semibold text-slate-700">Calibrate sensors</span>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
+                        <X className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+                    {/* Progress through the captures */}
+                    <div className="flex gap-1.5">
+                        {[...STEPS.map(s => s.title), 'Check'].map((title, i) => (
+                            <div key={title} className="flex-1 flex flex-col gap-1">
+                                <div className={cn("h-1 rounded-full", i < checks.length ? "bg-emerald-500" : i === checks.length ? "bg-slate-700" : "bg-slate-100")} />
+                                <span className={cn("text-[10px] font-semibold", i === checks.length ? "text-slate-700" : "text-slate-400")}>{title}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {current && (
+                        <div className="flex flex-col gap-3">
+                            <p className="text-sm text-slate-600">{current.instruction}</p>
+                            <span className="text-[11px] text-slate-400">
+                                Readings are averaged over {CAPTURE_MS / 1000}s and rejected if they are noisy or unsteady.
+                            </span>
+
+                            {rejected && (
+                                <div className="flex flex-col gap-1.5 px-3 py-2.5 rounded-xl bg-red-50 border border-red-100">
+                                    <span className="flex items-center gap-1.5 text-xs font-semibold text-red-700">
+                                        <XCircle className="w-3.5 h-3.5" />
+                                        Capture rejected
+                                    </span>
+                                    {rejected.problems.map((problem, i) => problem && (
+                                        <span key={i} className="text-[11px] text-red-600">
+                                            {CHANNELS[i].label}: {PROBLEMS[problem]}
+                                            <span className="text-red-400 tabular-nums"> (level {rejected.channels[i].mean.toFixed(0)} ±{rejected.channels[i].noise.toFixed(1)})</span>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+
+                            {progress !== null ? (
+                                <div className="flex items-center gap-3">
+                                    <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />
+                                    <div className="flex-1 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                                        <div className="h-full bg-slate-700 rounded-full" style={{ width: `${progress * 100}%` }} />
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={capture}
+                                    className="self-start px-4 py-1.5 text-xs font-bold text-white bg-slate-800 rounded-full shadow-md active:scale-95 transition-all hover:bg-slate-700"
+                                >
+                                    {rejected ? 'Try again' : 'Start capture'}
+                                </button>
+                            )}
+
+                            {/* Live readings of the channels this step calibrates */}
+                            <div className="flex flex-col gap-1.5">
+                                {stepChannels(current.step).map(id => (
+                                    <div key={id} className="grid grid-cols-[5.5rem_1fr_2.5rem] items-center gap-2 text-[11px]">
+                                        <span className="text-slate-400">{CHANNELS[id].label}</span>
+                                        <LevelBar value={latest?.normalized[id] ?? 0} color={CHANNELS[id].color} />
+                                        <span className="text-right tabular-nums text-slate-500">{latest?.normalized[id].toFixed(0) ?? '–'}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {candidate && (
+                        <div className="flex flex-col gap-3">
+                            <span className="flex items-center gap-1.5 text-xs font-semibold text-emerald-700">
+                                <CheckCircle2 className="w-3.5 h-3.5" />
+                                All captures passed. Walk or shift your weight to compare.
+                            </span>
+
+                            {/* Before/after: the same live reading with the saved and the new calibration */}
+                            <div className="flex flex-col gap-2.5">
+                                {CHANNELS.map(({ id, label, color }) => (
+                                    <div key={id} className="flex flex-col gap-1">
+                                        <div className="flex items-baseline justify-between text-[11px]">
+                                            <span className="text-slate-500">{label}</span>
+                                            <span className="text-[10px] text-slate-400 tabular-nums">
+                                                offset {candidate.channels[id].offset.toFixed(1)} · gain {candidate.channels[id].gain.toFixed(2)}
+                                            </span>
+                                        </div>
+                                        <div className="grid grid-cols-[2.5rem_1fr_2rem] items-center gap-2 text-[10px] text-slate-400">
+                                            before <LevelBar value={before?.[id] ?? 0} color={color} faded />
+                                            <span className="text-right tabular-nums">{before?.[id].toFixed(0) ?? '–'}</span>
+                                        </div>
+                                        <div className="grid grid-cols-[2.5rem_1fr_2rem] items-center gap-2 text-[10px] text-slate-500">
+                                            after <LevelBar value={after?.[id] ?? 0} color={color} />
+                                            <span className="text-right tabular-nums font-semibold">{after?.[id].toFixed(0) ?? '–'}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {error && <span className="text-[11px] text-red-600">{error}</span>}
+
+                            <div className="flex items-center gap-4">
+                                <button
+                                    onClick={apply}
+                                    disabled={applying}
+                                    className="px-4 py-1.5 text-xs font-bold text-white bg-slate-800 rounded-full shadow-md active:scale-95 transition-all hover:bg-slate-700 disabled:opacity-50"
+                                >
+                                    {applying ? 'Sending…' : 'Apply calibration'}
+                                </button>
+                                <button
+                                    onClick={restart}
+                                    className="flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+                                >
+                                    <RotateCcw className="w-3 h-3" />
+                                    Start over
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
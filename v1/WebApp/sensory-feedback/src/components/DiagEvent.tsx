@@ -0,0 +1,113 @@
+import {
+    AlertTriangle, Cpu, HardDrive, Heart, Music, RotateCcw, Timer, Wifi, WifiOff, Zap, type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+    CATEGORY_LABELS, DIAG_SEVERITIES, getDiagEventType,
+    type DiagCategory, type DiagEventFilter, type DiagSeverity,
+} from '@/services/diagEvents';
+
+const SEVERITY_STYLES: Record<DiagSeverity, { color: string; bg: string }> = {
+    debug: { color: 'text-slate-400', bg: 'bg-slate-50' },
+    info: { color: 'text-blue-500', bg: 'bg-blue-50' },
+    warning: { color: 'text-amber-600', bg: 'bg-amber-50' },
+    error: { color: 'text-red-600', bg: 'bg-red-50' },
+};
+
+const CATEGORY_ICONS: Record<DiagCategory, LucideIcon> = {
+    system: Zap,
+    connection: Wifi,
+    memory: Cpu,
+    timing: Timer,
+    storage: HardDrive,
+};
+
+// Icons for the firmware's own events; anything else uses its category's
+const EVENT_ICONS: Record<string, LucideIcon> = {
+    BLE_DISC: WifiOff,
+    HEAP_LOW: AlertTriangle,
+    HEARTBEAT: Heart,
+    SD_REWIND: RotateCcw,
+    MODE_CHG: Music,
+};
+
+export function DiagEventRow({ event, description, time, count = 1 }: {
+    event: string;
+    description: string;
+    time: string;
+    count?: number;
+}) {
+    const type = getDiagEventType(event);
+    const style = SEVERITY_STYLES[type.severity];
+    const Icon = EVENT_ICONS[event] ?? CATEGORY_ICONS[type.category];
+    return (
+        <div className={cn("flex items-center gap-3 px-3 py-2 rounded-xl", style.bg)}>
+            <div className={cn("flex-shrink-0", style.color)}><Icon className="w-3.5 h-3.5" /></div>
+            <div className="flex-1 min-w-0">
+                <span className={cn("text-xs font-medium", style.color)}>{description}</span>
+            </div>
+            {count > 1 && (
+                <span className="text-[10px] font-semibold text-slate-400 bg-white/70 px-1.5 py-0.5 rounded-full tabular-nums">×{count}</span>
+            )}
+            <span className="text-[10px] font-mono text-slate-400 flex-shrink-0">{time}</span>
+        </div>
+    );
+}
+
+const MIN_SEVERITY_LABELS: Record<DiagSeverity, string> = {
+    debug: 'All',
+    info: 'Info+',
+    warning: 'Warnings+',
+    error: 'Errors',
+};
+
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            className={cn(
+                "px-2.5 py-1 rounded-full text-[10px] font-semibold transition-colors",
+                active ? "bg-slate-700 text-white" : "bg-slate-50 text-slate-400 hover:text-slate-600"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+// Minimum severity and visible categories
+export function DiagFilterBar({ filter, onChange }: { filter: DiagEventFilter; onChange: (filter: DiagEventFilter) => void }) {
+    const toggleCategory = (category: DiagCategory) => onChange({
+        ...filter,
+        hiddenCategories: filter.hiddenCategories.includes(category)
+            ? filter.hiddenCategories.filter(c => c !== category)
+            : [...filter.hiddenCategories, category],
+    });
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            <div className="flex flex-wrap gap-1">
+                {DIAG_SEVERITIES.map(severity => (
+                    <FilterChip
+                        key={severity}
+                        active={filter.minSeverity === severity}
+                        onClick={() => onChange({ ...filter, minSeverity: severity })}
+                    >
+                        {MIN_SEVERITY_LABELS[severity]}
+                    </FilterChip>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+                {(Object.keys(CATEGORY_LABELS) as DiagCategory[]).map(category => (
+                    <FilterChip
+                        key={category}
+                        active={!filter.hiddenCategories.includes(category)}
+                        onClick={() => toggleCategory(category)}
+                    >
+                        {CATEGORY_LABELS[category]}
+                    </FilterChip>
+                ))}
+            </div>
+        </div>
+    );
+}
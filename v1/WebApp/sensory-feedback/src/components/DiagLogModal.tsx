@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Activity, ClipboardList, History, Loader2, RotateCcw, Settings2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DiagEventRow, DiagFilterBar } from '@/components/DiagEvent';
+import type { DiagnosticEvent } from '@/services/api';
+import {
+    DEFAULT_DIAG_AUTO_OPEN, DEFAULT_DIAG_FILTER, collapseRepeats, describeCollapsed, getDiagAutoOpenRules,
+    getDiagEventTypes, matchesDiagFilter, onDiagAutoOpenRulesChange, setDiagAutoOpenRules,
+    type DiagAutoOpenRules, type DiagEventFilter, type DiagSeverity,
+} from '@/services/diagEvents';
+
+interface DiagLogModalProps {
+    events: DiagnosticEvent[];
+    loading: boolean;
+    onRefresh: () => void;
+    onShowHistory: () => void;
+    onClose: () => void;
+}
+
+// Format millis timestamp to readable relative time
+function formatTimestamp(ms: number): string {
+    const sec = Math.floor(ms / 1000);
+    const min = Math.floor(sec / 60);
+    const s = sec % 60;
+    if (min > 0) return `${min}m ${s}s`;
+    return `${s}s`;
+}
+
+const AUTO_OPEN_SEVERITIES: { value: DiagSeverity | null; label: string }[] = [
+    { value: null, label: 'Never' },
+    { value: 'error', label: 'Errors' },
+    { value: 'warning', label: 'Warnings+' },
+];
+
+// Which events open the log by themselves after a reconnect
+function AutoOpenSettings() {
+    const [rules, setRules] = useState<DiagAutoOpenRules>(getDiagAutoOpenRules);
+    useEffect(() => onDiagAutoOpenRulesChange(setRules), []);
+
+    const toggleEvent = (name: string) => setDiagAutoOpenRules({
+        ...rules,
+        events: rules.events.includes(name) ? rules.events.filter(n => n !== name) : [...rules.events, name],
+    });
+
+    return (
+        <div className="flex flex-col gap-2 px-4 py-3 border-b border-slate-100 bg-slate-50/60">
+            <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">Open automatically after reconnect</span>
+            <div className="flex items-center gap-1">
+                <span className="text-[11px] text-slate-500 mr-1">By severity</span>
+                {AUTO_OPEN_SEVERITIES.map(option => (
+                    <button
+                        key={option.label}
+                        onClick={() => setDiagAutoOpenRules({ ...rules, minSeverity: option.value })}
+                        className={cn(
+                            "px-2.5 py-1 rounded-full text-[10px] font-semibold transition-colors",
+                            rules.minSeverity === option.value ? "bg-slate-700 text-white" : "bg-white text-slate-400 hover:text-slate-600"
+                        )}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+                {getDiagEventTypes().map(type => (
+                    <button
+                        key={type.name}
+                        onClick={() => toggleEvent(type.name)}
+                        className={cn(
+                            "px-2 py-0.5 rounded-full text-[10px] font-mono transition-colors",
+                            rules.events.includes(type.name) ? "bg-slate-700 text-white" : "bg-white text-slate-400 hover:text-slate-600"
+                        )}
+                    >
+                        {type.name}
+                    </button>
+                ))}
+            </div>
+            <button
+                onClick={() => setDiagAutoOpenRules(DEFAULT_DIAG_AUTO_OPEN)}
+                className="self-start flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+            >
+                <RotateCcw className="w-3 h-3" />
+                Restore defaults
+            </button>
+        </div>
+    );
+}
+
+// The board's current event log, filtered by severity and category
+export function DiagLogModal({ events, loading, onRefresh, onShowHistory, onClose }: DiagLogModalProps) {
+    const [filter, setFilter] = useState<DiagEventFilter>(DEFAULT_DIAG_FILTER);
+    const [showSettings, setShowSettings] = useState(false);
+
+    const rows = useMemo(
+        () => collapseRepeats(events.filter(e => matchesDiagFilter(e.event, filter))),
+        [events, filter]
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[75vh] flex flex-col animate-in slide-in-from-bottom duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Modal Header */}
+                <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                        <ClipboardList className="w-4 h-4 text-slate-500" />
+                        <span className="text-sm font-semibold text-slate-700">Diagnostic Log</span>
+                        <span className="text-[10px] font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full">{events.length} events</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => setShowSettings(!showSettings)}
+                            className={cn("p-1 rounded-full hover:bg-slate-100 transition-colors", showSettings && "bg-slate-100")}
+                            title="Auto-open rules"
+                        >
+                            <Settings2 className="w-4 h-4 text-slate-400" />
+                        </button>
+                        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
+                            <X className="w-4 h-4 text-slate-400" />
+                        </button>
+                    </div>
+                </div>
+
+                {showSettings && <AutoOpenSettings />}
+
+                <div className="px-4 py-3 border-b border-slate-100">
+                    <DiagFilterBar filter={filter} onChange={setFilter} />
+                </div>
+
+                {/* Event List */}
+                <div className="flex-1 overflow-y-auto px-4 py-3 space-y-1.5">
+                    {rows.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-10 text-slate-300">
+                            <Activity className="w-8 h-8 mb-2" />
+                            <span className="text-sm font-medium">{events.length === 0 ? 'No events recorded' : 'No events match the filter'}</span>
+                        </div>
+                    ) : (
+                        rows.map(row => (
+                            <DiagEventRow
+                                key={row.first.index}
+                                event={row.first.event}
+                                description={describeCollapsed(row)}
+                                count={row.count}
+                                time={row.count > 1
+                                    ? `${formatTimestamp(row.first.timestamp)}–${formatTimestamp(row.last.timestamp)}`
+                                    : formatTimestamp(row.first.timestamp)}
+                            />
+                        ))
+                    )}
+                </div>
+
+                {/* Refresh Button */}
+                <div className="flex items-center gap-2 px-6 py-3 border-t border-slate-100">
+                    <button
+                        onClick={onRefresh}
+                        disabled={loading}
+                        className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-medium transition-colors"
+                    >
+                        {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                        Refresh
+                    </button>
+                    <button
+                        onClick={onShowHistory}
+                        className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-medium transition-colors"
+                    >
+                        <History className="w-3.5 h-3.5" />
+                        History
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, History, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DiagEventRow, DiagFilterBar } from '@/components/DiagEvent';
+import { SLOT_LABELS, type DeviceSlot } from '@/services/deviceSlots';
+import { DEFAULT_DIAG_FILTER, collapseRepeats, describeCollapsed, matchesDiagFilter, type DiagEventFilter } from '@/services/diagEvents';
+import {
+    HISTORY_RANGES, diagHistory, diagHistoryToCsv, diagHistoryToJson, groupByBoot, type HistoryRange, type StoredDiagEvent,
+} from '@/services/diagHistory';
+
+interface DiagTimelineProps {
+    onClose: () => void;
+}
+
+const clockTime = (ms: number) => new Date(ms).toLocaleTimeString();
+
+function download(content: string, type: string, extension: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `diagnostic-log-${new Date().toISOString()}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            className={cn(
+                "px-2.5 py-1 rounded-full text-[10px] font-semibold transition-colors",
+                active ? "bg-slate-700 text-white" : "bg-slate-50 text-slate-400 hover:text-slate-600"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+// Stored diagnostic events across sessions, grouped by board boot
+export function DiagTimeline({ onClose }: DiagTimelineProps) {
+    const [range, setRange] = useState<HistoryRange>('week');
+    const [slot, setSlot] = useState<DeviceSlot | null>(null);
+    const [filter, setFilter] = useState<DiagEventFilter>(DEFAULT_DIAG_FILTER);
+    const [events, setEvents] = useState<StoredDiagEvent[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = () => {
+            const ms = HISTORY_RANGES.find(r => r.value === range)?.ms ?? null;
+            diagHistory.query({ from: ms === null ? undefined : Date.now() - ms })
+                .then(result => { if (!cancelled) setEvents(result); })
+                .catch(error => console.error('[DiagLog] Failed to load history:', error));
+        };
+        load();
+        const unsubscribe = diagHistory.onChange(load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [range]);
+
+    const slots = useMemo(() => [...new Set(events.map(e => e.slot))], [events]);
+    const visible = useMemo(
+        () => events.filter(e => (slot === null || e.slot === slot) && matchesDiagFilter(e.event, filter)),
+        [events, slot, filter]
+    );
+    const boots = useMemo(() => groupByBoot(visible).reverse(), [visible]);
+
+    const handleClear = () => {
+        if (!window.confirm('Delete all stored diagnostic events?')) return;
+        diagHistory.clear().catch(error => console.error('[DiagLog] Failed to clear history:', error));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[85vh] flex flex-col animate-in slide-in-from-bottom duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                        <History className="w-4 h-4 text-slate-500" />
+                        <span className="text-sm font-semibold text-slate-700">Diagnostic History</span>
+                        <span className="text-[10px] font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full">{visible.length} events</span>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
+                        <X className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+
+                {/* Filters */}
+                <div className="flex flex-col gap-2 px-4 py-3 border-b border-slate-100">
+                    <div className="flex flex-wrap gap-1.5">
+                        {HISTORY_RANGES.map(r => (
+                            <Chip key={r.value} active={range === r.value} onClick={() => setRange(r.value)}>{r.label}</Chip>
+                        ))}
+                        {slots.length > 1 && (
+                            <>
+                                <span className="w-px h-5 bg-slate-100 mx-1" />
+                                <Chip active={slot === null} onClick={() => setSlot(null)}>All boards</Chip>
+                                {slots.map(s => (
+                                    <Chip key={s} active={slot === s} onClick={() => setSlot(s)}>{SLOT_LABELS[s]}</Chip>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                    <DiagFilterBar filter={filter} onChange={setFilter} />
+                </div>
+
+                {/* Timeline, newest boot first */}
+                <div className="flex-1 overflow-y-auto px-4 py-3 flex flex-col gap-4">
+                    {boots.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-10 text-slate-300">
+                            <History className="w-8 h-8 mb-2" />
+                            <span className="text-sm font-medium">No stored events</span>
+                        </div>
+                    ) : boots.map(boot => (
+                        <div key={boot.bootId} className="flex flex-col gap-1.5">
+                            <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">
+                                {SLOT_LABELS[boot.slot]}{boot.device && ` · ${boot.device}`}{boot.firmware && ` · v${boot.firmware}`}
+                                {` · boot ${boot.approximate ? '≈ ' : ''}${new Date(boot.bootAt).toLocaleString()}`}
+                            </span>
+                            {collapseRepeats(boot.events).map(row => (
+                                <DiagEventRow
+                                    key={row.first.key}
+                                    event={row.first.event}
+                                    description={describeCollapsed(row)}
+                                    count={row.count}
+                                    time={`${boot.approximate ? '≈ ' : ''}${clockTime(row.first.wallTime)}${row.count > 1 ? `–${clockTime(row.last.wallTime)}` : ''}`}
+                                />
+                            ))}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-2 px-6 py-3 border-t border-slate-100">
+                    <button
+                        onClick={() => download(diagHistoryToJson(visible), 'application/json', 'json')}
+                        disabled={visible.length === 0}
+                        className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-medium transition-colors disabled:opacity-50"
+                    >
+                        <Download className="w-3.5 h-3.5" />
+                        JSON
+                    </button>
+                    <button
+                        onClick={() => download(diagHistoryToCsv(visible), 'text/csv', 'csv')}
+                        disabled={visible.length === 0}
+                        className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-medium transition-colors disabled:opacity-50"
+                    >
+                        <Download className="w-3.5 h-3.5" />
+                        CSV
+                    </button>
+                    <button
+                        onClick={handleClear}
+                        disabled={events.length === 0}
+                        className="p-2.5 rounded-xl text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+                        title="Clear history"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+import { Settings2, Snowflake } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FreezeStatus } from '@/services/freezeDetector';
+
+interface FreezeAlertProps {
+    status: FreezeStatus;
+    onOpenSettings: () => void;
+}
+
+const MAX_SHOWN_INDEX = 10;
+
+// Standing still gives a near-zero locomotor band, so the index can be huge
+const formatIndex = (index: number | null) =>
+    index === null ? '–' : index > MAX_SHOWN_INDEX ? `>${MAX_SHOWN_INDEX}` : index.toFixed(1);
+
+// Live freezing-of-gait flag with the freeze index and the episode length
+export function FreezeAlert({ status, onOpenSettings }: FreezeAlertProps) {
+    const { freezing, freezeIndex, episode, time } = status;
+    const duration = freezing && episode ? Math.max(0, time - episode.start) / 1000 : null;
+
+    return (
+        <div className={cn(
+            "flex items-center gap-2 pl-3 pr-1 py-1 rounded-full border backdrop-blur-sm transition-colors",
+            freezing ? "bg-red-50/90 border-red-200 text-red-700 animate-pulse" : "bg-white/50 border-white/40 text-slate-400"
+        )}>
+            <Snowflake className="w-3.5 h-3.5" />
+            <span className="text-[10px] font-bold uppercase tracking-widest">
+                {freezing ? 'Freezing' : 'No freeze'}
+            </span>
+            {duration !== null && <span className="text-[11px] font-semibold tabular-nums">{duration.toFixed(1)}s</span>}
+            <span className="text-[10px] tabular-nums opacity-80">FI {formatIndex(freezeIndex)}</span>
+            <button onClick={onOpenSettings} className="p-1 rounded-full hover:bg-black/5 transition-colors" aria-label="Freeze settings">
+                <Settings2 className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw, Snowflake, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AudioMode } from '@/services/api';
+import {
+    DEFAULT_FREEZE_SETTINGS, getFreezeSettings, onFreezeSettingsChange, setFreezeSettings,
+    type FreezeAction, type FreezeDetectorOptions, type FreezeResponse, type FreezeSettings as Settings,
+} from '@/services/freezeDetector';
+
+interface FreezeSettingsProps {
+    onClose: () => void;
+}
+
+const ACTIONS: { action: FreezeAction; label: string }[] = [
+    { action: 'none', label: 'Alert only' },
+    { action: 'mode', label: 'Switch mode' },
+    { action: 'volume', label: 'Louder' },
+];
+
+const MODES: { mode: AudioMode; label: string }[] = [
+    { mode: 0, label: 'Accordion' },
+    { mode: 1, label: 'Song' },
+];
+
+function SettingField({ label, value, onChange, suffix, step }: {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    suffix: string;
+    step?: number;
+}) {
+    return (
+        <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            {label}
+            <div className="flex items-center gap-1.5">
+                <input
+                    type="number"
+                    min={0}
+                    step={step}
+                    value={value}
+                    onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+                    className="w-20 px-2 py-1 rounded-lg bg-slate-50 border border-slate-200 text-right text-[11px] font-mono text-slate-600 outline-none focus:border-slate-400"
+                />
+                <span className="w-6 text-[10px] text-slate-400">{suffix}</span>
+            </div>
+        </label>
+    );
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            className={cn(
+                "px-3 py-1.5 rounded-full text-[11px] font-semibold transition-colors",
+                active ? "bg-slate-800 text-white" : "bg-slate-100 text-slate-500 hover:bg-slate-200"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+// Freezing-of-gait detector parameters and the cue played during an episode
+export function FreezeSettings({ onClose }: FreezeSettingsProps) {
+    const [settings, setSettings] = useState<Settings>(getFreezeSettings);
+
+    useEffect(() => onFreezeSettingsChange(setSettings), []);
+
+    const updateDetector = (changes: Partial<FreezeDetectorOptions>) =>
+        setFreezeSettings({ ...settings, detector: { ...settings.detector, ...changes } });
+    const updateResponse = (changes: Partial<FreezeResponse>) =>
+        setFreezeSettings({ ...settings, response: { ...settings.response, ...changes } });
+    const { detector, response } = settings;
+    const seconds = (ms: number) => ms / 1000;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[75vh] flex flex-col animate-in slide-in-from-bottom duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                        <Snowflake className="w-4 h-4 text-slate-500" />
+                        <span className="text-sm font-semibold text-slate-700">Freezing of gait</span>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
+                        <X className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+                    <div className="flex flex-col gap-2.5">
+                        <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">When a freeze starts</span>
+                        <div className="flex flex-wrap gap-1.5">
+                            {ACTIONS.map(({ action, label }) => (
+                                <Chip key={action} active={response.action === action} onClick={() => updateResponse({ action })}>
+                                    {label}
+                                </Chip>
+                            ))}
+                        </div>
+                        {response.action === 'mode' && (
+                            <div className="flex items-center justify-between gap-3 text-xs text-slate-600">
+                                Play
+                                <div className="flex gap-1.5">
+                                    {MODES.map(({ mode, label }) => (
+                                        <Chip key={mode} active={response.mode === mode} onClick={() => updateResponse({ mode })}>
+                                            {label}
+                                        </Chip>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {response.action === 'volume' && (
+                            <SettingField label="Raise volume by" value={response.volumeBoost} suffix="%"
+                                onChange={v => updateResponse({ volumeBoost: Math.min(100, v) })} />
+                        )}
+                        <span className="text-[10px] text-slate-400">
+                            {response.action === 'none'
+                                ? 'Freezes are shown on the Sensors page and logged in recordings.'
+                                : 'The previous setting comes back when the episode ends.'}
+                        </span>
+                    </div>
+
+                    <div className="flex flex-col gap-2.5">
+                        <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">Detector</span>
+                        <SettingField label="Freeze index threshold" value={detector.freezeIndexThreshold} suffix="" step={0.1}
+                            onChange={v => updateDetector({ freezeIndexThreshold: v })} />
+                        <SettingField label="Minimum band power" value={detector.minPower} suffix=""
+                            onChange={v => updateDetector({ minPower: v })} />
+                        <SettingField label="Analysis window" value={seconds(detector.windowMs)} suffix="s" step={0.5}
+                            onChange={v => updateDetector({ windowMs: Math.max(0.5, v) * 1000 })} />
+                        <SettingField label="Flag after" value={seconds(detector.minEpisodeMs)} suffix="s" step={0.5}
+                            onChange={v => updateDetector({ minEpisodeMs: v * 1000 })} />
+                        <SettingField label="Clear after" value={seconds(detector.releaseMs)} suffix="s" step={0.5}
+                            onChange={v => updateDetector({ releaseMs: v * 1000 })} />
+                        <SettingField label="Walking if both feet stepped within" value={seconds(detector.stepGapMs)} suffix="s" step={0.5}
+                            onChange={v => updateDetector({ stepGapMs: v * 1000 })} />
+                        <SettingField label="Shortest real stride" value={detector.minStrideMs} suffix="ms" step={50}
+                            onChange={v => updateDetector({ minStrideMs: v })} />
+                        <button
+                            onClick={() => setFreezeSettings(DEFAULT_FREEZE_SETTINGS)}
+                            className="self-start flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+                        >
+                            <RotateCcw className="w-3 h-3" />
+                            Restore defaults
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
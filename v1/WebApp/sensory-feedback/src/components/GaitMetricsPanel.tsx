@@ -0,0 +1,84 @@
+import { Footprints } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Foot } from '@/services/gaitEvents';
+import type { FootGaitMetrics, GaitMetrics, MetricStats } from '@/services/gaitMetrics';
+
+interface GaitMetricsPanelProps {
+    metrics: GaitMetrics;
+    title?: string;
+    className?: string;
+}
+
+type StatKey = Exclude<keyof FootGaitMetrics, 'strides'>;
+
+const ROWS: { label: string; time: StatKey; percent?: StatKey }[] = [
+    { label: 'Stride', time: 'strideTime' },
+    { label: 'Step', time: 'stepTime' },
+    { label: 'Stance', time: 'stanceTime', percent: 'stancePercent' },
+    { label: 'Swing', time: 'swingTime', percent: 'swingPercent' },
+    { label: 'Double support', time: 'doubleSupportTime', percent: 'doubleSupportPercent' },
+];
+
+const FOOT_COLUMNS: { foot: Foot; label: string; color: string }[] = [
+    { foot: 'right', label: 'Right', color: 'text-orange-500' },
+    { foot: 'left', label: 'Left', color: 'text-blue-500' },
+];
+
+function Cell({ time, percent }: { time: MetricStats | null; percent: MetricStats | null }) {
+    if (!time) return <span className="text-right text-slate-300">–</span>;
+    return (
+        <span className="text-right text-slate-600">
+            {(time.mean / 1000).toFixed(2)} s
+            {percent && <span className="text-slate-400"> · {percent.mean.toFixed(0)}%</span>}
+            {time.cv !== null && <span className="block text-[9px] text-slate-400">CV {time.cv.toFixed(1)}%</span>}
+        </span>
+    );
+}
+
+// Cadence and per-foot stride timing with variability
+export function GaitMetricsPanel({ metrics, title = 'Gait', className }: GaitMetricsPanelProps) {
+    const strides = Math.max(metrics.feet.left.strides, metrics.feet.right.strides);
+
+    return (
+        <div className={cn("rounded-2xl border border-slate-100 bg-white/80 backdrop-blur-sm p-3 flex flex-col gap-2", className)}>
+            <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    <Footprints className="w-3.5 h-3.5" />
+                    {title}
+                </span>
+                <span className="text-[10px] text-slate-400 tabular-nums">
+                    {strides === 0 ? 'Waiting for steps' : `${strides} stride${strides === 1 ? '' : 's'}`}
+                </span>
+            </div>
+
+            <div className="flex items-baseline gap-1">
+                <span className="text-2xl font-bold text-slate-700 tabular-nums">
+                    {metrics.cadence === null ? '–' : metrics.cadence.toFixed(0)}
+                </span>
+                <span className="text-xs text-slate-400">steps/min</span>
+            </div>
+
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-[11px] tabular-nums">
+                <span />
+                {FOOT_COLUMNS.map(({ foot, label, color }) => (
+                    <span key={foot} className={cn("text-right text-[10px] font-bold uppercase tracking-widest", color)}>{label}</span>
+                ))}
+                {ROWS.map(row => (
+                    <div key={row.label} className="contents">
+                        <span className="text-slate-400">{row.label}</span>
+                        {FOOT_COLUMNS.map(({ foot }) => {
+                            const feet = metrics.feet[foot];
+                            return (
+                                <Cell
+                                    key={foot}
+                                    time={feet[row.time]}
+                                    percent={row.percent ? feet[row.percent] : null}
+                                />
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
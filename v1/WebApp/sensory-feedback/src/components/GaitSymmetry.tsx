@@ -0,0 +1,116 @@
+import { Scale } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SYMMETRIC_SI, SYMMETRY_METRICS, type RecordingSymmetrySummary, type SymmetryMetric } from '@/services/gaitSymmetry';
+
+interface SymmetryPanelProps {
+    symmetry: RecordingSymmetrySummary;     // or a live GaitSymmetry
+    title?: string;
+    className?: string;
+}
+
+const MAX_BAR_SI = 50;  // |SI| that fills half the bar
+const TREND_WIDTH = 300;
+const TREND_HEIGHT = 60;
+
+const scoreColor = (score: number | null) =>
+    score === null ? 'text-slate-300' : score >= 100 - SYMMETRIC_SI ? 'text-emerald-600' : score >= 70 ? 'text-amber-600' : 'text-red-600';
+
+// Peak pressure and pressure-time integral of one foot, for its group header
+export function FootLoadSummary({ loads }: { loads: Record<SymmetryMetric, number | null> }) {
+    if (loads.peakPressure === null) return null;
+    return (
+        <span className="text-[10px] font-medium text-slate-400 tabular-nums">
+            peak {loads.peakPressure.toFixed(0)} · PTI {loads.pressureTimeIntegral?.toFixed(1) ?? '–'}
+        </span>
+    );
+}
+
+// Symmetry index per metric as a bar from the centre towards the larger side
+export function SymmetryPanel({ symmetry, title = 'Symmetry', className }: SymmetryPanelProps) {
+    return (
+        <div className={cn("rounded-2xl border border-slate-100 bg-white/80 backdrop-blur-sm p-3 flex flex-col gap-2", className)}>
+            <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    <Scale className="w-3.5 h-3.5" />
+                    {title}
+                </span>
+                <span className="text-[10px] text-slate-400 tabular-nums">
+                    {symmetry.score === null ? 'Waiting for steps' : (
+                        <>score <span className={cn("text-sm font-bold", scoreColor(symmetry.score))}>{symmetry.score.toFixed(0)}</span></>
+                    )}
+                </span>
+            </div>
+
+            <div className="flex justify-between text-[9px] font-bold uppercase tracking-widest">
+                <span className="text-blue-500">← Left larger</span>
+                <span className="text-orange-500">Right larger →</span>
+            </div>
+
+            {SYMMETRY_METRICS.map(({ metric, label }) => {
+                const si = symmetry.indices[metric];
+                const width = si === null ? 0 : Math.min(Math.abs(si), MAX_BAR_SI) / MAX_BAR_SI * 50;
+                return (
+                    <div key={metric} className="grid grid-cols-[7rem_1fr_3rem] items-center gap-2 text-[11px]">
+                        <span className="text-slate-400 truncate">{label}</span>
+                        <div className="relative h-1.5 rounded-full bg-slate-100">
+                            <div className="absolute left-1/2 top-[-2px] bottom-[-2px] w-px bg-slate-300" />
+                            {si !== null && (
+                                <div
+                                    className={cn("absolute top-0 bottom-0 rounded-full", si >= 0 ? "bg-orange-400" : "bg-blue-400")}
+                                    style={si >= 0 ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+                                />
+                            )}
+                        </div>
+                        <span className={cn(
+                            "text-right tabular-nums font-medium",
+                            si === null ? "text-slate-300" : Math.abs(si) > SYMMETRIC_SI ? "text-amber-600" : "text-slate-600"
+                        )}>
+                            {si === null ? '–' : `${si > 0 ? '+' : ''}${si.toFixed(0)}%`}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+// Session symmetry score across recordings, oldest left
+export function SymmetryTrend({ points }: { points: { date: number; score: number }[] }) {
+    if (points.length === 0) return null;
+
+    const x = (i: number) => points.length === 1 ? TREND_WIDTH / 2 : (i / (points.length - 1)) * TREND_WIDTH;
+    const y = (score: number) => TREND_HEIGHT - (score / 100) * TREND_HEIGHT;
+    const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${x(i).toFixed(1)} ${y(p.score).toFixed(1)}`).join(' ');
+    const latest = points[points.length - 1];
+
+    return (
+        <div className="w-full rounded-2xl border border-slate-100 bg-white p-4 flex flex-col gap-2">
+            <div className="flex items-baseline justify-between">
+                <span className="text-xs font-semibold text-slate-600">Symmetry score</span>
+                <span className="text-[10px] text-slate-400 tabular-nums">
+                    latest <span className={cn("font-bold", scoreColor(latest.score))}>{latest.score.toFixed(0)}</span> · {points.length} sessions
+                </span>
+            </div>
+            <div className="relative h-16">
+                <svg viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`} preserveAspectRatio="none" className="w-full h-full overflow-visible">
+                    <line
+                        x1={0} x2={TREND_WIDTH} y1={y(100 - SYMMETRIC_SI)} y2={y(100 - SYMMETRIC_SI)}
+                        stroke="#10b981" strokeDasharray="4 3" strokeWidth={1} vectorEffect="non-scaling-stroke" opacity={0.6}
+                    />
+                    <path d={path} fill="none" stroke="#334155" strokeWidth={1.5} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+                    {points.map((p, i) => (
+                        <line
+                            key={i}
+                            x1={x(i)} x2={x(i)} y1={y(p.score)} y2={y(p.score)}
+                            stroke="#334155" strokeWidth={5} strokeLinecap="round" vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                </svg>
+            </div>
+            <div className="flex items-center justify-between text-[9px] text-slate-300 tabular-nums">
+                <span>{new Date(points[0].date).toLocaleDateString()}</span>
+                <span>{new Date(latest.date).toLocaleDateString()}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+import type { DeviceSlot } from '@/services/deviceSlots';
+import { HEALTH_METRICS, isHealthWarning, type HealthMetric, type HealthPoint } from '@/services/deviceHealth';
+
+interface HealthChartProps {
+    metric: HealthMetric;
+    points: HealthPoint[];
+    from: number;       // wall-clock ms at the left edge
+    to: number;         // and at the right edge
+}
+
+const WIDTH = 300;
+const HEIGHT = 90;
+const LINE_BREAK_MS = 2 * 60 * 1000;   // no snapshot for this long: don't join the dots
+
+const SLOT_COLORS: Record<DeviceSlot, string> = {
+    main: '#334155',    // slate-700
+    left: '#f97316',    // orange-500
+    right: '#0ea5e9',   // sky-500
+};
+
+const axisTime = (ms: number, span: number) =>
+    span > 24 * 60 * 60 * 1000 ? new Date(ms).toLocaleDateString() : new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Heap is a continuous series (line per board); stalls and SD latency are incidents (stems)
+export function HealthChart({ metric, points, from, to }: HealthChartProps) {
+    const info = HEALTH_METRICS[metric];
+    const continuous = metric === 'heap';
+    const max = Math.max(info.warnAt, ...points.map(p => p.value)) * 1.15;
+    const span = Math.max(1, to - from);
+    const x = (time: number) => ((time - from) / span) * WIDTH;
+    const y = (value: number) => HEIGHT - (value / max) * HEIGHT;
+
+    const warnings = points.filter(p => isHealthWarning(metric, p.value)).length;
+    const latest = points[points.length - 1];
+    const slots = [...new Set(points.map(p => p.slot))];
+
+    const linePath = (series: HealthPoint[]) => series.map((p, i) => {
+        const join = i > 0 && p.time - series[i - 1].time <= LINE_BREAK_MS;
+        return `${join ? 'L' : 'M'} ${x(p.time).toFixed(1)} ${y(p.value).toFixed(1)}`;
+    }).join(' ');
+
+    return (
+        <div className="w-full rounded-2xl border border-slate-100 bg-white p-4 flex flex-col gap-2">
+            <div className="flex items-baseline justify-between">
+                <span className="text-xs font-semibold text-slate-600">{info.label}</span>
+                <span className="text-[10px] text-slate-400 tabular-nums">
+                    {points.length === 0 ? 'No data' : continuous
+                        ? `${latest.value} ${info.unit} now · min ${Math.min(...points.map(p => p.value))} ${info.unit}`
+                        : `${points.length} events · max ${Math.max(...points.map(p => p.value))} ${info.unit}`}
+                </span>
+            </div>
+
+            <div className="relative h-24">
+                <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-full overflow-visible">
+                    {/* Warning threshold */}
+                    <line
+                        x1={0} x2={WIDTH} y1={y(info.warnAt)} y2={y(info.warnAt)}
+                        stroke="#f59e0b" strokeDasharray="4 3" strokeWidth={1} vectorEffect="non-scaling-stroke" opacity={0.7}
+                    />
+                    {info.warnWhen === 'below' && (
+                        <rect x={0} y={y(info.warnAt)} width={WIDTH} height={HEIGHT - y(info.warnAt)} fill="#fef3c7" opacity={0.4} />
+                    )}
+                    {continuous
+                        ? slots.map(slot => (
+                            <path
+                                key={slot}
+                                d={linePath(points.filter(p => p.slot === slot))}
+                                fill="none" stroke={SLOT_COLORS[slot]} strokeWidth={1.5}
+                                strokeLinejoin="round" vectorEffect="non-scaling-stroke"
+                            />
+                        ))
+                        : points.map((p, i) => (
+                            <line
+                                key={i}
+                                x1={x(p.time)} x2={x(p.time)} y1={HEIGHT} y2={y(p.value)}
+                                stroke={isHealthWarning(metric, p.value) ? '#dc2626' : SLOT_COLORS[p.slot]}
+                                strokeWidth={2} strokeLinecap="round" vectorEffect="non-scaling-stroke"
+                            />
+                        ))}
+                </svg>
+                <span className="absolute top-0 left-0 text-[9px] text-slate-300 tabular-nums">{Math.round(max)} {info.unit}</span>
+                <span
+                    className="absolute right-0 text-[9px] text-amber-500 tabular-nums -translate-y-full"
+                    style={{ top: `${(y(info.warnAt) / HEIGHT) * 100}%` }}
+                >
+                    {info.warnWhen === 'below' ? '<' : '>'} {info.warnAt} {info.unit}
+                </span>
+            </div>
+
+            <div className="flex items-center justify-between text-[9px] text-slate-300 tabular-nums">
+                <span>{axisTime(from, span)}</span>
+                {warnings > 0 && (
+                    <span className="font-semibold text-amber-600">{warnings} past threshold</span>
+                )}
+                <span>{axisTime(to, span)}</span>
+            </div>
+        </div>
+    );
+}
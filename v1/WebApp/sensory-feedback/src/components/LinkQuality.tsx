@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { ChevronDown, Signal, SignalLow, SignalMedium, SignalZero, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SLOT_LABELS } from '@/services/deviceSlots';
+import { EXPECTED_FRAME_RATE_HZ, overallQuality, type LinkQuality, type LinkStats } from '@/services/linkMonitor';
+
+const QUALITY_STYLES: Record<LinkQuality, { label: string; icon: LucideIcon; color: string; bg: string }> = {
+    good: { label: 'Good', icon: Signal, color: 'text-emerald-500', bg: 'bg-emerald-50' },
+    fair: { label: 'Fair', icon: SignalMedium, color: 'text-amber-500', bg: 'bg-amber-50' },
+    poor: { label: 'Poor', icon: SignalLow, color: 'text-orange-500', bg: 'bg-orange-50' },
+    stalled: { label: 'Stalled', icon: SignalZero, color: 'text-red-500', bg: 'bg-red-50' },
+    offline: { label: 'No data', icon: SignalZero, color: 'text-slate-400', bg: 'bg-slate-50' },
+};
+
+const ms = (value: number | null) => value === null ? '–' : `${Math.round(value)} ms`;
+
+// Compact indicator for the Navbar: worst link across boards
+export function LinkQualityIndicator({ stats }: { stats: LinkStats[] }) {
+    const quality = overallQuality(stats);
+    if (!quality) return null;
+    const style = QUALITY_STYLES[quality];
+    const Icon = style.icon;
+    const rate = Math.min(...stats.map(s => s.frameRate));
+    return (
+        <div
+            className={cn("flex flex-col items-center justify-center w-14 h-11 rounded-xl select-none", style.color)}
+            title={`Link ${style.label.toLowerCase()}`}
+        >
+            <Icon className="w-5 h-5 mb-0.5" />
+            <span className="text-[9px] font-medium tabular-nums">
+                {quality === 'stalled' || quality === 'offline' ? style.label : `${Math.round(rate)} Hz`}
+            </span>
+        </div>
+    );
+}
+
+function StatRow({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+    return (
+        <div className="flex items-center justify-between">
+            <span className="text-[11px] text-slate-400">{label}</span>
+            <span className={cn("text-[11px] font-medium tabular-nums", warn ? "text-amber-600" : "text-slate-600")}>{value}</span>
+        </div>
+    );
+}
+
+// Detail panel for Home: per-board rate, gaps, stalls and latency
+export function LinkDetails({ stats }: { stats: LinkStats[] }) {
+    const [open, setOpen] = useState(false);
+    const quality = overallQuality(stats);
+    if (!quality) return null;
+    const style = QUALITY_STYLES[quality];
+    const Icon = style.icon;
+
+    return (
+        <div className="w-full rounded-2xl border border-slate-100 bg-white overflow-hidden">
+            <button
+                onClick={() => setOpen(!open)}
+                className="w-full flex items-center gap-2 px-4 py-2.5 text-left"
+            >
+                <Icon className={cn("w-4 h-4", style.color)} />
+                <span className="flex-1 text-xs font-semibold text-slate-600">Link {style.label.toLowerCase()}</span>
+                <span className="text-[10px] text-slate-400 tabular-nums">
+                    {stats.map(s => `${s.frameRate.toFixed(1)} Hz`).join(' · ')}
+                </span>
+                <ChevronDown className={cn("w-3.5 h-3.5 text-slate-300 transition-transform", open && "rotate-180")} />
+            </button>
+            {open && (
+                <div className="grid gap-3 px-4 pb-3" style={{ gridTemplateColumns: `repeat(${stats.length}, minmax(0, 1fr))` }}>
+                    {stats.map(s => (
+                        <div key={s.slot} className={cn("flex flex-col gap-1 p-2.5 rounded-xl", QUALITY_STYLES[s.quality].bg)}>
+                            {stats.length > 1 && (
+                                <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">{SLOT_LABELS[s.slot]}</span>
+                            )}
+                            <StatRow
+                                label="Frame rate"
+                                value={`${s.frameRate.toFixed(1)} / ${EXPECTED_FRAME_RATE_HZ} Hz`}
+                                warn={s.frameRate < EXPECTED_FRAME_RATE_HZ * 0.9}
+                            />
+                            <StatRow label="Gap p50 / p95" value={`${ms(s.gapP50)} / ${ms(s.gapP95)}`} warn={(s.gapP95 ?? 0) > 120} />
+                            <StatRow label="Longest gap" value={ms(s.gapMax)} />
+                            <StatRow
+                                label="Stalls"
+                                value={s.stalled ? `stalled ${(s.stallMs / 1000).toFixed(0)}s` : `${s.stallCount}`}
+                                warn={s.stalled}
+                            />
+                            <StatRow
+                                label="Latency"
+                                value={s.latencyAvgMs === null ? '–' : `${ms(s.latencyMs)} (avg ${ms(s.latencyAvgMs)})`}
+                                warn={(s.latencyMs ?? 0) > 200}
+                            />
+                            {s.pingFailures > 0 && <StatRow label="Unanswered pings" value={`${s.pingFailures}`} warn />}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
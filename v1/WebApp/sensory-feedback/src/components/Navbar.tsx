@@ -1,16 +1,20 @@
 import { Link, useLocation } from "react-router-dom"
 import { cn } from "@/lib/utils"
 import { useConnection } from "@/context/ConnectionContext"
-import { Home, Activity, Eye } from "lucide-react"
+import { Home, Activity, Eye, HeartPulse } from "lucide-react"
+import { LinkQualityIndicator } from "@/components/LinkQuality"
+import { useLinkStats } from "@/hooks/useLinkStats"
 
 export function Navbar() {
   const location = useLocation()
   const { isConnected } = useConnection()
+  const linkStats = useLinkStats()
 
   const navItems = [
     { path: "/", label: "Home", icon: Home, disabled: false },
     { path: "/sensors", label: "Sensors", icon: Activity, disabled: !isConnected },
     { path: "/view", label: "View", icon: Eye, disabled: false },
+    { path: "/health", label: "Health", icon: HeartPulse, disabled: false },
   ]
 
   return (
@@ -49,6 +53,12 @@ export function Navbar() {
              </Link>
            )
         })}
+        {isConnected && linkStats.length > 0 && (
+          <>
+            <div className="w-px h-7 bg-slate-300/70 mx-0.5" />
+            <LinkQualityIndicator stats={linkStats} />
+          </>
+        )}
       </nav>
     </div>
   )
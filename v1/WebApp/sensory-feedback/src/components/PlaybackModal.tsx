@@ -1,8 +1,15 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { X, Play, Pause, SkipBack, SkipForward } from 'lucide-react';
+import { X, Play, Pause, SkipBack, SkipForward, Snowflake } from 'lucide-react';
 import { WalkingModel } from './WalkingModel';
 import { cn } from '@/lib/utils';
 import { Slider } from './ui/slider';
+import { parseRecordingCsv, parseRecordingFreezes, parseRecordingPipelines, reprocessRecording } from '@/services/recordingCsv';
+import { detectFreezes } from '@/services/freezeDetector';
+import { detectGaitEvents, footPhaseAt } from '@/services/gaitEvents';
+import { gaitCycles, summarizeGait } from '@/services/gaitMetrics';
+import { gaitSymmetry } from '@/services/gaitSymmetry';
+import { GaitMetricsPanel } from './GaitMetricsPanel';
+import { SymmetryPanel } from './GaitSymmetry';
 
 interface PlaybackModalProps {
     isOpen: boolean;
@@ -18,12 +25,22 @@ interface Frame {
     sensors: number[]; // [RF, LF, RB, LB]
 }
 
+// Which levels to play back: as recorded (after the signal pipeline), from
+// before the pipeline, or the unfiltered ones run through the saved pipeline again
+type PlaybackSource = 'recorded' | 'unfiltered' | 'reprocessed';
+
+const SOURCE_LABELS: Record<PlaybackSource, string> = {
+    recorded: 'Recorded',
+    unfiltered: 'Unfiltered',
+    reprocessed: 'Reprocessed',
+};
+
 export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps) {
     const [isPlaying, setIsPlaying] = useState(false);
     const [progress, setProgress] = useState(0); // 0 to 100
     const [currentTime, setCurrentTime] = useState(0);
-    const [duration, setDuration] = useState(0);
     const [isMobile, setIsMobile] = useState(false);
+    const [source, setSource] = useState<PlaybackSource>('recorded');
 
     useEffect(() => {
         const handleResize = () => setIsMobile(window.innerWidth < 640);
@@ -32,45 +49,34 @@ export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps
         return () => window.removeEventListener('resize', handleResize);
     }, []);
     
+    // Recordings made before the signal pipeline only have the recorded levels
+    const sources = useMemo<PlaybackSource[]>(
+        () => parseRecordingPipelines(recording.data ?? '').length > 0 ? ['recorded', 'unfiltered', 'reprocessed'] : ['recorded'],
+        [recording]
+    );
+    const activeSource = sources.includes(source) ? source : 'recorded';
+
     // Parsed data
-    const framesRef = useRef<Frame[]>([]);
+    const frames = useMemo<Frame[]>(() => {
+        if (!recording.data) return [];
+        const parsed = activeSource === 'reprocessed'
+            ? reprocessRecording(recording.data)
+            : parseRecordingCsv(recording.data, activeSource === 'unfiltered' ? 'unfiltered' : 'processed');
+        return parsed.map(frame => ({ time: frame.time, sensors: frame.values }));
+    }, [recording, activeSource]);
+    const duration = frames.length > 0 ? frames[frames.length - 1].time : 0;
     const requestRef = useRef<number | null>(null);
     const startTimeRef = useRef<number>(0);
     const playStartProgressRef = useRef<number>(0);
 
-    // Parse CSV on mount/change
-    useEffect(() => {
-        if (!recording.data) return;
-
-        const lines = recording.data.trim().split('\n');
-        // Skip header
-        const dataLines = lines.slice(1);
-        
-        const parsed: Frame[] = dataLines.map(line => {
-            const parts = line.split(',');
-            // CSV: time_ms, RF, LF, RB, LB
-            // Model expects: [RF, LF, RB, LB]
-            // Map indices: 1->0, 2->1, 3->2, 4->3
-            return {
-                time: parseInt(parts[0], 10),
-                sensors: [
-                    parseFloat(parts[1]) || 0,
-                    parseFloat(parts[2]) || 0,
-                    parseFloat(parts[3]) || 0,
-                    parseFloat(parts[4]) || 0
-                ]
-            };
-        });
-
-        framesRef.current = parsed;
-        if (parsed.length > 0) {
-            setDuration(parsed[parsed.length - 1].time);
-        }
+    // Rewind when another recording is opened
+    const [shownRecording, setShownRecording] = useState(recording);
+    if (recording !== shownRecording) {
+        setShownRecording(recording);
         setProgress(0);
         setCurrentTime(0);
         setIsPlaying(false);
-
-    }, [recording]);
+    }
 
     // Animation Loop
     const animate = (timestamp: number) => {
@@ -116,7 +122,6 @@ export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps
     // Memoize this search or just do it render-time since N is small (< 60*60*30 = 100k, binary search ideal but find is ok for small clips)
     // Actually for 30fps, 1 min = 1800 frames. .find is fast enough.
     const currentFrame = useMemo(() => {
-        const frames = framesRef.current;
         if (frames.length === 0) return { time: 0, sensors: [0,0,0,0] };
         
         // Optimized search: frames are sorted by time
@@ -128,7 +133,30 @@ export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps
         let found = frames.find(f => f.time >= currentTime);
         return found || frames[frames.length - 1];
 
-    }, [currentTime, recording]);
+    }, [currentTime, frames]);
+
+    // Stance phases for the shoe tilt, whole-recording gait metrics and symmetry, detected once per recording.
+    // Like live detection, on the levels before the signal pipeline
+    const gaitEvents = useMemo(
+        () => recording.data ? detectGaitEvents(parseRecordingCsv(recording.data, 'unfiltered')) : [],
+        [recording]
+    );
+    const cycles = useMemo(() => gaitCycles(gaitEvents), [gaitEvents]);
+    const gaitMetrics = useMemo(() => summarizeGait(cycles), [cycles]);
+    const symmetry = useMemo(() => gaitSymmetry(cycles), [cycles]);
+    const gaitPhases = {
+        left: footPhaseAt(gaitEvents, 'left', currentTime),
+        right: footPhaseAt(gaitEvents, 'right', currentTime),
+    };
+
+    // Freezes logged while recording; older recordings are analysed here instead
+    const freezes = useMemo(() => {
+        if (!recording.data) return [];
+        const logged = parseRecordingFreezes(recording.data);
+        if (logged.length > 0) return logged;
+        return detectFreezes(parseRecordingCsv(recording.data, 'unfiltered')).map(e => ({ start: e.start, end: e.end ?? e.start }));
+    }, [recording]);
+    const isFreezing = freezes.some(e => currentTime >= e.start && currentTime <= e.end);
 
 
     const handleScrub = (val: number[]) => {
@@ -170,13 +198,38 @@ export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps
                 
                 {/* 3D Viewer - Main Focus */}
                 <div className="flex-1 w-full bg-gradient-to-b from-slate-100 via-white to-slate-50 relative">
-                     <WalkingModel sensors={currentFrame.sensors} modelPosition={isMobile ? [0, -0.8, 0] : undefined} />
+                     <WalkingModel sensors={currentFrame.sensors} phases={gaitPhases} modelPosition={isMobile ? [0, -0.8, 0] : undefined} />
                      
                      {/* Header Overlay */}
                      <div className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start pointer-events-none">
                         <div className="bg-white/60 backdrop-blur-md px-5 py-3 rounded-2xl pointer-events-auto flex flex-col items-start text-left">
                             <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-400/80 mb-0.5">Session Playback</h2>
                             <p className="text-lg font-bold text-slate-700">{new Date(recording.date).toLocaleString([], { year: '2-digit', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+                            {freezes.length > 0 && (
+                                <span className={cn(
+                                    "mt-1 flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest",
+                                    isFreezing ? "text-red-600" : "text-slate-400"
+                                )}>
+                                    <Snowflake className="w-3 h-3" />
+                                    {isFreezing ? 'Freezing' : `${freezes.length} freeze${freezes.length === 1 ? '' : 's'}`}
+                                </span>
+                            )}
+                            {sources.length > 1 && (
+                                <div className="mt-2 flex gap-1">
+                                    {sources.map(s => (
+                                        <button
+                                            key={s}
+                                            onClick={() => setSource(s)}
+                                            className={cn(
+                                                "px-2 py-0.5 rounded-full text-[10px] font-semibold transition-colors",
+                                                activeSource === s ? "bg-slate-700 text-white" : "bg-white/70 text-slate-500 hover:bg-white"
+                                            )}
+                                        >
+                                            {SOURCE_LABELS[s]}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                         
                         <button 
@@ -207,6 +260,18 @@ export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps
                             <span className="font-mono font-bold text-blue-600">{currentFrame.sensors[3].toFixed(0)}</span>
                         </div>
                      </div>
+
+                     {/* Gait metrics over the whole recording */}
+                     <GaitMetricsPanel
+                        metrics={gaitMetrics}
+                        title="Gait (recording)"
+                        className="hidden sm:flex absolute bottom-5 left-6 w-72 shadow-sm pointer-events-none"
+                     />
+                     <SymmetryPanel
+                        symmetry={symmetry}
+                        title="Symmetry (recording)"
+                        className="hidden sm:flex absolute bottom-5 right-6 w-72 shadow-sm pointer-events-none"
+                     />
                 </div>
 
                 {/* Controls Bar */}
@@ -216,13 +281,23 @@ export function PlaybackModal({ isOpen, onClose, recording }: PlaybackModalProps
                          <span className="text-xs font-mono font-medium text-slate-400 w-12 text-right">
                              {(currentTime / 1000).toFixed(1)}s
                          </span>
-                         <Slider 
-                            value={[progress]} 
-                            max={100} 
-                            step={0.1}
-                            onValueChange={handleScrub}
-                            className="flex-1 cursor-pointer py-2"
-                         />
+                         <div className="relative flex-1">
+                            {/* Freezing episodes under the track */}
+                            {duration > 0 && freezes.map((e, i) => (
+                                <div
+                                    key={i}
+                                    className="absolute bottom-0 h-1 rounded-full bg-red-400/70 pointer-events-none"
+                                    style={{ left: `${(e.start / duration) * 100}%`, width: `${Math.max(0.5, ((e.end - e.start) / duration) * 100)}%` }}
+                                />
+                            ))}
+                            <Slider 
+                                value={[progress]} 
+                                max={100} 
+                                step={0.1}
+                                onValueChange={handleScrub}
+                                className="cursor-pointer py-2"
+                            />
+                         </div>
                          <span className="text-xs font-mono font-medium text-slate-400 w-12">
                              {(duration / 1000).toFixed(1)}s
                          </span>
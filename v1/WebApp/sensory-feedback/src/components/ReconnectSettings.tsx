@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, RotateCcw, X } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import {
+    DEFAULT_RECONNECT_POLICY, getReconnectPolicy, onReconnectPolicyChange, reconnectMetrics, setReconnectPolicy,
+    type ReconnectMetrics, type ReconnectPolicy,
+} from '@/services/reconnectPolicy';
+
+interface ReconnectSettingsProps {
+    onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+    const s = Math.round(ms / 1000);
+    return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m ${s % 60}s`;
+}
+
+// Number input in display units; an empty field means "no limit" when allowed
+function PolicyField({ label, value, onChange, suffix, unlimited }: {
+    label: string;
+    value: number | null;
+    onChange: (value: number | null) => void;
+    suffix: string;
+    unlimited?: boolean;
+}) {
+    return (
+        <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            {label}
+            <div className="flex items-center gap-1.5">
+                <input
+                    type="number"
+                    min={0}
+                    value={value ?? ''}
+                    placeholder={unlimited ? 'no limit' : undefined}
+                    onChange={(e) => {
+                        if (e.target.value === '' && unlimited) return onChange(null);
+                        onChange(Math.max(0, Number(e.target.value) || 0));
+                    }}
+                    className="w-20 px-2 py-1 rounded-lg bg-slate-50 border border-slate-200 text-right text-[11px] font-mono text-slate-600 outline-none focus:border-slate-400"
+                />
+                <span className="w-6 text-[10px] text-slate-400">{suffix}</span>
+            </div>
+        </label>
+    );
+}
+
+// Reconnect policy settings and this session's reconnect counts
+export function ReconnectSettings({ onClose }: ReconnectSettingsProps) {
+    const [policy, setPolicy] = useState<ReconnectPolicy>(getReconnectPolicy);
+    const [metrics, setMetrics] = useState<ReconnectMetrics>(() => reconnectMetrics.get());
+
+    useEffect(() => onReconnectPolicyChange(setPolicy), []);
+    useEffect(() => reconnectMetrics.onChange(setMetrics), []);
+
+    const update = (changes: Partial<ReconnectPolicy>) => setReconnectPolicy({ ...policy, ...changes });
+    const seconds = (ms: number | null) => ms === null ? null : ms / 1000;
+
+    const stats: [string, string | number][] = [
+        ['Link drops', metrics.drops],
+        ['Reconnected', metrics.reconnects],
+        ['Back in range', metrics.passiveReconnects],
+        ['Gave up', metrics.gaveUp],
+        ['Attempts', metrics.attempts],
+        ['Longest outage', formatDuration(metrics.longestOutageMs)],
+        ['Total outage', formatDuration(metrics.totalOutageMs)],
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[75vh] flex flex-col animate-in slide-in-from-bottom duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                        <RefreshCw className="w-4 h-4 text-slate-500" />
+                        <span className="text-sm font-semibold text-slate-700">Reconnecting</span>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
+                        <X className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+                    <div className="flex flex-col gap-2.5">
+                        <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">After a dropped link</span>
+                        <PolicyField label="Max attempts" value={policy.maxAttempts} unlimited suffix=""
+                            onChange={v => update({ maxAttempts: v === 0 ? null : v })} />
+                        <PolicyField label="Give up after" value={seconds(policy.maxTotalMs)} unlimited suffix="s"
+                            onChange={v => update({ maxTotalMs: v === null || v === 0 ? null : v * 1000 })} />
+                        <PolicyField label="First retry after" value={seconds(policy.baseDelayMs)} suffix="s"
+                            onChange={v => update({ baseDelayMs: (v ?? 0) * 1000 })} />
+                        <PolicyField label="Longest wait between tries" value={seconds(policy.maxDelayMs)} suffix="s"
+                            onChange={v => update({ maxDelayMs: Math.max(1, v ?? 0) * 1000 })} />
+                        <PolicyField label="Backoff factor" value={policy.multiplier} suffix="×"
+                            onChange={v => update({ multiplier: Math.max(1, v ?? 1) })} />
+                        <PolicyField label="Jitter" value={Math.round(policy.jitter * 100)} suffix="%"
+                            onChange={v => update({ jitter: Math.min(100, v ?? 0) / 100 })} />
+                        <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+                            <div className="flex flex-col">
+                                Keep watching afterwards
+                                <span className="text-[10px] text-slate-400">Reconnect when the insole comes back in range</span>
+                            </div>
+                            <Switch checked={policy.passive} onCheckedChange={passive => update({ passive })} />
+                        </label>
+                        <button
+                            onClick={() => setReconnectPolicy(DEFAULT_RECONNECT_POLICY)}
+                            className="self-start flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+                        >
+                            <RotateCcw className="w-3 h-3" />
+                            Restore defaults
+                        </button>
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">
+                            This session
+                            {metrics.sessionStartedAt && ` · since ${new Date(metrics.sessionStartedAt).toLocaleTimeString()}`}
+                        </span>
+                        <div className="grid grid-cols-2 gap-1.5">
+                            {stats.map(([label, value]) => (
+                                <div key={label} className="flex items-center justify-between px-3 py-2 rounded-xl bg-slate-50">
+                                    <span className="text-[11px] text-slate-500">{label}</span>
+                                    <span className="text-xs font-semibold text-slate-700 tabular-nums">{value}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
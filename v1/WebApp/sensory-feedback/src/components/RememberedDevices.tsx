@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Pencil, Trash2, Check } from 'lucide-react';
+import { SLOT_LABELS } from '@/services/deviceSlots';
+import type { RememberedDevice } from '@/services/deviceRegistry';
+
+interface RememberedDevicesProps {
+    devices: RememberedDevice[];
+    onRename: (id: string, label: string) => void;
+    onForget: (id: string) => void;
+}
+
+function formatLastSeen(iso: string): string {
+    const date = new Date(iso);
+    const days = Math.floor((Date.now() - date.getTime()) / 86400000);
+    if (days === 0) return 'today';
+    if (days === 1) return 'yesterday';
+    if (days < 7) return `${days} days ago`;
+    return date.toLocaleDateString();
+}
+
+export function RememberedDevices({ devices, onRename, onForget }: RememberedDevicesProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+
+    if (devices.length === 0) return null;
+
+    const startEditing = (device: RememberedDevice) => {
+        setEditingId(device.id);
+        setDraft(device.label);
+    };
+
+    const commit = () => {
+        if (editingId) onRename(editingId, draft);
+        setEditingId(null);
+    };
+
+    return (
+        <div className="w-full flex flex-col gap-1 animate-in fade-in duration-500">
+            <span className="px-2 text-[10px] font-bold tracking-widest text-slate-400 uppercase">Paired insoles</span>
+            {devices.map(device => (
+                <div key={device.id} className="flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-slate-50 border border-slate-100">
+                    <div className="flex-1 min-w-0">
+                        {editingId === device.id ? (
+                            <input
+                                autoFocus
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onBlur={commit}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') commit();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                className="w-full bg-white rounded-lg px-2 py-0.5 text-xs font-medium text-slate-700 border border-slate-200 outline-none"
+                            />
+                        ) : (
+                            <div className="text-xs font-medium text-slate-700 truncate">{device.label}</div>
+                        )}
+                        <div className="text-[10px] text-slate-400 truncate">
+                            {SLOT_LABELS[device.slot]} · {device.name} · {formatLastSeen(device.lastSeen)}
+                        </div>
+                    </div>
+                    <button
+                        // Keep focus in the input so its blur doesn't commit before this click
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => editingId === device.id ? commit() : startEditing(device)}
+                        className="p-1.5 rounded-full text-slate-400 hover:text-slate-600 hover:bg-white transition-colors"
+                        aria-label={editingId === device.id ? 'Save name' : 'Rename'}
+                    >
+                        {editingId === device.id ? <Check className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                        onClick={() => onForget(device.id)}
+                        className="p-1.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-white transition-colors"
+                        aria-label="Forget"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Play, Pause, Repeat, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Slider } from './ui/slider';
+import { useConnection } from '@/context/ConnectionContext';
+import { replayTransport } from '@/services/transport';
+import type { ReplayStatus } from '@/services/ReplayTransport';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+function formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+// Floating transport bar while a recording is being replayed as a device
+export function ReplayControls() {
+    const { transport, isConnected, disconnect } = useConnection();
+    const [status, setStatus] = useState<ReplayStatus>(() => replayTransport.getStatus());
+
+    useEffect(() => {
+        // Frames arrive at ~15-20Hz; the bar only needs a few updates a second
+        let last = 0;
+        return replayTransport.onStatus((next) => {
+            const now = performance.now();
+            if (next.playing && now - last < 250) return;
+            last = now;
+            setStatus(next);
+        });
+    }, []);
+
+    if (transport !== 'replay' || !isConnected) return null;
+
+    return (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[min(92vw,420px)] animate-in slide-in-from-top-5 fade-in duration-500">
+            <div className="flex flex-col gap-2 px-4 py-3 rounded-2xl bg-white/90 backdrop-blur-md border border-slate-100 shadow-xl shadow-slate-200/60">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => status.playing ? replayTransport.pause() : replayTransport.play()}
+                        className="w-8 h-8 rounded-full bg-slate-900 text-white flex items-center justify-center active:scale-95 transition-transform"
+                        aria-label={status.playing ? 'Pause' : 'Play'}
+                    >
+                        {status.playing ? <Pause className="w-3.5 h-3.5" fill="currentColor" /> : <Play className="w-3.5 h-3.5 ml-0.5" fill="currentColor" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                        <div className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">Replay</div>
+                        <div className="text-xs font-medium text-slate-700 truncate">{status.name}</div>
+                    </div>
+                    <button
+                        onClick={() => replayTransport.setLoop(!status.loop)}
+                        className={cn(
+                            "p-1.5 rounded-full transition-colors",
+                            status.loop ? "text-slate-800 bg-slate-100" : "text-slate-300 hover:text-slate-500"
+                        )}
+                        aria-label="Loop"
+                    >
+                        <Repeat className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={() => disconnect()}
+                        className="p-1.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                        aria-label="Stop replay"
+                    >
+                        <Square className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+                <div className="flex items-center gap-3">
+                    <span className="text-[10px] font-mono text-slate-400 w-8">{formatTime(status.position)}</span>
+                    <Slider
+                        className="flex-1"
+                        value={[status.position]}
+                        max={Math.max(1, status.duration)}
+                        step={100}
+                        onValueChange={([value]) => replayTransport.seek(value)}
+                    />
+                    <span className="text-[10px] font-mono text-slate-400 w-8 text-right">{formatTime(status.duration)}</span>
+                </div>
+                <div className="flex justify-center gap-1">
+                    {SPEEDS.map(speed => (
+                        <button
+                            key={speed}
+                            onClick={() => replayTransport.setSpeed(speed)}
+                            className={cn(
+                                "px-2.5 py-0.5 rounded-full text-[10px] font-semibold tabular-nums transition-colors",
+                                status.speed === speed ? "bg-slate-900 text-white" : "text-slate-400 hover:bg-slate-100"
+                            )}
+                        >
+                            {speed}×
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
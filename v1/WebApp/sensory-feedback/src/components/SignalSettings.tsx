@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Copy, Plus, RotateCcw, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSensorStream } from '@/hooks/useSensorStream';
+import {
+    DEFAULT_SIGNAL_PIPELINE, getSignalPipeline, onSignalPipelineChange, setSignalPipeline, SIGNAL_STEPS, signalStepSpec,
+    type SignalPipelineConfig, type SignalStep, type SignalStepKind,
+} from '@/services/signalPipeline';
+
+interface SignalSettingsProps {
+    onClose: () => void;
+}
+
+const CHANNELS = [
+    { id: 0, label: 'RF', color: '#fb923c' },
+    { id: 1, label: 'LF', color: '#60a5fa' },
+    { id: 2, label: 'RB', color: '#ea580c' },
+    { id: 3, label: 'LB', color: '#2563eb' },
+];
+
+const PREVIEW_FRAMES = 100;  // 5s at 20Hz
+const PREVIEW_WIDTH = 300;
+const PREVIEW_HEIGHT = 80;
+
+function previewPath(values: number[]): string {
+    const x = (i: number) => (i / Math.max(1, PREVIEW_FRAMES - 1)) * PREVIEW_WIDTH;
+    const y = (v: number) => PREVIEW_HEIGHT - (Math.min(100, v) / 100) * PREVIEW_HEIGHT;
+    const offset = PREVIEW_FRAMES - values.length;
+    return values.map((v, i) => `${i === 0 ? 'M' : 'L'} ${x(i + offset).toFixed(1)} ${y(v).toFixed(1)}`).join(' ');
+}
+
+function StepRow({ step, first, last, onChange, onMove, onRemove }: {
+    step: SignalStep;
+    first: boolean;
+    last: boolean;
+    onChange: (value: number) => void;
+    onMove: (by: -1 | 1) => void;
+    onRemove: () => void;
+}) {
+    const spec = signalStepSpec(step.kind);
+    const iconButton = "p-1 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+    return (
+        <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-50">
+            <div className="flex-1 flex flex-col">
+                <span className="text-xs font-semibold text-slate-600">{spec.label}</span>
+                <span className="text-[10px] text-slate-400">{spec.param}</span>
+            </div>
+            <input
+                type="number"
+                min={spec.min}
+                max={spec.max}
+                step={spec.step}
+                value={step.value}
+                onChange={(e) => onChange(Math.min(spec.max, Math.max(spec.min, Number(e.target.value) || spec.min)))}
+                className="w-16 px-2 py-1 rounded-lg bg-white border border-slate-200 text-right text-[11px] font-mono text-slate-600 outline-none focus:border-slate-400"
+            />
+            <span className="w-10 text-[10px] text-slate-400">{spec.unit}</span>
+            <button onClick={() => onMove(-1)} disabled={first} className={iconButton} aria-label="Move up">
+                <ArrowUp className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onMove(1)} disabled={last} className={iconButton} aria-label="Move down">
+                <ArrowDown className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={onRemove} className={iconButton} aria-label="Remove">
+                <Trash2 className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+}
+
+// Per-channel filter chain with a live before/after preview; changes apply immediately
+export function SignalSettings({ onClose }: SignalSettingsProps) {
+    const [config, setConfig] = useState<SignalPipelineConfig>(getSignalPipeline);
+    const [channel, setChannel] = useState(0);
+    const { history } = useSensorStream({ historySize: PREVIEW_FRAMES });
+
+    useEffect(() => onSignalPipelineChange(setConfig), []);
+
+    const steps = config.channels[channel];
+    const color = CHANNELS[channel].color;
+    const updateSteps = (next: SignalStep[]) =>
+        setSignalPipeline({ channels: config.channels.map((s, i) => i === channel ? next : s) });
+    const addStep = (kind: SignalStepKind) => updateSteps([...steps, { kind, value: signalStepSpec(kind).default }]);
+    const moveStep = (index: number, by: -1 | 1) => {
+        const next = [...steps];
+        [next[index], next[index + by]] = [next[index + by], next[index]];
+        updateSteps(next);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[85vh] flex flex-col animate-in slide-in-from-bottom duration-300"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                        <SlidersHorizontal className="w-4 h-4 text-slate-500" />
+                        <span className="text-sm font-semibold text-slate-700">Signal filters</span>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
+                        <X className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-5">
+                    <div className="flex gap-1.5">
+                        {CHANNELS.map(({ id, label, color }) => (
+                            <button
+                                key={id}
+                                onClick={() => setChannel(id)}
+                                className={cn(
+                                    "flex-1 py-1.5 rounded-full text-[11px] font-bold transition-colors",
+                                    channel === id ? "text-white" : "bg-slate-100 text-slate-500 hover:bg-slate-200"
+                                )}
+                                style={channel === id ? { backgroundColor: color } : undefined}
+                            >
+                                {label}
+                                {config.channels[id].length > 0 && <span className="ml-1 opacity-70">{config.channels[id].length}</span>}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Live preview: calibrated input and filtered output of the selected channel */}
+                    <div className="flex flex-col gap-1.5">
+                        <div className="flex items-center justify-between text-[10px] font-medium text-slate-400">
+                            <span className="flex items-center gap-1.5">
+                                <span className="w-3 h-0.5 rounded-full bg-slate-300" /> unfiltered
+                                <span className="w-3 h-0.5 rounded-full ml-2" style={{ backgroundColor: color }} /> filtered
+                            </span>
+                            <span>last 5s</span>
+                        </div>
+                        <div className="relative h-20 rounded-xl bg-slate-50 overflow-hidden">
+                            {history.length > 1 ? (
+                                <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`} preserveAspectRatio="none" className="w-full h-full">
+                                    <path d={previewPath(history.map(f => f.calibrated[channel]))} fill="none" stroke="#cbd5e1" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                                    <path d={previewPath(history.map(f => f.processed[channel]))} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+                                </svg>
+                            ) : (
+                                <div className="absolute inset-0 flex items-center justify-center text-[11px] text-slate-400">
+                                    Waiting for sensor data
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">Steps, in order</span>
+                        {steps.length === 0 && <span className="text-[11px] text-slate-400">Unfiltered: levels are shown and recorded as calibrated.</span>}
+                        {steps.map((step, i) => (
+                            <StepRow
+                                key={i}
+                                step={step}
+                                first={i === 0}
+                                last={i === steps.length - 1}
+                                onChange={value => updateSteps(steps.map((s, j) => j === i ? { ...s, value } : s))}
+                                onMove={by => moveStep(i, by)}
+                                onRemove={() => updateSteps(steps.filter((_, j) => j !== i))}
+                            />
+                        ))}
+                        <div className="flex flex-wrap gap-1.5 pt-1">
+                            {SIGNAL_STEPS.map(({ kind, label }) => (
+                                <button
+                                    key={kind}
+                                    onClick={() => addStep(kind)}
+                                    className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 text-[10px] font-semibold text-slate-500 hover:bg-slate-200 transition-colors"
+                                >
+                                    <Plus className="w-3 h-3" />
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => setSignalPipeline({ channels: config.channels.map(() => steps) })}
+                            className="flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+                        >
+                            <Copy className="w-3 h-3" />
+                            Use for all channels
+                        </button>
+                        <button
+                            onClick={() => setSignalPipeline(DEFAULT_SIGNAL_PIPELINE)}
+                            className="flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+                        >
+                            <RotateCcw className="w-3 h-3" />
+                            Restore defaults
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { Wrench, X, Zap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { config } from '@/config';
+import { useConnection } from '@/context/ConnectionContext';
+import {
+    stubScenarios, GAIT_PROFILES, GAIT_PROFILE_LABELS, FAULT_KINDS, FAULT_LABELS,
+    type FaultKind, type ScenarioStatus,
+} from '@/services/stubScenarios';
+
+// Sensible starting values per fault, in seconds / percent
+const FAULT_DEFAULTS: Record<FaultKind, { duration: number; rate: number }> = {
+    drop: { duration: 5, rate: 50 },
+    heartbeat: { duration: 6, rate: 0 },
+    malformed: { duration: 5, rate: 20 },
+    disconnect: { duration: 4, rate: 0 },
+    diag: { duration: 0, rate: 0 },
+};
+
+const HAS_DURATION: FaultKind[] = ['drop', 'heartbeat', 'malformed', 'disconnect'];
+const HAS_RATE: FaultKind[] = ['drop', 'malformed'];
+
+function NumberField({ label, value, onChange, suffix }: {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    suffix: string;
+}) {
+    return (
+        <label className="flex flex-col gap-1 text-[10px] font-semibold text-slate-400 uppercase tracking-wider">
+            {label}
+            <div className="flex items-center gap-1">
+                <input
+                    type="number"
+                    min={0}
+                    value={value}
+                    onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+                    className="w-14 px-2 py-1 rounded-lg bg-slate-50 border border-slate-200 text-[11px] font-mono text-slate-600 outline-none focus:border-slate-400"
+                />
+                <span className="normal-case font-medium">{suffix}</span>
+            </div>
+        </label>
+    );
+}
+
+// Developer panel for stub mode: pick the simulated gait and inject link faults
+export function StubDevPanel() {
+    const { transport } = useConnection();
+    const [open, setOpen] = useState(false);
+    const [status, setStatus] = useState<ScenarioStatus>(() => stubScenarios.getStatus());
+    const [now, setNow] = useState(() => Date.now());
+    const [kind, setKind] = useState<FaultKind>('drop');
+    const [delay, setDelay] = useState(0);
+    const [duration, setDuration] = useState(FAULT_DEFAULTS.drop.duration);
+    const [rate, setRate] = useState(FAULT_DEFAULTS.drop.rate);
+    const [repeat, setRepeat] = useState(0);
+
+    useEffect(() => stubScenarios.onChange(setStatus), []);
+
+    // Countdowns for scheduled faults
+    useEffect(() => {
+        if (!open) return;
+        const id = setInterval(() => setNow(Date.now()), 500);
+        return () => clearInterval(id);
+    }, [open]);
+
+    if (!config.useStubs || transport === 'replay') return null;
+
+    const selectKind = (next: FaultKind) => {
+        setKind(next);
+        setDuration(FAULT_DEFAULTS[next].duration);
+        setRate(FAULT_DEFAULTS[next].rate);
+    };
+
+    const schedule = () => {
+        stubScenarios.schedule({
+            kind,
+            durationMs: duration * 1000,
+            rate: HAS_RATE.includes(kind) ? rate / 100 : undefined,
+            repeatEveryMs: repeat > 0 ? repeat * 1000 : undefined,
+        }, delay * 1000);
+    };
+
+    if (!open) {
+        return (
+            <button
+                onClick={() => setOpen(true)}
+                className="fixed bottom-24 right-4 z-50 w-10 h-10 rounded-full bg-slate-900 text-white flex items-center justify-center shadow-lg active:scale-95 transition-transform"
+                aria-label="Open simulator panel"
+            >
+                <Wrench className="w-4 h-4" />
+                {status.faults.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 w-3 h-3 rounded-full bg-amber-400 ring-2 ring-white" />
+                )}
+            </button>
+        );
+    }
+
+    return (
+        <div className="fixed bottom-24 right-4 z-50 w-[min(92vw,340px)] max-h-[70vh] overflow-y-auto animate-in slide-in-from-bottom-5 fade-in duration-300">
+            <div className="flex flex-col gap-4 p-4 rounded-2xl bg-white/95 backdrop-blur-md border border-slate-100 shadow-xl shadow-slate-200/60">
+                <div className="flex items-center justify-between">
+                    <div className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">Simulator</div>
+                    <button
+                        onClick={() => setOpen(false)}
+                        className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+                        aria-label="Close simulator panel"
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <div className="text-xs font-semibold text-slate-700">Gait</div>
+                    <div className="flex flex-wrap gap-1">
+                        {GAIT_PROFILES.map(profile => (
+                            <button
+                                key={profile}
+                                onClick={() => stubScenarios.setProfile(profile)}
+                                className={cn(
+                                    "px-2.5 py-1 rounded-full text-[11px] font-medium transition-colors",
+                                    status.profile === profile ? "bg-slate-900 text-white" : "bg-slate-50 text-slate-500 hover:bg-slate-100"
+                                )}
+                            >
+                                {GAIT_PROFILE_LABELS[profile]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <div className="text-xs font-semibold text-slate-700">Faults</div>
+                    <div className="flex flex-wrap gap-1">
+                        {FAULT_KINDS.map(k => (
+                            <button
+                                key={k}
+                                onClick={() => selectKind(k)}
+                                className={cn(
+                                    "px-2.5 py-1 rounded-full text-[11px] font-medium transition-colors",
+                                    kind === k ? "bg-slate-900 text-white" : "bg-slate-50 text-slate-500 hover:bg-slate-100"
+                                )}
+                            >
+                                {FAULT_LABELS[k]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <NumberField label="Start in" value={delay} onChange={setDelay} suffix="s" />
+                        {HAS_DURATION.includes(kind) && (
+                            <NumberField label={kind === 'disconnect' ? 'Out of range' : 'Duration'} value={duration} onChange={setDuration} suffix="s" />
+                        )}
+                        {HAS_RATE.includes(kind) && (
+                            <NumberField label="Frames" value={rate} onChange={v => setRate(Math.min(100, v))} suffix="%" />
+                        )}
+                        <NumberField label="Repeat every" value={repeat} onChange={setRepeat} suffix="s" />
+                    </div>
+                    <button
+                        onClick={schedule}
+                        className="self-start flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-slate-900 text-white text-[11px] font-semibold active:scale-95 transition-transform"
+                    >
+                        <Zap className="w-3 h-3" />
+                        {delay > 0 ? 'Schedule' : 'Inject now'}
+                    </button>
+                </div>
+
+                {status.faults.length > 0 && (
+                    <div className="flex flex-col gap-1.5">
+                        <div className="flex items-center justify-between">
+                            <div className="text-xs font-semibold text-slate-700">Scheduled</div>
+                            <button
+                                onClick={() => stubScenarios.clear()}
+                                className="text-[10px] font-semibold text-slate-400 hover:text-red-500 transition-colors"
+                            >
+                                Clear all
+                            </button>
+                        </div>
+                        {status.faults.map(fault => (
+                            <div key={fault.id} className="flex items-center gap-2 px-2.5 py-1.5 rounded-xl bg-slate-50">
+                                <span className={cn("w-1.5 h-1.5 rounded-full", fault.active ? "bg-amber-400 animate-pulse" : "bg-slate-300")} />
+                                <span className="flex-1 text-[11px] text-slate-600">{FAULT_LABELS[fault.kind]}</span>
+                                <span className="text-[10px] font-mono text-slate-400">
+                                    {fault.active
+                                        ? 'active'
+                                        : `in ${Math.max(0, Math.ceil((fault.startAt - now) / 1000))}s`}
+                                    {fault.repeatEveryMs ? ` · every ${fault.repeatEveryMs / 1000}s` : ''}
+                                </span>
+                                <button
+                                    onClick={() => stubScenarios.cancel(fault.id)}
+                                    className="p-0.5 rounded-full text-slate-300 hover:text-red-500 transition-colors"
+                                    aria-label="Cancel fault"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -2,14 +2,24 @@ import { useRef } from 'react'
 import { Canvas, useFrame } from '@react-three/fiber'
 import { OrbitControls, Environment, ContactShadows } from '@react-three/drei'
 import * as THREE from 'three'
+import type { Foot, FootPhase } from '@/services/gaitEvents'
 
 // Sensor indices: 0: RF, 1: LF, 2: RB, 3: LB
 
 interface WalkingModelProps {
   sensors: number[]; // Array of 4 values [RF, LF, RB, LB]
+  phases?: Record<Foot, FootPhase>; // from gait event detection; tilt follows the pressure otherwise
 }
 
-const Shoe = ({ side, sensors, position }: { side: 'left' | 'right', sensors: number[], position: [number, number, number] }) => {
+// Pitch per stance phase: heel down on landing, toe down on push-off
+const PHASE_TILT: Record<FootPhase, number> = {
+  swing: 0,
+  loading: -0.3,
+  flat: 0,
+  'push-off': 0.4,
+}
+
+const Shoe = ({ side, sensors, phase, position }: { side: Foot, sensors: number[], phase?: FootPhase, position: [number, number, number] }) => {
   const groupRef = useRef<THREE.Group>(null)
   
   // Indices for this foot
@@ -26,7 +36,9 @@ const Shoe = ({ side, sensors, position }: { side: 'left' | 'right', sensors: nu
   
   // Tilt Calculation (Pitch)
   let targetRotationX = 0;
-  if (totalPressure > 10) {
+  if (phase) {
+      targetRotationX = PHASE_TILT[phase];
+  } else if (totalPressure > 10) {
       if (backPressure > frontPressure + 10) {
           // Heel strike
           targetRotationX = -0.3; 
@@ -67,7 +79,7 @@ const Shoe = ({ side, sensors, position }: { side: 'left' | 'right', sensors: nu
 }
 
 
-export function WalkingModel({ sensors, camera = [2, 2, 4], fov = 45, modelPosition = [0, -0.5, 0] }: WalkingModelProps & { camera?: [number, number, number], fov?: number, modelPosition?: [number, number, number] }) {
+export function WalkingModel({ sensors, phases, camera = [2, 2, 4], fov = 45, modelPosition = [0, -0.5, 0] }: WalkingModelProps & { camera?: [number, number, number], fov?: number, modelPosition?: [number, number, number] }) {
   return (
     <div className="w-full h-full">
       <Canvas shadows camera={{ position: camera, fov: fov }}>
@@ -77,10 +89,10 @@ export function WalkingModel({ sensors, camera = [2, 2, 4], fov = 45, modelPosit
         
         <group position={modelPosition}>
             {/* Right Shoe */}
-            <Shoe side="right" sensors={sensors} position={[0.5, 0, 0]} />
+            <Shoe side="right" sensors={sensors} phase={phases?.right} position={[0.5, 0, 0]} />
             
             {/* Left Shoe */}
-            <Shoe side="left" sensors={sensors} position={[-0.5, 0, 0]} />
+            <Shoe side="left" sensors={sensors} phase={phases?.left} position={[-0.5, 0, 0]} />
 
             <ContactShadows position={[0, 0, 0]} opacity={0.4} scale={10} blur={2.5} far={1} />
         </group>
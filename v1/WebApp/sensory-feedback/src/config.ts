@@ -1,3 +1,12 @@
+export type TransportKind = 'ble' | 'serial' | 'relay' | 'replay';
+
+// Replay only makes sense once a recording is picked, so it is never a default
+const DEFAULT_TRANSPORTS: TransportKind[] = ['ble', 'serial', 'relay'];
+
 export const config = {
   useStubs: import.meta.env.VITE_USE_STUBS === 'true',
+  // Default link to the insoles; the Home page can switch it per browser
+  transport: (DEFAULT_TRANSPORTS.find(t => t === import.meta.env.VITE_TRANSPORT) ?? 'ble') as TransportKind,
+  // WebSocket relay (relay/server.ts); defaults to the host serving the app
+  relayUrl: import.meta.env.VITE_RELAY_URL || `ws://${location.hostname || 'localhost'}:8787`,
 };
@@ -1,57 +1,144 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { EspApi } from '../services/api';
+import type { DeviceStatus } from '../services/BleService';
+import type { DeviceSlot } from '../services/deviceSlots';
+import type { TransportKind } from '../config';
+import { replayTransport } from '../services/transport';
+import type { RecordingFrame } from '../services/recordingCsv';
+import type { FirmwareInfo } from '../services/firmwareInfo';
+import { getRememberedDevices, onRegistryChange, renameDevice, type RememberedDevice } from '../services/deviceRegistry';
+import {
+  connectionLifecycle, type ConnectionState, type ConnectionTransition,
+} from '../services/connectionLifecycle';
+import { startFreezeResponse } from '../services/freezeResponse';
+
+export interface SlotConnectionState {
+  slot: DeviceSlot;
+  state: ConnectionState;
+}
 
 interface ConnectionContextType {
-  isConnected: boolean;
-  isReconnecting: boolean;
-  connect: () => Promise<void>;
-  disconnect: () => void;
+  isConnected: boolean;      // at least one board connected (or reconnecting)
+  isReconnecting: boolean;   // at least one board reconnecting
+  devices: DeviceStatus[];
+  rememberedDevices: RememberedDevice[];
+  autoConnecting: boolean;   // silent reconnect to remembered insoles in progress
+  transport: TransportKind;
+  firmware: FirmwareInfo[];  // handshake result per connected board
+  connectionStates: SlotConnectionState[];   // lifecycle phase per board (see connectionLifecycle.ts)
+  lastFailure: ConnectionTransition | null;  // most recent connect/reconnect failure
+  // Transition history as JSON, for support
+  exportConnectionHistory: () => string;
+  // Whether every connected board's firmware accepts a command (e.g. "CALIBRATE")
+  supports: (command: string) => boolean;
+  setTransport: (kind: TransportKind) => void;
+  // Play a recording back as if it were a connected insole
+  startReplay: (frames: RecordingFrame[], name: string) => Promise<void>;
+  connect: (slot?: DeviceSlot) => Promise<void>;
+  disconnect: (slot?: DeviceSlot) => void;
+  renameDevice: (id: string, label: string) => void;
+  forgetDevice: (id: string) => Promise<void>;
 }
 
 const ConnectionContext = createContext<ConnectionContextType | undefined>(undefined);
 
 export function ConnectionProvider({ children }: { children: React.ReactNode }) {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [devices, setDevices] = useState<DeviceStatus[]>([]);
+  const [rememberedDevices, setRememberedDevices] = useState<RememberedDevice[]>(getRememberedDevices);
+  const [autoConnecting, setAutoConnecting] = useState(false);
+  const [transport, setTransportState] = useState<TransportKind>(EspApi.getTransport);
+  const [firmware, setFirmware] = useState<FirmwareInfo[]>(EspApi.getFirmwareInfo);
+  const [connectionStates, setConnectionStates] = useState<SlotConnectionState[]>(() => connectionLifecycle.getAll());
+  const [lastFailure, setLastFailure] = useState<ConnectionTransition | null>(() => connectionLifecycle.lastFailure());
+  // Live transport to go back to when a replay ends
+  const transportBeforeReplay = useRef<TransportKind>(transport);
 
   useEffect(() => {
     // Initial check
-    setIsConnected(EspApi.isConnected());
+    setDevices(EspApi.getDevices());
+
+    // Pick up insoles paired in an earlier session without the device chooser
+    if (!EspApi.isConnected() && getRememberedDevices().length > 0) {
+      setAutoConnecting(true);
+      EspApi.reconnectRemembered()
+        .catch(err => console.warn('Silent reconnect failed:', err))
+        .finally(() => {
+          setAutoConnecting(false);
+          setDevices(EspApi.getDevices());
+        });
+    }
 
     // Listen for manual/final disconnections (after auto-reconnect gives up)
     EspApi.onDisconnect(() => {
-      setIsConnected(false);
-      setIsReconnecting(false);
+      setDevices(EspApi.getDevices());
+    });
+
+    // Listen for auto-reconnect lifecycle; a reconnecting board still counts
+    // as connected — UI shows "reconnecting" overlay instead
+    EspApi.onReconnect(() => {
+      setDevices(EspApi.getDevices());
     });
 
-    // Listen for auto-reconnect lifecycle
-    EspApi.onReconnect((state) => {
-      if (state === 'reconnecting') {
-        setIsReconnecting(true);
-        // Don't set isConnected=false — UI shows "reconnecting" overlay instead
-      } else if (state === 'reconnected') {
-        setIsReconnecting(false);
-        setIsConnected(true);
-      } else if (state === 'failed') {
-        setIsReconnecting(false);
-        // disconnectCallbacks will fire separately → setIsConnected(false)
-      }
+    EspApi.onFirmwareInfo(setFirmware);
+
+    const unsubscribeLifecycle = connectionLifecycle.onTransition((transition) => {
+      setConnectionStates(connectionLifecycle.getAll());
+      if (transition.to.phase === 'failed') setLastFailure(transition);
     });
+    const unsubscribeRegistry = onRegistryChange(() => setRememberedDevices(getRememberedDevices()));
+    return () => {
+      unsubscribeLifecycle();
+      unsubscribeRegistry();
+    };
   }, []);
 
-  const connect = async () => {
-    await EspApi.connect();
-    setIsConnected(true);
+  const connect = async (slot?: DeviceSlot) => {
+    await EspApi.connect(slot);
+    setDevices(EspApi.getDevices());
+  };
+
+  const disconnect = (slot?: DeviceSlot) => {
+    EspApi.disconnect(slot);
+    if (transport === 'replay') setTransport(transportBeforeReplay.current);
+    setDevices(EspApi.getDevices());
   };
 
-  const disconnect = () => {
+  const setTransport = (kind: TransportKind) => {
+    EspApi.setTransport(kind);
+    setTransportState(kind);
+    setDevices(EspApi.getDevices());
+  };
+
+  const startReplay = async (frames: RecordingFrame[], name: string) => {
+    if (transport !== 'replay') transportBeforeReplay.current = transport;
     EspApi.disconnect();
-    setIsConnected(false);
-    setIsReconnecting(false);
+    replayTransport.load(frames, name);
+    setTransport('replay');
+    await connect();
+  };
+
+  const forgetDevice = async (id: string) => {
+    await EspApi.forgetDevice(id);
+    setDevices(EspApi.getDevices());
   };
 
+  const isConnected = devices.some(d => d.connected || d.reconnecting);
+  const isReconnecting = devices.some(d => d.reconnecting);
+  const supports = (command: string) => firmware.every(f => f.commands.includes(command));
+
+  // Freezing-of-gait cueing works on every page while an insole is connected
+  useEffect(() => {
+    if (!isConnected) return;
+    return startFreezeResponse();
+  }, [isConnected]);
+
   return (
-    <ConnectionContext.Provider value={{ isConnected, isReconnecting, connect, disconnect }}>
+    <ConnectionContext.Provider value={{
+      isConnected, isReconnecting, devices, rememberedDevices, autoConnecting, transport,
+      firmware, supports, connectionStates, lastFailure,
+      exportConnectionHistory: () => connectionLifecycle.exportHistory(),
+      connect, disconnect, renameDevice, forgetDevice, setTransport, startReplay,
+    }}>
       {children}
     </ConnectionContext.Provider>
   );
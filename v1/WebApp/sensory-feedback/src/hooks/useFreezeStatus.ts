@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { EspApi } from '@/services/api';
+import type { FreezeStatus } from '@/services/freezeDetector';
+
+// Live freezing-of-gait status; keeps the detector running while mounted
+export function useFreezeStatus(): FreezeStatus {
+  const [status, setStatus] = useState<FreezeStatus>(EspApi.getFreezeStatus);
+  useEffect(() => EspApi.onFreeze(setStatus), []);
+  return status;
+}
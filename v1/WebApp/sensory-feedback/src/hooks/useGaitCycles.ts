@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { EspApi } from '@/services/api';
+import type { GaitEvent } from '@/services/gaitEvents';
+import { gaitCycles, ROLLING_STRIDES, type GaitCycle } from '@/services/gaitMetrics';
+import { FrameRing } from '@/services/sensorStream';
+
+// Enough events for ROLLING_STRIDES complete strides of both feet (4 events per stride)
+const EVENT_HISTORY = (ROLLING_STRIDES + 2) * 2 * 4;
+
+// Recent live strides, for rolling metrics and symmetry; updated on every heel-strike
+export function useGaitCycles(): GaitCycle[] {
+  const [cycles, setCycles] = useState<GaitCycle[]>([]);
+
+  useEffect(() => {
+    const ring = new FrameRing<GaitEvent>(EVENT_HISTORY);
+    return EspApi.onGaitEvent((event) => {
+      ring.push(event);
+      if (event.type === 'heel-strike') setCycles(gaitCycles(ring.toArray()));
+    });
+  }, []);
+
+  return cycles;
+}
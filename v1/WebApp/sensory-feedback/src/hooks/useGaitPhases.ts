@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { EspApi } from '@/services/api';
+import type { Foot, FootPhase } from '@/services/gaitEvents';
+
+// Stance phase of each foot from live gait event detection
+export function useGaitPhases(): Record<Foot, FootPhase> {
+  const [phases, setPhases] = useState<Record<Foot, FootPhase>>(EspApi.getFootPhases);
+  useEffect(() => EspApi.onGaitEvent(() => setPhases(EspApi.getFootPhases())), []);
+  return phases;
+}
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { EspApi } from '@/services/api';
+import type { LinkStats } from '@/services/linkMonitor';
+
+// Link health per board, updated once a second while connected
+export function useLinkStats(): LinkStats[] {
+  const [stats, setStats] = useState<LinkStats[]>(EspApi.getLinkStats);
+  useEffect(() => EspApi.onLinkStats(setStats), []);
+  return stats;
+}
@@ -1,13 +1,22 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { saveRecording } from '@/services/blobService';
+import { EspApi } from '@/services/api';
+import { freezeCsvRows, pipelineCsvRows, RECORDING_CSV_HEADER, type RecordedFreeze } from '@/services/recordingCsv';
+import { getSignalPipeline, onSignalPipelineChange, type SignalPipelineConfig } from '@/services/signalPipeline';
+import type { SensorFrame } from '@/services/sensorStream';
 
 export function useRecording() {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
-  const recordedDataRef = useRef<{ time: number; values: number[] }[]>([]);
-  const frameCounterRef = useRef(0);
+  const recordedDataRef = useRef<{ time: number; values: number[]; unfiltered: number[] }[]>([]);
+  // Sample time of the first recorded frame; rows are timed on the insole's clock
+  const firstFrameTimeRef = useRef<number | null>(null);
   // Use ref for start time to avoid stale closure issues in setInterval
   const startTimeRef = useRef<number | null>(null);
+  // Freezing episodes while recording, on the insole's clock; end is null while ongoing
+  const freezesRef = useRef<{ start: number; end: number | null }[]>([]);
+  // Signal pipeline in effect, from the recorded frame it first applied to
+  const pipelinesRef = useRef<{ fromFrame: number; config: SignalPipelineConfig }[]>([]);
 
   // Manage recording timer — ref-based to avoid closure staleness
   useEffect(() => {
@@ -26,19 +35,33 @@ export function useRecording() {
     return () => clearInterval(interval);
   }, [isRecording]);
 
-  const captureFrame = useCallback((sensorData: number[]) => {
-      if (isRecording && startTimeRef.current != null) {
-            frameCounterRef.current = (frameCounterRef.current + 1) % 2;
+  // Log freezing-of-gait episodes alongside the frames
+  useEffect(() => {
+    if (!isRecording) return;
+    const ongoing = EspApi.getFreezeStatus();
+    if (ongoing.freezing && ongoing.episode) freezesRef.current.push({ start: ongoing.episode.start, end: null });
+    return EspApi.onFreeze((_status, transition) => {
+      if (transition?.type === 'start') freezesRef.current.push({ start: transition.episode.start, end: null });
+      const open = freezesRef.current[freezesRef.current.length - 1];
+      if (transition?.type === 'end' && open && open.end === null) open.end = transition.episode.end;
+    });
+  }, [isRecording]);
+
+  // Note the pipeline each stretch of the recording went through
+  useEffect(() => {
+    if (!isRecording) return;
+    return onSignalPipelineChange(config => pipelinesRef.current.push({ fromFrame: recordedDataRef.current.length, config }));
+  }, [isRecording]);
 
-            if (frameCounterRef.current === 0) {
-                 recordedDataRef.current.push({
-                    time: Date.now() - startTimeRef.current,
-                    values: sensorData
-                });
-            }
-        } else {
-             frameCounterRef.current = 0;
-        }
+  // Called once per sensor frame; every frame is kept while recording
+  const captureFrame = useCallback((frame: SensorFrame) => {
+      if (!isRecording || startTimeRef.current == null) return;
+      if (firstFrameTimeRef.current == null) firstFrameTimeRef.current = frame.deviceTime;
+      recordedDataRef.current.push({
+          time: Math.round(frame.deviceTime - firstFrameTimeRef.current),
+          values: frame.processed.map(v => Math.round(v * 10) / 10),
+          unfiltered: frame.calibrated.map(v => Math.round(v * 10) / 10),
+      });
   }, [isRecording]);
 
   const toggleRecording = useCallback(async () => {
@@ -50,11 +73,21 @@ export function useRecording() {
           try {
             // Generate CSV content
             // Sensor Order: 0:Right Front, 1:Left Front, 2:Right Back, 3:Left Back
-            const headers = "time_ms,right_front,left_front,right_back,left_back\n";
+            const headers = `${RECORDING_CSV_HEADER}\n`;
             const rows = recordedDataRef.current.map(d => 
-                `${d.time},${d.values.join(',')}`
+                `${d.time},${d.values.join(',')},${d.unfiltered.join(',')}`
             ).join('\n');
-            const csvContent = headers + rows;
+            const firstTime = firstFrameTimeRef.current ?? 0;
+            const lastTime = recordedDataRef.current[recordedDataRef.current.length - 1]?.time ?? 0;
+            const freezes: RecordedFreeze[] = freezesRef.current.map(f => ({
+                start: Math.max(0, f.start - firstTime),
+                end: f.end === null ? lastTime : Math.max(0, f.end - firstTime),
+            }));
+            const pipelines = pipelinesRef.current.map(p => ({
+                from: recordedDataRef.current[p.fromFrame]?.time ?? lastTime + 1,
+                config: p.config,
+            }));
+            const csvContent = [headers + rows, ...pipelineCsvRows(pipelines), ...freezeCsvRows(freezes)].join('\n');
 
             // Save to Vercel Blob cloud storage
             await saveRecording(recordingDuration, csvContent);
@@ -80,11 +113,16 @@ export function useRecording() {
           
           // Clear buffer
           recordedDataRef.current = [];
+          freezesRef.current = [];
+          pipelinesRef.current = [];
       } else {
           // START RECORDING
           startTimeRef.current = Date.now();
+          firstFrameTimeRef.current = null;
           setIsRecording(true);
           recordedDataRef.current = [];
+          freezesRef.current = [];
+          pipelinesRef.current = [{ fromFrame: 0, config: getSignalPipeline() }];
       }
   }, [isRecording, recordingDuration]);
 
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+import { EspApi } from '@/services/api';
+import { FrameRing, type SensorFrame } from '@/services/sensorStream';
+
+export interface SensorStreamOptions {
+  historySize?: number;                      // frames kept in history (default 60, 3s at 20Hz)
+  onFrame?: (frame: SensorFrame) => void;    // called once per frame, e.g. for recording
+}
+
+interface SensorStreamState {
+  latest: SensorFrame | null;
+  history: SensorFrame[];   // oldest first
+}
+
+// Subscribe to the sensor frame stream; re-renders once per frame
+export function useSensorStream({ historySize = 60, onFrame }: SensorStreamOptions = {}) {
+  const [state, setState] = useState<SensorStreamState>(() => ({
+    latest: EspApi.getLatestFrame(),
+    history: [],
+  }));
+
+  // Latest callback without re-subscribing on every render
+  const onFrameRef = useRef(onFrame);
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  }, [onFrame]);
+
+  useEffect(() => {
+    const ring = new FrameRing<SensorFrame>(historySize);
+    return EspApi.onSensorFrame((frame) => {
+      ring.push(frame);
+      onFrameRef.current?.(frame);
+      setState({ latest: frame, history: ring.toArray() });
+    });
+  }, [historySize]);
+
+  return state;
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Cpu, HardDrive, Timer, TrendingDown, WifiOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { HealthChart } from '@/components/HealthChart';
+import { useConnection } from '@/context/ConnectionContext';
+import { SLOT_LABELS, type DeviceSlot } from '@/services/deviceSlots';
+import { HISTORY_RANGES, diagHistory, type HistoryRange, type StoredDiagEvent } from '@/services/diagHistory';
+import {
+    HEALTH_POLL_MS, LEAK_KB_PER_HOUR, firmwareHealth, healthSeries, healthSessions, startHealthPolling,
+    type HealthSession,
+} from '@/services/deviceHealth';
+
+function formatDuration(ms: number): string {
+    const min = Math.round(ms / 60000);
+    if (min < 60) return `${min}m`;
+    return `${Math.floor(min / 60)}h ${min % 60}m`;
+}
+
+const formatTrend = (kbPerHour: number | null) =>
+    kbPerHour === null ? '–' : `${kbPerHour > 0 ? '+' : ''}${kbPerHour.toFixed(1)} KB/h`;
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            className={cn(
+                "px-3 py-1 rounded-full text-xs font-medium transition-colors",
+                active ? "bg-slate-800 text-white" : "bg-white text-slate-500 border border-slate-200 hover:bg-slate-50"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+function SessionCard({ session }: { session: HealthSession }) {
+    const stats: { icon: typeof Cpu; label: string; value: string; warn: boolean }[] = [
+        { icon: Cpu, label: 'Heap min', value: session.heapMinKb === null ? '–' : `${session.heapMinKb} KB`, warn: session.heapLow > 0 },
+        { icon: TrendingDown, label: 'Heap trend', value: formatTrend(session.heapTrendKbPerHour), warn: session.suspectedLeak },
+        {
+            icon: Timer, label: 'Loop stalls',
+            value: session.loopStalls === 0 ? '0' : `${session.loopStalls} (max ${session.longestStallMs} ms)`,
+            warn: session.loopStalls > 0,
+        },
+        { icon: HardDrive, label: 'SD slow / failed', value: `${session.sdSlow} / ${session.sdFailures}`, warn: session.sdFailures > 0 },
+        { icon: WifiOff, label: 'Disconnects', value: `${session.disconnects}`, warn: false },
+    ];
+
+    return (
+        <div className="rounded-2xl border border-slate-100 bg-white p-4 flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex flex-col">
+                    <span className="text-xs font-semibold text-slate-700">
+                        {session.approximate ? '≈ ' : ''}{new Date(session.bootAt).toLocaleString()}
+                    </span>
+                    <span className="text-[10px] text-slate-400">
+                        {SLOT_LABELS[session.slot]}
+                        {session.firmware && ` · v${session.firmware}`}
+                        {` · ${formatDuration(session.lastSeenAt - session.bootAt)} observed`}
+                    </span>
+                </div>
+                <span className={cn(
+                    "flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold",
+                    session.incidents > 0 ? "bg-amber-50 text-amber-600" : "bg-emerald-50 text-emerald-600"
+                )}>
+                    {session.incidents > 0 && <AlertTriangle className="w-3 h-3" />}
+                    {session.incidents === 0 ? 'Stable' : `${session.incidents} incident${session.incidents === 1 ? '' : 's'}`}
+                </span>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {stats.map(({ icon: Icon, label, value, warn }) => (
+                    <div key={label} className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-1 text-[11px] text-slate-400"><Icon className="w-3 h-3" />{label}</span>
+                        <span className={cn("text-[11px] font-medium tabular-nums", warn ? "text-amber-600" : "text-slate-600")}>{value}</span>
+                    </div>
+                ))}
+            </div>
+            {session.suspectedLeak && (
+                <span className="text-[10px] text-amber-600">Free heap kept falling during this boot — possible memory leak</span>
+            )}
+        </div>
+    );
+}
+
+// Heap, loop stalls and SD latency over time from the stored diagnostic log
+export function Health() {
+    const { isConnected } = useConnection();
+    const [range, setRange] = useState<HistoryRange>('day');
+    const [slot, setSlot] = useState<DeviceSlot | null>(null);
+    const [events, setEvents] = useState<StoredDiagEvent[]>([]);
+    const [loadedAt, setLoadedAt] = useState(() => Date.now());
+
+    // Keep the board logs flowing into the history while the page is open
+    useEffect(() => isConnected ? startHealthPolling() : undefined, [isConnected]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = () => {
+            const ms = HISTORY_RANGES.find(r => r.value === range)?.ms ?? null;
+            const now = Date.now();
+            diagHistory.query({ from: ms === null ? undefined : now - ms })
+                .then(result => {
+                    if (cancelled) return;
+                    setEvents(result);
+                    setLoadedAt(now);
+                })
+                .catch(error => console.error('[Health] Failed to load history:', error));
+        };
+        load();
+        const unsubscribe = diagHistory.onChange(load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [range]);
+
+    const slots = useMemo(() => [...new Set(events.map(e => e.slot))], [events]);
+    const visible = useMemo(() => events.filter(e => slot === null || e.slot === slot), [events, slot]);
+    const sessions = useMemo(() => healthSessions(visible), [visible]);
+    const builds = useMemo(() => firmwareHealth(sessions), [sessions]);
+
+    const rangeMs = HISTORY_RANGES.find(r => r.value === range)?.ms ?? null;
+    const from = rangeMs !== null ? loadedAt - rangeMs : (visible[0]?.wallTime ?? loadedAt - 24 * 60 * 60 * 1000);
+
+    return (
+        <div className="flex flex-col gap-4 w-full max-w-md mx-auto pt-8">
+            <div className="flex flex-col gap-1">
+                <h1 className="text-3xl font-bold text-slate-800 tracking-tight">Device Health</h1>
+                <p className="text-xs text-slate-400">
+                    {isConnected
+                        ? `Reading the insole's log every ${HEALTH_POLL_MS / 60000} min while this page is open`
+                        : 'Not connected — showing stored history'}
+                </p>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+                {HISTORY_RANGES.map(r => (
+                    <Chip key={r.value} active={range === r.value} onClick={() => setRange(r.value)}>{r.label}</Chip>
+                ))}
+                {slots.length > 1 && (
+                    <>
+                        <span className="w-px h-6 bg-slate-200 mx-1" />
+                        <Chip active={slot === null} onClick={() => setSlot(null)}>All boards</Chip>
+                        {slots.map(s => (
+                            <Chip key={s} active={slot === s} onClick={() => setSlot(s)}>{SLOT_LABELS[s]}</Chip>
+                        ))}
+                    </>
+                )}
+            </div>
+
+            <HealthChart metric="heap" points={healthSeries(visible, 'heap')} from={from} to={loadedAt} />
+            <HealthChart metric="loopStall" points={healthSeries(visible, 'loopStall')} from={from} to={loadedAt} />
+            <HealthChart metric="sdLatency" points={healthSeries(visible, 'sdLatency')} from={from} to={loadedAt} />
+
+            {/* Compare builds: a leak shows up as a steadily negative heap trend */}
+            {builds.length > 1 && (
+                <div className="rounded-2xl border border-slate-100 bg-white p-4 flex flex-col gap-2">
+                    <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">By firmware</span>
+                    <div className="grid grid-cols-4 gap-x-2 gap-y-1 text-[11px] tabular-nums">
+                        <span className="text-slate-400">Build</span>
+                        <span className="text-slate-400 text-right">Heap min</span>
+                        <span className="text-slate-400 text-right">Trend</span>
+                        <span className="text-slate-400 text-right">Incidents/h</span>
+                        {builds.map(build => (
+                            <div key={build.firmware} className="contents">
+                                <span className="font-medium text-slate-600 truncate" title={`${build.sessions} sessions, ${build.hours.toFixed(1)} h`}>
+                                    v{build.firmware}
+                                </span>
+                                <span className="text-right text-slate-600">{build.heapMinKb === null ? '–' : `${build.heapMinKb} KB`}</span>
+                                <span className={cn(
+                                    "text-right",
+                                    build.heapTrendKbPerHour !== null && build.heapTrendKbPerHour < LEAK_KB_PER_HOUR ? "text-amber-600" : "text-slate-600"
+                                )}>
+                                    {formatTrend(build.heapTrendKbPerHour)}
+                                </span>
+                                <span className="text-right text-slate-600">{build.incidentsPerHour === null ? '–' : build.incidentsPerHour.toFixed(1)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-col gap-2">
+                <span className="text-[10px] font-bold tracking-widest text-slate-400 uppercase">Sessions</span>
+                {sessions.length === 0 ? (
+                    <span className="text-xs text-slate-400">No diagnostic log stored for this period yet.</span>
+                ) : sessions.map(session => <SessionCard key={session.bootId} session={session} />)}
+            </div>
+        </div>
+    );
+}
@@ -1,10 +1,34 @@
 import { useState, useEffect, useRef } from 'react'
 import { EspApi } from '../services/api'
 import type { AudioMode, DiagnosticEvent } from '../services/api'
+import { reconcileDeviceState, type DesiredDeviceState, type ReconcileResult, type SyncField } from '../services/reconcile'
+import { getSensorCalibration } from '../services/calibration'
+import { SLOT_LABELS, type DeviceSlot } from '../services/deviceSlots'
 import { useConnection } from '@/context/ConnectionContext'
+import { RememberedDevices } from '@/components/RememberedDevices'
+import { ReconnectSettings } from '@/components/ReconnectSettings'
+import { DiagLogModal } from '@/components/DiagLogModal'
+import { DiagTimeline } from '@/components/DiagTimeline'
+import { LinkDetails } from '@/components/LinkQuality'
+import { useLinkStats } from '@/hooks/useLinkStats'
+import { TRANSPORT_LABELS, getRelayUrl, isTransportAvailable, setRelayUrl } from '../services/transport'
+import { PROTOCOL_VERSION } from '../services/firmwareInfo'
+import { commandErrorMessage } from '../services/CommandChannel'
+import { describeState, stateForError } from '../services/connectionLifecycle'
+import { shouldAutoOpen } from '../services/diagEvents'
+import type { TransportKind } from '../config'
 import { Switch } from '@/components/ui/switch'
 import { Slider } from '@/components/ui/slider'
-import { Power, Volume2, XCircle, CheckCircle2, Music, AudioWaveform, Footprints, Loader2, ClipboardList, X, AlertTriangle, Wifi, WifiOff, Activity, HardDrive, Heart, Timer, RotateCcw, Cpu, Zap } from 'lucide-react'
+import { Power, Volume2, XCircle, CheckCircle2, Music, AudioWaveform, Footprints, Loader2, ClipboardList, AlertTriangle, RotateCcw, Plus, RefreshCw, History } from 'lucide-react'
+
+const SYNC_FIELD_LABELS: Record<SyncField, string> = {
+  mode: 'mode',
+  power: 'power',
+  volume: 'volume',
+  sensorVolumes: 'sensor volumes',
+  sensitivity: 'sensitivity',
+  calibration: 'calibration',
+};
 
 interface Notification {
   message: string;
@@ -31,7 +55,11 @@ function saveState(key: string, value: unknown) {
 }
 
 export function Home() {
-  const { isConnected, isReconnecting, connect, disconnect } = useConnection()
+  const {
+    isConnected, isReconnecting, devices, rememberedDevices, autoConnecting, transport, firmware, supports,
+    connectionStates, lastFailure, exportConnectionHistory,
+    connect, disconnect, renameDevice, forgetDevice, setTransport,
+  } = useConnection()
   const [ledState, setLedState] = useState(() => loadState('ledState', true))
   const [volume, setVolume] = useState(() => [loadState('volume', 100)])
   const [audioMode, setAudioMode] = useState<AudioMode>(() => loadState('audioMode', 0) as AudioMode)
@@ -40,6 +68,13 @@ export function Home() {
   const [showDiagLog, setShowDiagLog] = useState(false)
   const [diagEvents, setDiagEvents] = useState<DiagnosticEvent[]>([])
   const [diagLoading, setDiagLoading] = useState(false)
+  const [battery, setBattery] = useState<number | null>(null)
+  const [relayUrl, setRelayUrlInput] = useState(getRelayUrl)
+  const [syncResult, setSyncResult] = useState<ReconcileResult | null>(null)
+  const [syncing, setSyncing] = useState(false)
+  const [showReconnectSettings, setShowReconnectSettings] = useState(false)
+  const [showDiagHistory, setShowDiagHistory] = useState(false)
+  const linkStats = useLinkStats()
   // Initialize refs with CURRENT value so re-mount while connected doesn't trigger sync
   const prevConnected = useRef(isConnected)
   const prevReconnecting = useRef(isReconnecting)
@@ -54,6 +89,23 @@ export function Home() {
   useEffect(() => { sensitivityRef.current = sensitivity; saveState('sensitivity', sensitivity[0]) }, [sensitivity])
   useEffect(() => { ledStateRef.current = ledState; saveState('ledState', ledState) }, [ledState])
 
+  // On (re-)mount while connected, show the device's actual configuration
+  // instead of whatever localStorage remembers. Only on mount — fresh
+  // connects are handled by syncStateToDevice
+  const connectedOnMount = useRef(isConnected)
+  useEffect(() => {
+    if (!connectedOnMount.current) return;
+    EspApi.getState()
+      .then(state => {
+        setAudioMode(state.mode);
+        setVolume([state.volume]);
+        setLedState(state.power);
+        if (state.sensitivity !== null) setSensitivity([state.sensitivity]);
+        setBattery(state.battery);
+      })
+      .catch(err => console.warn('Failed to read device state:', err));
+  }, []);
+
   useEffect(() => {
     if (notification) {
       const timer = setTimeout(() => setNotification(null), 3000);
@@ -87,45 +139,92 @@ export function Home() {
     setNotification({ message, type });
   }
 
+  // Closing the device chooser isn't worth a toast; real failures say why
+  const notifyConnectFailure = (error: unknown) => {
+    const state = stateForError(error)
+    if (state.phase === 'failed') showNotification(`Failed to connect: ${state.reason}`, 'error')
+  }
+
+  // Board still on its way up (or back), for the status line
+  const pendingState = connectionStates.find(({ state }) =>
+    state.phase === 'requesting' || state.phase === 'connecting' ||
+    state.phase === 'discovering' || state.phase === 'reconnecting' || state.phase === 'watching'
+  )?.state
+
+  const downloadConnectionHistory = () => {
+    const blob = new Blob([exportConnectionHistory()], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `connection-history-${new Date().toISOString()}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Read the device state back and resend only what differs (see reconcile.ts)
   const syncStateToDevice = async () => {
-    // Small delay to let BLE connection stabilize
-    await new Promise(resolve => setTimeout(resolve, 300));
     // Read from refs (not state) to avoid stale closure values
-    const mode = audioModeRef.current;
-    const vol = volumeRef.current[0];
-    const sens = sensitivityRef.current[0];
-    const power = ledStateRef.current;
-    console.log(`[SYNC] mode=${mode} vol=${vol} sens=${sens} power=${power}`);
+    const desired: DesiredDeviceState = {
+      mode: audioModeRef.current,
+      power: ledStateRef.current,
+      volume: volumeRef.current[0],
+      sensorVolumes: [0, 1, 2, 3].map(() => volumeRef.current[0]),
+      sensitivity: sensitivityRef.current[0],
+      calibration: getSensorCalibration(),
+    };
+    console.log(`[SYNC] mode=${desired.mode} vol=${desired.volume} sens=${desired.sensitivity} power=${desired.power}`);
+    setSyncResult(null);
+    setSyncing(true);
     try {
-      await EspApi.setMode(mode);
-      EspApi.setVolumeTotal(vol);
-      for (let i = 0; i < 4; i++) {
-        EspApi.setSensorVolume(i, vol);
+      const result = await reconcileDeviceState(desired);
+      setSyncResult(result);
+      if (result.status === 'out-of-sync') {
+        console.warn('[SYNC] Device still differs after retries:', result.mismatched);
       }
-      await EspApi.switchOn(power);
-      EspApi.setSensitivity(sens);
     } catch (error) {
       console.error('Failed to sync state:', error);
+      setSyncResult({ status: 'out-of-sync', mismatched: [], attempts: 0, error: (error as Error).message });
+    } finally {
+      setSyncing(false);
     }
   }
 
   const handleConnectionToggle = async (checked: boolean) => {
     if (checked) {
       try {
+        if (transport === 'relay') setRelayUrl(relayUrl)
         await connect()
         showNotification('Connected successfully', 'success')
       } catch (error) {
         console.error('Failed to connect:', error)
-        showNotification('Failed to connect', 'error')
+        notifyConnectFailure(error)
       }
     } else {
       disconnect()
+      setSyncResult(null)
       setLedState(true)
       setAudioMode(0)
       showNotification('Disconnected', 'success')
     }
   }
 
+  // With per-shoe boards, offer to pair the missing side
+  const missingSide: DeviceSlot | null = (() => {
+    const slots = devices.filter(d => d.connected || d.reconnecting).map(d => d.slot);
+    if (slots.includes('main') || slots.length !== 1) return null;
+    return slots[0] === 'left' ? 'right' : 'left';
+  })();
+
+  const handleConnectSide = async (slot: DeviceSlot) => {
+    try {
+      await connect(slot)
+      showNotification(`${SLOT_LABELS[slot]} connected`, 'success')
+    } catch (error) {
+      console.error('Failed to connect:', error)
+      notifyConnectFailure(error)
+    }
+  }
+
   const handlePowerClick = async () => {
     if (!isConnected) return;
     try {
@@ -134,43 +233,50 @@ export function Home() {
       setLedState(newState)
     } catch (error) {
       console.error('Failed to toggle LED:', error)
-      showNotification('Failed to toggle power', 'error')
+      showNotification(commandErrorMessage('Power', error) ?? 'Failed to toggle power', 'error')
     }
   }
 
+  // Settings are acknowledged by the insole; tell the user when one didn't stick
+  const reportCommandError = (setting: string) => (error: unknown) => {
+    console.error(`Failed to set ${setting}:`, error)
+    const message = commandErrorMessage(setting, error)
+    if (message) showNotification(message, 'error')
+  }
+
   const handleVolumeChange = (value: number[]) => {
     const newVol = value[0];
     setVolume(value);
     if (!isConnected) return;
-    EspApi.setVolumeTotal(newVol);
-    for(let i=0; i<4; i++) {
-      EspApi.setSensorVolume(i, newVol);
-    }
+    Promise.all([
+      EspApi.setVolumeTotal(newVol),
+      ...[0, 1, 2, 3].map(i => EspApi.setSensorVolume(i, newVol)),
+    ]).catch(reportCommandError('Volume'));
   }
 
   const handleModeChange = (mode: AudioMode) => {
     setAudioMode(mode);
     if (!isConnected) return;
-    EspApi.setMode(mode);
+    EspApi.setMode(mode).catch(reportCommandError('Mode'));
   }
 
   const handleSensitivityChange = (value: number[]) => {
     setSensitivity(value);
     if (!isConnected) return;
-    EspApi.setSensitivity(value[0]);
+    EspApi.setSensitivity(value[0]).catch(reportCommandError('Sensitivity'));
   }
 
   // Request diagnostic log from ESP32
   const handleRequestDiagLog = async (silent = false) => {
-    if (!isConnected) return;
+    if (!isConnected || !supports('GETLOG')) return;
     setDiagLoading(true);
     try {
       const events = await EspApi.requestDiagLog();
       setDiagEvents(events);
       if (!silent) {
         setShowDiagLog(true);
-      } else if (events.some(e => e.event === 'BLE_DISC' || e.event === 'HEAP_LOW' || e.event === 'LOOP_SLOW')) {
-        // Auto-show only if there are interesting events after reconnect
+      } else if (shouldAutoOpen(events)) {
+        // Auto-show only if the configured rules match (see diagEvents.ts)
         setShowDiagLog(true);
       }
     } catch (error) {
@@ -180,63 +286,6 @@ export function Home() {
     }
   }
 
-  // Format millis timestamp to readable relative time
-  const formatTimestamp = (ms: number): string => {
-    const sec = Math.floor(ms / 1000);
-    const min = Math.floor(sec / 60);
-    const s = sec % 60;
-    if (min > 0) return `${min}m ${s}s`;
-    return `${s}s`;
-  }
-
-  // Get icon and color for each event type
-  const getEventStyle = (event: string): { icon: React.ReactNode; color: string; bg: string } => {
-    switch (event) {
-      case 'BLE_DISC':
-        return { icon: <WifiOff className="w-3.5 h-3.5" />, color: 'text-red-600', bg: 'bg-red-50' };
-      case 'BLE_CONN':
-        return { icon: <Wifi className="w-3.5 h-3.5" />, color: 'text-emerald-600', bg: 'bg-emerald-50' };
-      case 'HEAP_LOW':
-        return { icon: <AlertTriangle className="w-3.5 h-3.5" />, color: 'text-amber-600', bg: 'bg-amber-50' };
-      case 'HEARTBEAT':
-        return { icon: <Heart className="w-3.5 h-3.5" />, color: 'text-rose-500', bg: 'bg-rose-50' };
-      case 'LOOP_SLOW':
-        return { icon: <Timer className="w-3.5 h-3.5" />, color: 'text-orange-600', bg: 'bg-orange-50' };
-      case 'SD_SLOW':
-        return { icon: <HardDrive className="w-3.5 h-3.5" />, color: 'text-orange-500', bg: 'bg-orange-50' };
-      case 'SD_REWIND':
-        return { icon: <RotateCcw className="w-3.5 h-3.5" />, color: 'text-slate-400', bg: 'bg-slate-50' };
-      case 'SD_FAIL':
-        return { icon: <HardDrive className="w-3.5 h-3.5" />, color: 'text-red-500', bg: 'bg-red-50' };
-      case 'MODE_CHG':
-        return { icon: <Music className="w-3.5 h-3.5" />, color: 'text-blue-500', bg: 'bg-blue-50' };
-      case 'BOOT':
-        return { icon: <Zap className="w-3.5 h-3.5" />, color: 'text-purple-500', bg: 'bg-purple-50' };
-      case 'HEAP_SNAP':
-        return { icon: <Cpu className="w-3.5 h-3.5" />, color: 'text-slate-400', bg: 'bg-slate-50' };
-      default:
-        return { icon: <Activity className="w-3.5 h-3.5" />, color: 'text-slate-500', bg: 'bg-slate-50' };
-    }
-  }
-
-  // Get human-readable description for event
-  const getEventDescription = (event: string, value: number): string => {
-    switch (event) {
-      case 'BLE_DISC': return 'BLE Disconnected';
-      case 'BLE_CONN': return 'BLE Connected';
-      case 'HEAP_LOW': return `Heap Low: ${value}KB free`;
-      case 'HEARTBEAT': return 'Heartbeat (loop stalled)';
-      case 'LOOP_SLOW': return `Loop stalled: ${value}ms gap`;
-      case 'SD_SLOW': return `SD read slow: ${value}ms`;
-      case 'SD_REWIND': return 'Song restarted';
-      case 'SD_FAIL': return 'SD read failed (0 bytes)';
-      case 'MODE_CHG': return value === 1 ? 'Mode → Song' : 'Mode → Accordion';
-      case 'BOOT': return `Boot (mode: ${value === 1 ? 'Song' : 'Accordion'})`;
-      case 'HEAP_SNAP': return `Heap: ${value}KB free`;
-      default: return `${event} (${value})`;
-    }
-  }
-
   return (
     <div className="flex flex-col items-center justify-between min-h-[calc(100vh-8rem)] relative bg-background font-roboto">
       {/* Notification Area */}
@@ -258,7 +307,9 @@ export function Home() {
         <div className="fixed inset-0 z-40 flex items-center justify-center bg-white/70 backdrop-blur-sm">
           <div className="flex flex-col items-center gap-3 animate-in fade-in duration-300">
             <Loader2 className="w-8 h-8 text-slate-500 animate-spin" />
-            <span className="text-sm font-medium text-slate-500">Reconnecting...</span>
+            <span className="text-sm font-medium text-slate-500">
+              {pendingState?.phase === 'reconnecting' ? `${describeState(pendingState)}...` : 'Reconnecting...'}
+            </span>
           </div>
         </div>
       )}
@@ -267,160 +318,291 @@ export function Home() {
       <div className="flex-1 w-full max-w-sm flex flex-col items-center justify-center gap-10 py-8">
         {isConnected && (
             <>
-              {/* Buttons Row */}
-              <div className="flex items-center justify-center gap-8 animate-in fade-in zoom-in-95 duration-700 ease-out">
-                {/* Power Button */}
-                <button
-                  onClick={handlePowerClick}
-                  className={`w-28 h-28 rounded-full flex items-center justify-center transition-all duration-300 active:scale-95 border-[6px] ${
-                    ledState
-                      ? 'bg-slate-800 border-slate-800 text-white shadow-2xl shadow-slate-300'
-                      : 'bg-transparent border-slate-100 text-slate-300 hover:border-slate-200 hover:text-slate-400'
-                  }`}
-                >
-                  <Power className="w-12 h-12" strokeWidth={1.5} />
-                </button>
-              </div>
-
-              {/* Mode Selector */}
-              <div className="w-full px-2 animate-in slide-in-from-bottom-4 duration-700 delay-75 fill-mode-both">
-                <div className="flex bg-slate-100 rounded-2xl p-1">
+              {/* Out-of-sync warning: device did not accept the app's settings */}
+              {syncResult?.status === 'out-of-sync' && (
+                <div className="w-full flex items-center gap-3 px-4 py-3 rounded-2xl bg-amber-50 border border-amber-100 text-amber-700 animate-in fade-in duration-300">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-semibold">Device out of sync</div>
+                    <div className="text-[10px] text-amber-600/80 truncate">
+                      {syncResult.mismatched.length > 0
+                        ? `Not applied: ${syncResult.mismatched.map(f => SYNC_FIELD_LABELS[f]).join(', ')}`
+                        : syncResult.error || 'Could not verify device settings'}
+                    </div>
+                  </div>
                   <button
-                    onClick={() => handleModeChange(0)}
-                    className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium transition-all duration-200 ${
-                      audioMode === 0
-                        ? 'bg-white text-slate-800 shadow-sm'
-                        : 'text-slate-400 hover:text-slate-500'
-                    }`}
+                    onClick={syncStateToDevice}
+                    disabled={syncing}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white text-[10px] font-semibold text-amber-700 border border-amber-200 hover:bg-amber-100 transition-colors"
                   >
-                    <AudioWaveform className="w-4 h-4" />
-                    Accordion
+                    {syncing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                    Retry
                   </button>
+                </div>
+              )}
+
+              {/* Board speaks a protocol version this app doesn't know */}
+              {firmware.some(f => !f.compatible) && (
+                <div className="w-full flex items-center gap-3 px-4 py-3 rounded-2xl bg-red-50 border border-red-100 text-red-700 animate-in fade-in duration-300">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-semibold">Incompatible firmware</div>
+                    <div className="text-[10px] text-red-600/80">
+                      {firmware.filter(f => !f.compatible).map(f => `${SLOT_LABELS[f.slot]}: protocol v${f.protocol}`).join(', ')}
+                      {` — this app supports up to v${PROTOCOL_VERSION}. Update the app or reflash the insole.`}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {firmware.length > 0 && (
+                <span className="text-[10px] font-medium text-slate-300 tabular-nums">
+                  Firmware {[...new Set(firmware.map(f => f.firmware ?? 'legacy'))].join(' / ')}
+                </span>
+              )}
+
+              {battery !== null && (
+                <span className="text-[10px] font-medium text-slate-400 tabular-nums">Battery {battery}%</span>
+              )}
+
+              {/* Frame rate, gaps, stalls and latency (see linkMonitor.ts) */}
+              <LinkDetails stats={linkStats} />
+
+              {/* Per-board status: only interesting with separate left/right insoles */}
+              {(devices.length > 1 || missingSide) && (
+                <div className="flex flex-wrap items-center justify-center gap-2">
+                  {devices.map(d => (
+                    <span
+                      key={d.slot}
+                      className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-slate-50 border border-slate-100 text-[10px] font-medium text-slate-500"
+                    >
+                      <span className={`w-1.5 h-1.5 rounded-full ${
+                        d.connected ? 'bg-emerald-400' : d.reconnecting ? 'bg-amber-400 animate-pulse' : 'bg-slate-300'
+                      }`} />
+                      {SLOT_LABELS[d.slot]}
+                    </span>
+                  ))}
+                  {missingSide && (
+                    <button
+                      onClick={() => handleConnectSide(missingSide)}
+                      className="flex items-center gap-1 px-3 py-1 rounded-full text-[10px] font-semibold text-slate-500 border border-dashed border-slate-200 hover:bg-slate-50 transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {SLOT_LABELS[missingSide]}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Buttons Row */}
+              {supports('POWER') && (
+                <div className="flex items-center justify-center gap-8 animate-in fade-in zoom-in-95 duration-700 ease-out">
+                  {/* Power Button */}
                   <button
-                    onClick={() => handleModeChange(1)}
-                    className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium transition-all duration-200 ${
-                      audioMode === 1
-                        ? 'bg-white text-slate-800 shadow-sm'
-                        : 'text-slate-400 hover:text-slate-500'
+                    onClick={handlePowerClick}
+                    className={`w-28 h-28 rounded-full flex items-center justify-center transition-all duration-300 active:scale-95 border-[6px] ${
+                      ledState
+                        ? 'bg-slate-800 border-slate-800 text-white shadow-2xl shadow-slate-300'
+                        : 'bg-transparent border-slate-100 text-slate-300 hover:border-slate-200 hover:text-slate-400'
                     }`}
                   >
-                    <Music className="w-4 h-4" />
-                    Song
+                    <Power className="w-12 h-12" strokeWidth={1.5} />
                   </button>
                 </div>
-              </div>
+              )}
 
-              {/* Volume Slider Card */}
-              <div className="w-full px-6 py-5 bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-100/60 flex items-center gap-4 animate-in slide-in-from-bottom-4 duration-700 delay-100 fill-mode-both">
-                <Volume2 className="w-5 h-5 text-slate-400" />
-                <Slider
-                  className="flex-1"
-                  value={volume}
-                  max={100}
-                  step={1}
-                  onValueChange={handleVolumeChange}
-                />
-                <span className="text-sm font-medium text-slate-400 w-8 text-right tabular-nums">{volume[0]}</span>
-              </div>
+              {/* Mode Selector */}
+              {supports('MODE') && (
+                <div className="w-full px-2 animate-in slide-in-from-bottom-4 duration-700 delay-75 fill-mode-both">
+                  <div className="flex bg-slate-100 rounded-2xl p-1">
+                    <button
+                      onClick={() => handleModeChange(0)}
+                      className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium transition-all duration-200 ${
+                        audioMode === 0
+                          ? 'bg-white text-slate-800 shadow-sm'
+                          : 'text-slate-400 hover:text-slate-500'
+                      }`}
+                    >
+                      <AudioWaveform className="w-4 h-4" />
+                      Accordion
+                    </button>
+                    <button
+                      onClick={() => handleModeChange(1)}
+                      className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium transition-all duration-200 ${
+                        audioMode === 1
+                          ? 'bg-white text-slate-800 shadow-sm'
+                          : 'text-slate-400 hover:text-slate-500'
+                      }`}
+                    >
+                      <Music className="w-4 h-4" />
+                      Song
+                    </button>
+                  </div>
+                </div>
+              )}
 
-              {/* Sensitivity Slider Card */}
-              <div className="w-full px-6 py-5 bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-100/60 flex flex-col gap-3 animate-in slide-in-from-bottom-4 duration-700 delay-150 fill-mode-both">
-                <div className="flex items-center gap-4">
-                  <Footprints className="w-5 h-5 text-slate-400" />
+              {/* Volume Slider Card */}
+              {supports('VOLUME_TOTAL') && (
+                <div className="w-full px-6 py-5 bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-100/60 flex items-center gap-4 animate-in slide-in-from-bottom-4 duration-700 delay-100 fill-mode-both">
+                  <Volume2 className="w-5 h-5 text-slate-400" />
                   <Slider
                     className="flex-1"
-                    value={sensitivity}
+                    value={volume}
                     max={100}
                     step={1}
-                    onValueChange={handleSensitivityChange}
+                    onValueChange={handleVolumeChange}
                   />
+                  <span className="text-sm font-medium text-slate-400 w-8 text-right tabular-nums">{volume[0]}</span>
                 </div>
-                <div className="flex justify-between text-[10px] font-medium text-slate-300 px-1">
-                  <span>Back</span>
-                  <span>Front</span>
+              )}
+
+              {/* Sensitivity Slider Card */}
+              {supports('SENSITIVITY') && (
+                <div className="w-full px-6 py-5 bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-100/60 flex flex-col gap-3 animate-in slide-in-from-bottom-4 duration-700 delay-150 fill-mode-both">
+                  <div className="flex items-center gap-4">
+                    <Footprints className="w-5 h-5 text-slate-400" />
+                    <Slider
+                      className="flex-1"
+                      value={sensitivity}
+                      max={100}
+                      step={1}
+                      onValueChange={handleSensitivityChange}
+                    />
+                  </div>
+                  <div className="flex justify-between text-[10px] font-medium text-slate-300 px-1">
+                    <span>Back</span>
+                    <span>Front</span>
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Diagnostic Log Button */}
-              <button
-                onClick={() => handleRequestDiagLog(false)}
-                disabled={diagLoading}
-                className="flex items-center gap-2 px-4 py-2 rounded-full text-xs font-medium text-slate-400 hover:text-slate-600 hover:bg-slate-50 transition-all duration-200 animate-in fade-in duration-700 delay-200 fill-mode-both"
-              >
-                {diagLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ClipboardList className="w-3.5 h-3.5" />}
-                Diagnostic Log
-              </button>
+              {supports('GETLOG') && (
+                <button
+                  onClick={() => handleRequestDiagLog(false)}
+                  disabled={diagLoading}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full text-xs font-medium text-slate-400 hover:text-slate-600 hover:bg-slate-50 transition-all duration-200 animate-in fade-in duration-700 delay-200 fill-mode-both"
+                >
+                  {diagLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ClipboardList className="w-3.5 h-3.5" />}
+                  Diagnostic Log
+                </button>
+              )}
             </>
         )}
+
+        {/* Paired insoles: silent reconnect target list, rename/forget */}
+        {!isConnected && (
+          <>
+            {autoConnecting && (
+              <div className="flex items-center gap-2 text-xs font-medium text-slate-400">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Looking for your insoles...
+              </div>
+            )}
+            <RememberedDevices
+              devices={rememberedDevices}
+              onRename={renameDevice}
+              onForget={(id) => forgetDevice(id).catch(err => console.warn('Failed to forget device:', err))}
+            />
+          </>
+        )}
       </div>
 
       {/* Bottom Section: Connection Toggle - Anchored Bottom */}
       <div className="flex-shrink-0 flex flex-col items-center gap-4 pb-2">
+          {/* Transport selector: only while disconnected */}
+          {!isConnected && (
+            <div className="flex bg-slate-100 rounded-full p-0.5">
+              {(Object.keys(TRANSPORT_LABELS) as TransportKind[]).filter(kind => kind !== 'replay').map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setTransport(kind)}
+                  disabled={!isTransportAvailable(kind)}
+                  className={`px-3 py-1 rounded-full text-[10px] font-semibold transition-all duration-200 disabled:opacity-40 ${
+                    transport === kind
+                      ? 'bg-white text-slate-700 shadow-sm'
+                      : 'text-slate-400 hover:text-slate-500'
+                  }`}
+                >
+                  {TRANSPORT_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+          )}
+          {!isConnected && transport === 'relay' && (
+            <input
+              value={relayUrl}
+              onChange={(e) => setRelayUrlInput(e.target.value)}
+              onBlur={() => setRelayUrl(relayUrl)}
+              placeholder="ws://bench-pc:8787"
+              className="w-56 px-3 py-1.5 rounded-full bg-slate-50 border border-slate-200 text-center text-[11px] font-mono text-slate-600 outline-none focus:border-slate-400"
+            />
+          )}
           <Switch
             checked={isConnected}
             onCheckedChange={handleConnectionToggle}
             className="scale-125 data-[state=checked]:bg-slate-900 border-2 border-transparent data-[state=unchecked]:border-slate-300 data-[state=unchecked]:bg-slate-300"
           />
-          <span className={`text-[10px] font-bold tracking-widest text-slate-500 uppercase transition-opacity duration-300 ${isConnected ? 'opacity-0' : 'opacity-100'}`}>
-              Tap to Connect
+          <span className={`flex items-center gap-1.5 text-[10px] font-bold tracking-widest text-slate-500 uppercase transition-opacity duration-300 ${isConnected ? 'opacity-0' : 'opacity-100'}`}>
+              {pendingState && !isConnected && <Loader2 className="w-3 h-3 animate-spin" />}
+              {pendingState && !isConnected ? `${describeState(pendingState)}...` : 'Tap to Connect'}
           </span>
-      </div>
-
-      {/* Diagnostic Log Modal */}
-      {showDiagLog && (
-        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 backdrop-blur-sm" onClick={() => setShowDiagLog(false)}>
-          <div
-            className="w-full max-w-md bg-white rounded-t-3xl shadow-2xl max-h-[75vh] flex flex-col animate-in slide-in-from-bottom duration-300"
-            onClick={(e) => e.stopPropagation()}
-          >
-            {/* Modal Header */}
-            <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-slate-100">
-              <div className="flex items-center gap-2">
-                <ClipboardList className="w-4 h-4 text-slate-500" />
-                <span className="text-sm font-semibold text-slate-700">Diagnostic Log</span>
-                <span className="text-[10px] font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full">{diagEvents.length} events</span>
-              </div>
-              <button onClick={() => setShowDiagLog(false)} className="p-1 rounded-full hover:bg-slate-100 transition-colors">
-                <X className="w-4 h-4 text-slate-400" />
-              </button>
-            </div>
-
-            {/* Event List */}
-            <div className="flex-1 overflow-y-auto px-4 py-3 space-y-1.5">
-              {diagEvents.length === 0 ? (
-                <div className="flex flex-col items-center justify-center py-10 text-slate-300">
-                  <Activity className="w-8 h-8 mb-2" />
-                  <span className="text-sm font-medium">No events recorded</span>
-                </div>
-              ) : (
-                diagEvents.map((evt, i) => {
-                  const style = getEventStyle(evt.event);
-                  return (
-                    <div key={i} className={`flex items-center gap-3 px-3 py-2 rounded-xl ${style.bg}`}>
-                      <div className={`flex-shrink-0 ${style.color}`}>{style.icon}</div>
-                      <div className="flex-1 min-w-0">
-                        <span className={`text-xs font-medium ${style.color}`}>{getEventDescription(evt.event, evt.value)}</span>
-                      </div>
-                      <span className="text-[10px] font-mono text-slate-400 flex-shrink-0">{formatTimestamp(evt.timestamp)}</span>
-                    </div>
-                  );
-                })
-              )}
-            </div>
-
-            {/* Refresh Button */}
-            <div className="px-6 py-3 border-t border-slate-100">
+          {/* Passive reconnect: the insole is picked up again once it is back in range */}
+          {!isConnected && pendingState?.phase === 'watching' && (
+            <button
+              onClick={() => disconnect()}
+              className="text-[10px] font-semibold text-slate-400 hover:text-slate-600 transition-colors"
+            >
+              Stop waiting
+            </button>
+          )}
+          {/* Why the last attempt failed, with the transition history for support */}
+          {!isConnected && !pendingState && lastFailure?.to.phase === 'failed' && (
+            <div className="flex flex-col items-center gap-1 max-w-[18rem] text-center">
+              <span className="text-[10px] text-red-500/80">
+                {devices.length > 1 || lastFailure.slot !== 'main' ? `${SLOT_LABELS[lastFailure.slot]}: ` : ''}
+                {lastFailure.to.reason}
+                {` · ${new Date(lastFailure.at).toLocaleTimeString()}`}
+              </span>
               <button
-                onClick={() => handleRequestDiagLog(false)}
-                disabled={diagLoading}
-                className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-medium transition-colors"
+                onClick={downloadConnectionHistory}
+                className="text-[10px] font-semibold text-slate-400 hover:text-slate-600 underline-offset-2 hover:underline transition-colors"
               >
-                {diagLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
-                Refresh
+                Export connection log
               </button>
             </div>
+          )}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowReconnectSettings(true)}
+              className="flex items-center gap-1 text-[10px] font-medium text-slate-300 hover:text-slate-500 transition-colors"
+            >
+              <RefreshCw className="w-3 h-3" />
+              Reconnect settings
+            </button>
+            {/* Stored board logs stay available while disconnected */}
+            <button
+              onClick={() => setShowDiagHistory(true)}
+              className="flex items-center gap-1 text-[10px] font-medium text-slate-300 hover:text-slate-500 transition-colors"
+            >
+              <History className="w-3 h-3" />
+              Diagnostic history
+            </button>
           </div>
-        </div>
+      </div>
+
+      {showReconnectSettings && <ReconnectSettings onClose={() => setShowReconnectSettings(false)} />}
+      {showDiagHistory && <DiagTimeline onClose={() => setShowDiagHistory(false)} />}
+
+      {/* Diagnostic Log Modal */}
+      {showDiagLog && (
+        <DiagLogModal
+          events={diagEvents}
+          loading={diagLoading}
+          onRefresh={() => handleRequestDiagLog(false)}
+          onShowHistory={() => { setShowDiagLog(false); setShowDiagHistory(true) }}
+          onClose={() => setShowDiagLog(false)}
+        />
       )}
     </div>
   )
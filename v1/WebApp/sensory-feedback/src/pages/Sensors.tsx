@@ -1,11 +1,25 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useConnection } from '@/context/ConnectionContext'
 import { EspApi } from '../services/api'
+import { commandErrorMessage } from '../services/CommandChannel'
 import { SensorCard } from '@/components/SensorCard'
 import { WalkingModel } from '@/components/WalkingModel'
 import { useRecording } from '@/hooks/useRecording'
+import { useSensorStream } from '@/hooks/useSensorStream'
+import { useGaitPhases } from '@/hooks/useGaitPhases'
+import { useGaitCycles } from '@/hooks/useGaitCycles'
+import { GaitMetricsPanel } from '@/components/GaitMetricsPanel'
+import { FootLoadSummary, SymmetryPanel } from '@/components/GaitSymmetry'
+import { ROLLING_STRIDES, summarizeGait } from '../services/gaitMetrics'
+import { gaitSymmetry } from '../services/gaitSymmetry'
+import { useFreezeStatus } from '@/hooks/useFreezeStatus'
+import { FreezeAlert } from '@/components/FreezeAlert'
+import { FreezeSettings } from '@/components/FreezeSettings'
+import { SignalSettings } from '@/components/SignalSettings'
+import { CalibrationWizard } from '@/components/CalibrationWizard'
 import { RecordingControls } from '@/components/RecordingControls'
+import { SlidersHorizontal, XCircle } from 'lucide-react'
 
 // Define the 4 sensors
 const SENSORS_CONFIG = [
@@ -15,10 +29,10 @@ const SENSORS_CONFIG = [
   { id: 3, label: "Left Back", color: "#2563eb" },   // Blue-600
 ]
 
-const FPS = 30;
+const HISTORY_SIZE = 60;  // 3s at 20Hz
 
 export function Sensors() {
-  const { isConnected } = useConnection()
+  const { isConnected, supports } = useConnection()
   const navigate = useNavigate()
 
   useEffect(() => {
@@ -29,6 +43,35 @@ export function Sensors() {
 
   const [thresholds, setThresholds] = useState<number[]>([50, 50, 50, 50])
   const [volumes, setVolumes] = useState<number[]>([80, 80, 80, 80])
+  const [commandError, setCommandError] = useState<string | null>(null)
+  const [showFreezeSettings, setShowFreezeSettings] = useState(false)
+  const [showSignalSettings, setShowSignalSettings] = useState(false)
+  const [showCalibration, setShowCalibration] = useState(false)
+
+  useEffect(() => {
+    if (!commandError) return;
+    const timer = setTimeout(() => setCommandError(null), 3000);
+    return () => clearTimeout(timer);
+  }, [commandError])
+
+  // Settings are acknowledged by the insole; tell the user when one didn't stick
+  const reportCommandError = (setting: string) => (error: unknown) => {
+    console.error(`Failed to set ${setting}:`, error)
+    const message = commandErrorMessage(setting, error)
+    if (message) setCommandError(message)
+  }
+
+  // Show what the insole is actually applying, not just local defaults
+  useEffect(() => {
+    if (!isConnected) return;
+    EspApi.getState()
+      .then(state => {
+        // NaN = that shoe's board isn't connected; keep the local value
+        setThresholds(prev => state.thresholds.map((v, i) => Number.isNaN(v) ? prev[i] : v));
+        setVolumes(prev => state.sensorVolumes.map((v, i) => Number.isNaN(v) ? prev[i] : v));
+      })
+      .catch(err => console.warn('Failed to read device state:', err));
+  }, [isConnected])
   
   // Recording Hook
   const { 
@@ -38,16 +81,20 @@ export function Sensors() {
     captureFrame 
   } = useRecording();
 
-  const [history, setHistory] = useState<number[][]>(
-    SENSORS_CONFIG.map(() =>  new Array(60).fill(0))
-  )
-  
-  const historyRef = useRef<number[][]>(
-    SENSORS_CONFIG.map(() =>  new Array(60).fill(0))
-  );
-  
-  // Use the latest value for real-time feedback, not the middle of the history buffer
-  const currentSensors = history.map(h => h[h.length - 1] || 0);
+  // Every frame from the insole, exactly once (see useSensorStream)
+  const { latest, history } = useSensorStream({ historySize: HISTORY_SIZE, onFrame: captureFrame })
+
+  // Per-sensor chart data, zero-padded until the history fills up
+  const padding = new Array(HISTORY_SIZE - history.length).fill(0)
+  const chartData = SENSORS_CONFIG.map(({ id }) => [...padding, ...history.map(f => f.processed[id])])
+
+  // Use the latest value for real-time feedback
+  const currentSensors = latest ? latest.processed : [0, 0, 0, 0];
+  const gaitPhases = useGaitPhases();
+  const gaitCycles = useGaitCycles();
+  const gaitMetrics = useMemo(() => summarizeGait(gaitCycles, ROLLING_STRIDES), [gaitCycles]);
+  const symmetry = useMemo(() => gaitSymmetry(gaitCycles, ROLLING_STRIDES), [gaitCycles]);
+  const freeze = useFreezeStatus();
 
   // Lock body scroll
   useEffect(() => {
@@ -57,92 +104,83 @@ export function Sensors() {
     };
   }, []);
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-        const sensorsData = EspApi.getSensorsData();
-        
-        // Prepare current frame data
-        const currentFrameValues: number[] = [];
-
-        const nextHistory = historyRef.current.map((sensorHistory, index) => {
-               const apiSensor = sensorsData.find(s => s.id === index);
-               
-               let newValue = 0;
-               if (apiSensor && apiSensor.data.length > 0) {
-                   newValue = apiSensor.data[apiSensor.data.length - 1].amplitude;
-               }
-               
-               currentFrameValues.push(Math.round(newValue * 10) / 10);
-
-               return [...sensorHistory.slice(1), newValue];
-        });
-        
-        historyRef.current = nextHistory;
-
-        // Capture data if recording
-        captureFrame(currentFrameValues);
-
-        setHistory(nextHistory);
-
-    }, 1000 / FPS); 
-
-    return () => clearInterval(interval);
-  }, [captureFrame]);
-
 
   const handleThresholdChange = (index: number, val: number) => {
       const newThresholds = [...thresholds];
       newThresholds[index] = val;
       setThresholds(newThresholds);
-      EspApi.setSensorsThreshold(newThresholds);
+      EspApi.setSensorsThreshold(newThresholds).catch(reportCommandError('Threshold'));
   };
 
   const handleVolumeChange = (index: number, val: number) => {
        const newVolumes = [...volumes];
        newVolumes[index] = val;
        setVolumes(newVolumes);
-       EspApi.setSensorVolume(index, val); 
+       EspApi.setSensorVolume(index, val).catch(reportCommandError('Volume'));
   };
 
   return (
     <div className="relative flex flex-col w-full h-[100dvh] bg-slate-50 text-slate-900 overflow-hidden">
       
+      {/* Command failure toast */}
+      <div className={`fixed top-8 left-1/2 -translate-x-1/2 z-50 transition-all duration-300 ease-out ${commandError ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4 pointer-events-none'}`}>
+        {commandError && (
+          <div className="flex items-center gap-2 px-4 py-2.5 rounded-full shadow-lg backdrop-blur-md border bg-red-50/90 border-red-200 text-red-700">
+            <XCircle className="w-4 h-4"/>
+            <span className="font-medium text-sm">{commandError}</span>
+          </div>
+        )}
+      </div>
+
       {/* Background Decor */}
       <div className="absolute top-0 left-0 w-full h-[50vh] bg-gradient-to-b from-slate-200/50 to-transparent -z-10" />
       
       {/* Header Area with Walking Model */}
       <div className="relative pt-0 pb-1 px-4 flex-none max-w-sm mx-auto w-full">
           <div className="relative overflow-hidden h-[25vh] min-h-[160px] flex items-center justify-center -mb-6">
-             <WalkingModel sensors={currentSensors} camera={[1.4, 1.0, 2.0]} />
+             <WalkingModel sensors={currentSensors} phases={gaitPhases} camera={[1.4, 1.0, 2.0]} />
           </div>
           <div className="relative z-10 w-full text-center pb-3 flex flex-col items-center gap-2">
             <span className="text-[9px] uppercase tracking-[0.2em] text-slate-400 font-semibold bg-white/50 px-2 py-0.5 rounded-full backdrop-blur-sm border border-white/40">Real-time Feedback</span>
-            <button
-                onClick={() => {
-                    EspApi.calibrateSensors();
-                    console.log("Calibrated with raw values");
-                }}
-                className="px-4 py-1.5 text-xs font-bold text-white bg-slate-800 rounded-full shadow-md active:scale-95 transition-all hover:bg-slate-700"
-            >
-                Calibrate Sensors
-            </button>
+            <div className="flex items-center gap-2">
+              <FreezeAlert status={freeze} onOpenSettings={() => setShowFreezeSettings(true)} />
+              <button
+                  onClick={() => setShowSignalSettings(true)}
+                  className="flex items-center gap-1 px-2.5 py-1.5 rounded-full bg-white/50 border border-white/40 backdrop-blur-sm text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-600 transition-colors"
+              >
+                  <SlidersHorizontal className="w-3.5 h-3.5" />
+                  Filters
+              </button>
+            </div>
+            {supports('CALIBRATE') && (
+              <button
+                  onClick={() => setShowCalibration(true)}
+                  className="px-4 py-1.5 text-xs font-bold text-white bg-slate-800 rounded-full shadow-md active:scale-95 transition-all hover:bg-slate-700"
+              >
+                  Calibrate Sensors
+              </button>
+            )}
          </div>
       </div>
 
       {/* Main Content Area - Scrollable */}
       <div className="flex-1 w-full max-w-md mx-auto px-3 overflow-y-auto no-scrollbar pb-60 pt-1">
         <div className="flex flex-col gap-2">
+            {/* Live gait metrics, rolling over the last strides */}
+            <GaitMetricsPanel metrics={gaitMetrics} />
+
             {/* Group Right */}
             <div className="space-y-1.5">
                  <div className="flex items-center gap-2 px-2 text-orange-500/80">
                     <span className="text-[10px] font-bold uppercase tracking-widest">Right Foot</span>
                     <div className="h-[1px] flex-1 bg-orange-200/50" />
+                    <FootLoadSummary loads={symmetry.feet.right} />
                  </div>
                  {[0, 2].map(id => (
                     <SensorCard 
                         key={id}
                         {...SENSORS_CONFIG[id]}
-                        data={history[id]}
+                        data={chartData[id]}
                         threshold={thresholds[id]}
                         volume={volumes[id]}
                         onThresholdChange={(v) => handleThresholdChange(id, v)}
@@ -151,17 +189,21 @@ export function Sensors() {
                  ))}
             </div>
 
+            {/* Left/right symmetry over the same strides */}
+            <SymmetryPanel symmetry={symmetry} />
+
             {/* Group Left */}
             <div className="space-y-1.5 pt-1">
                 <div className="flex items-center gap-2 px-2 text-blue-500/80">
                     <span className="text-[10px] font-bold uppercase tracking-widest">Left Foot</span>
                     <div className="h-[1px] flex-1 bg-blue-200/50" />
+                    <FootLoadSummary loads={symmetry.feet.left} />
                  </div>
                  {[1, 3].map(id => (
                     <SensorCard 
                         key={id}
                         {...SENSORS_CONFIG[id]}
-                        data={history[id]}
+                        data={chartData[id]}
                         threshold={thresholds[id]}
                         volume={volumes[id]}
                         onThresholdChange={(v) => handleThresholdChange(id, v)}
@@ -178,6 +220,10 @@ export function Sensors() {
           duration={recordingDuration}
           onToggle={toggleRecording}
        />
+
+      {showFreezeSettings && <FreezeSettings onClose={() => setShowFreezeSettings(false)} />}
+      {showSignalSettings && <SignalSettings onClose={() => setShowSignalSettings(false)} />}
+      {showCalibration && <CalibrationWizard onClose={() => setShowCalibration(false)} />}
     </div>
   )
 }
@@ -1,7 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { getAllRecordings, deleteRecording, updateRecordingNotes, downloadRecordingData, type CloudRecording } from '@/services/blobService';
-import { Download, Trash2, FileText, Play, Loader2 } from 'lucide-react';
+import { Download, Trash2, FileText, Play, Loader2, Radio, Upload, Scale } from 'lucide-react';
 import { PlaybackModal } from '@/components/PlaybackModal';
+import { SymmetryTrend } from '@/components/GaitSymmetry';
+import { useConnection } from '@/context/ConnectionContext';
+import { parseRecordingCsv } from '@/services/recordingCsv';
+import { cn } from '@/lib/utils';
+import {
+    SYMMETRIC_SI, SYMMETRY_METRICS, loadRecordingSymmetry, pruneRecordingSymmetry,
+    type RecordingSymmetrySummary,
+} from '@/services/gaitSymmetry';
 
 export function View() {
     const [recordings, setRecordings] = useState<CloudRecording[]>([]);
@@ -13,15 +22,49 @@ export function View() {
     const [playbackRec, setPlaybackRec] = useState<{ date: string; data: string } | null>(null);
     const [downloadingUrl, setDownloadingUrl] = useState<string | null>(null);
 
+    // Symmetry summary per recording, analysed once and cached
+    const [symmetry, setSymmetry] = useState<Record<string, RecordingSymmetrySummary>>({});
+
+    // Replay as a live device
+    const { startReplay } = useConnection();
+    const navigate = useNavigate();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
     useEffect(() => {
         loadRecordings();
     }, []);
 
+    // Analyse recordings without a summary yet, one download at a time
+    useEffect(() => {
+        let cancelled = false;
+        const analyse = async () => {
+            for (const rec of recordings) {
+                if (cancelled) return;
+                try {
+                    const summary = await loadRecordingSymmetry(rec.url, () => downloadRecordingData(rec.url));
+                    if (!cancelled) setSymmetry(prev => prev[rec.url] ? prev : { ...prev, [rec.url]: summary });
+                } catch (err) {
+                    console.error('Failed to analyse recording:', err);
+                }
+            }
+        };
+        analyse();
+        return () => {
+            cancelled = true;
+        };
+    }, [recordings]);
+
+    const trend = useMemo(() => recordings
+        .map(rec => ({ date: new Date(rec.date || rec.uploadedAt).getTime(), score: symmetry[rec.url]?.score ?? null }))
+        .filter((p): p is { date: number; score: number } => p.score !== null)
+        .sort((a, b) => a.date - b.date), [recordings, symmetry]);
+
     const loadRecordings = async () => {
         setLoading(true);
         try {
             const data = await getAllRecordings();
             setRecordings(data);
+            pruneRecordingSymmetry(data.map(rec => rec.url));
         } catch (err) {
             console.error('Failed to load recordings:', err);
         } finally {
@@ -42,6 +85,40 @@ export function View() {
         }
     };
 
+    const replayCsv = async (csvData: string, name: string) => {
+        // Replayed frames go through the signal pipeline again
+        const frames = parseRecordingCsv(csvData, 'unfiltered');
+        if (frames.length === 0) {
+            alert('Recording has no frames to replay');
+            return;
+        }
+        await startReplay(frames, name);
+        navigate('/sensors');
+    };
+
+    const handleReplay = async (rec: CloudRecording) => {
+        setDownloadingUrl(rec.url);
+        try {
+            const csvData = await downloadRecordingData(rec.url);
+            await replayCsv(csvData, new Date(rec.date || rec.uploadedAt).toLocaleString());
+        } catch (err) {
+            console.error('Failed to start replay:', err);
+            alert('Failed to replay recording');
+        } finally {
+            setDownloadingUrl(null);
+        }
+    };
+
+    const handleReplayFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            await replayCsv(await file.text(), file.name);
+        } catch (err) {
+            console.error('Failed to replay file:', err);
+            alert('Failed to replay file');
+        }
+    };
+
     const handleDownload = async (rec: CloudRecording) => {
         try {
             const csvData = await downloadRecordingData(rec.url);
@@ -86,9 +163,27 @@ export function View() {
             <div className="flex-none pt-12 px-6 pb-6 text-left relative z-10">
                 <h1 className="text-3xl font-bold text-slate-800 tracking-tight mb-1">Saved Sessions</h1>
                 <p className="text-sm font-medium text-slate-400 uppercase tracking-widest">{recordings.length} Recordings</p>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="absolute right-6 top-12 flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium text-slate-500 bg-white border border-slate-200 hover:bg-slate-50 transition-colors"
+                    title="Replay a CSV file as a live device"
+                >
+                    <Upload size={14} />
+                    Replay file
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => { handleReplayFile(e.target.files?.[0]); e.target.value = ''; }}
+                />
             </div>
 
             <div className="flex-1 w-full max-w-md mx-auto px-4 overflow-y-auto no-scrollbar pb-24 space-y-3">
+                {/* Session symmetry across recordings */}
+                {trend.length > 1 && <SymmetryTrend points={trend} />}
+
                 {loading && (
                     <div className="flex flex-col items-center justify-center py-20 text-slate-400 gap-2">
                         <Loader2 size={32} className="animate-spin opacity-40" />
@@ -128,12 +223,20 @@ export function View() {
                                             <span>{new Date(rec.date || rec.uploadedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                                             <span className="w-0.5 h-0.5 rounded-full bg-slate-300" />
                                             <span className="text-slate-500">{formatDuration(rec.duration)}</span>
+                                            {symmetry[rec.url] && <SymmetryBadge summary={symmetry[rec.url]} />}
                                         </div>
                                     </div>
                                 </div>
                             </div>
                             
                             <div className="flex gap-1 shrink-0 ml-2">
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); handleReplay(rec); }}
+                                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                    title="Replay as live device"
+                                >
+                                    <Radio size={18} />
+                                </button>
                                 <button 
                                     onClick={(e) => { e.stopPropagation(); handleDownload(rec); }} 
                                     className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -202,6 +305,33 @@ export function View() {
     );
 }
 
+// Session symmetry score; the tooltip lists the index per metric
+function SymmetryBadge({ summary }: { summary: RecordingSymmetrySummary }) {
+    if (summary.score === null) return null;
+    return (
+        <>
+            <span className="w-0.5 h-0.5 rounded-full bg-slate-300" />
+            <span
+                className={cn("flex items-center gap-0.5", summary.score >= 100 - SYMMETRIC_SI ? "text-emerald-600" : "text-amber-600")}
+                title={describeSymmetry(summary)}
+            >
+                <Scale size={11} />
+                {summary.score.toFixed(0)}
+            </span>
+        </>
+    );
+}
+
+function describeSymmetry(summary: RecordingSymmetrySummary) {
+    return SYMMETRY_METRICS
+        .map(({ metric, label }) => {
+            const si = summary.indices[metric];
+            return `${label}: ${si === null ? '–' : `${si > 0 ? '+' : ''}${si.toFixed(0)}%`}`;
+        })
+        .concat(`${summary.strides} strides per foot`)
+        .join('\n');
+}
+
 function formatDuration(seconds: number) {
     const min = Math.floor(seconds / 60);
     const sec = seconds % 60;
@@ -1,103 +1,282 @@
 /// <reference types="web-bluetooth" />
-import { config } from '../config';
+import { encodeBinaryFrame, FRAME_MAGIC, type SensorPayload } from './sensorFrame';
+import { SLOT_CHANNELS, slotFromDeviceName, type DeviceSlot } from './deviceSlots';
+import { StubDevice, SIMULATION_INTERVAL_MS } from './stubSimulation';
+import { stubScenarios } from './stubScenarios';
+import { forgetDevice as forgetRemembered, getRememberedDevices, rememberDevice, type RememberedDevice } from './deviceRegistry';
+import { connectionLifecycle, stateForError } from './connectionLifecycle';
+import {
+  getReconnectPolicy, nextReconnectDelay, reconnectExhausted, reconnectMetrics, type ReconnectPolicy,
+} from './reconnectPolicy';
 
 export const SERVICE_UUID = "19b10000-e8f2-537e-4f6c-d104768a1214";
 export const SENSOR_CHARACTERISTIC_UUID = "19b10001-e8f2-537e-4f6c-d104768a1214";
 export const COMMAND_CHARACTERISTIC_UUID = "19b10002-e8f2-537e-4f6c-d104768a1214";
 
-type SensorCallback = (value: string) => void;
-type DisconnectCallback = () => void;
-type ReconnectCallback = (state: 'reconnecting' | 'reconnected' | 'failed') => void;
+// watching: active retries exhausted, the board is released and reconnected when it advertises again
+export type ReconnectState = 'reconnecting' | 'reconnected' | 'watching' | 'failed';
+export type SensorCallback = (value: SensorPayload, slot: DeviceSlot) => void;
+export type DisconnectCallback = (slot: DeviceSlot) => void;
+export type ReconnectCallback = (state: ReconnectState, slot: DeviceSlot) => void;
+
+// Per-device status exposed to the UI
+export interface DeviceStatus {
+  slot: DeviceSlot;
+  id: string;
+  name: string;
+  connected: boolean;
+  reconnecting: boolean;
+  watching: boolean;       // passive mode: waiting for the board to come back in range
+}
 
-interface IBleService {
-  connect(): Promise<void>;
-  disconnect(): void;
-  isConnected(): boolean;
-  write(data: Uint8Array): Promise<void>;
-  read(): Promise<Uint8Array>;
+// Methods taking an optional slot act on every connected device when it is omitted
+// (isConnected: "any device connected", read: first connected device)
+export interface IBleService {
+  connect(slot?: DeviceSlot): Promise<void>;
+  disconnect(slot?: DeviceSlot): void;
+  isConnected(slot?: DeviceSlot): boolean;
+  write(data: Uint8Array, slot?: DeviceSlot): Promise<void>;
+  read(slot?: DeviceSlot): Promise<Uint8Array>;
   subscribeToSensor(callback: SensorCallback): void;
   unsubscribeFromSensor(callback: SensorCallback): void;
   onDisconnect(callback: DisconnectCallback): void;
   onReconnect(callback: ReconnectCallback): void;
+  getDevices(): DeviceStatus[];
+  // Connect to remembered boards without the chooser; resolves with the slots that came up
+  reconnectRemembered(): Promise<DeviceSlot[]>;
+  forgetDevice(id: string): Promise<void>;
+}
+
+// How long a silent reconnect waits for a remembered board to advertise
+const REMEMBERED_SCAN_MS = 10000;
+
+// One remembered device per slot, the most recently seen one wins
+function rememberedPerSlot(): RememberedDevice[] {
+  const seen = new Set<DeviceSlot>();
+  return getRememberedDevices().filter(d => {
+    if (seen.has(d.slot)) return false;
+    seen.add(d.slot);
+    return true;
+  });
+}
+
+// Resolve once the board is advertising (i.e. in range and powered); browsers
+// without watchAdvertisements just try connecting straight away
+function waitForAdvertisement(device: BluetoothDevice, timeoutMs: number): Promise<void> {
+  if (typeof device.watchAdvertisements !== 'function') return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const abort = new AbortController();
+    const timer = setTimeout(() => {
+      abort.abort();
+      reject(new Error(`${device.name || device.id} not advertising`));
+    }, timeoutMs);
+    device.addEventListener('advertisementreceived', () => {
+      clearTimeout(timer);
+      abort.abort();
+      resolve();
+    }, { once: true });
+    device.watchAdvertisements({ signal: abort.signal }).catch((err: Error) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
+
+// Callback lists shared by every connection of a service
+interface ConnectionListeners {
+  sensor: (value: SensorPayload, slot: DeviceSlot) => void;
+  disconnected: (slot: DeviceSlot) => void;
+  reconnect: (state: ReconnectState, slot: DeviceSlot) => void;
+}
+
+// A link that can be brought back after an unexpected drop
+interface ReconnectTarget {
+  readonly slot: DeviceSlot;
+  reconnecting: boolean;
+  watching: boolean;
+  isCancelled(): boolean;     // user disconnected meanwhile — stop trying
+  reopen(): Promise<void>;    // one connection attempt
+  // Passive mode: resolves once the board is seen again; without it the link just gives up
+  waitForDevice?(): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Auto-reconnect per the reconnect policy; used by real boards and the stub's simulated drops
+async function reconnectWithBackoff(target: ReconnectTarget, listeners: ConnectionListeners): Promise<void> {
+  if (target.reconnecting || target.watching) return;
+  const policy = getReconnectPolicy();
+  const startedAt = Date.now();
+  target.reconnecting = true;
+  reconnectMetrics.recordDrop(target.slot);
+  listeners.reconnect('reconnecting', target.slot);
+
+  let attempt = 1;
+  for (; !reconnectExhausted(policy, attempt, startedAt); attempt++) {
+    if (target.isCancelled()) {
+      // User manually disconnected during reconnect — stop
+      target.reconnecting = false;
+      return;
+    }
+    connectionLifecycle.transition(target.slot, {
+      phase: 'reconnecting', attempt, maxAttempts: policy.maxAttempts,
+    });
+
+    const delay = nextReconnectDelay(policy, attempt);
+    console.log(`[${target.slot}] Reconnect attempt ${attempt}${policy.maxAttempts ? `/${policy.maxAttempts}` : ''} in ${delay}ms...`);
+    await sleep(delay);
+
+    // Check again in case user disconnected during wait
+    if (target.isCancelled()) {
+      target.reconnecting = false;
+      return;
+    }
+
+    try {
+      reconnectMetrics.recordAttempt();
+      await target.reopen();
+      console.log(`[${target.slot}] Reconnected successfully!`);
+      target.reconnecting = false;
+      connectionLifecycle.transition(target.slot, { phase: 'ready' });
+      reconnectMetrics.recordRecovered(target.slot, false);
+      listeners.reconnect('reconnected', target.slot);
+      return;
+    } catch (err) {
+      console.warn(`[${target.slot}] Reconnect attempt ${attempt} failed:`, err);
+    }
+  }
+
+  target.reconnecting = false;
+  if (policy.passive && target.waitForDevice) {
+    await watchForDevice(target, listeners, policy);
+    return;
+  }
+
+  // Policy exhausted — give up and notify disconnect
+  const elapsedS = Math.round((Date.now() - startedAt) / 1000);
+  console.log(`[${target.slot}] Auto-reconnect failed after ${attempt - 1} attempts (${elapsedS}s)`);
+  connectionLifecycle.transition(target.slot, {
+    phase: 'failed', reason: `No answer after ${attempt - 1} reconnect attempts (${elapsedS}s)`,
+  });
+  reconnectMetrics.recordGaveUp(target.slot);
+  listeners.reconnect('failed', target.slot);
+  listeners.disconnected(target.slot);
+}
+
+// Passive mode: the board counts as disconnected, but is reconnected as soon
+// as it shows up again — e.g. the patient walks back into range
+async function watchForDevice(target: ReconnectTarget, listeners: ConnectionListeners, policy: ReconnectPolicy): Promise<void> {
+  console.log(`[${target.slot}] Reconnect policy exhausted, watching for the board`);
+  target.watching = true;
+  connectionLifecycle.transition(target.slot, { phase: 'watching' });
+  listeners.reconnect('watching', target.slot);
+  listeners.disconnected(target.slot);
+
+  while (!target.isCancelled()) {
+    try {
+      await target.waitForDevice!();
+      if (target.isCancelled()) break;
+      await target.reopen();
+      console.log(`[${target.slot}] Board is back, reconnected`);
+      target.watching = false;
+      connectionLifecycle.transition(target.slot, { phase: 'ready' });
+      reconnectMetrics.recordRecovered(target.slot, true);
+      listeners.reconnect('reconnected', target.slot);
+      return;
+    } catch {
+      // Not seen yet, or seen but not connectable — look again shortly
+      await sleep(policy.maxDelayMs);
+    }
+  }
+  target.watching = false;
 }
 
-class BleService implements IBleService {
-  private device: BluetoothDevice | null = null;
+// One GATT connection to one board, with its own write queue and reconnect state
+class BleConnection implements ReconnectTarget {
+  readonly slot: DeviceSlot;
+  readonly device: BluetoothDevice;
+  private listeners: ConnectionListeners;
   private server: BluetoothRemoteGATTServer | null = null;
   private sensorCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
   private commandCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private sensorCallbacks: SensorCallback[] = [];
-  private disconnectCallbacks: DisconnectCallback[] = [];
-  private reconnectCallbacks: ReconnectCallback[] = [];
   private writeQueue: Promise<void> = Promise.resolve();
   private manualDisconnect = false;        // true = user clicked disconnect
-  private reconnecting = false;
-  private static MAX_RECONNECT_ATTEMPTS = 5;
-  private static RECONNECT_DELAYS = [1000, 2000, 3000, 5000, 8000]; // backoff
+  reconnecting = false;
+  watching = false;
 
-  constructor() {
+  constructor(slot: DeviceSlot, device: BluetoothDevice, listeners: ConnectionListeners) {
+    this.slot = slot;
+    this.device = device;
+    this.listeners = listeners;
     this.handleSensorChanged = this.handleSensorChanged.bind(this);
     this.handleDisconnected = this.handleDisconnected.bind(this);
-  }
-
-  async connect(): Promise<void> {
-    if (!navigator.bluetooth) {
-      throw new Error('Web Bluetooth API is not available in this browser.');
-    }
-
-    try {
-      console.log('Requesting Bluetooth Device...');
-      this.device = await navigator.bluetooth.requestDevice({
-        filters: [{ name: 'ESP32' }],
-        optionalServices: [SERVICE_UUID]
-      });
-
-      this.device.addEventListener('gattserverdisconnected', this.handleDisconnected);
-      this.manualDisconnect = false;
-      await this.connectGatt();
-      console.log('Connected!');
-    } catch (error) {
-      console.error('Connection failed', error);
-      throw error;
-    }
+    this.device.addEventListener('gattserverdisconnected', this.handleDisconnected);
   }
 
   // Internal: connect GATT + setup characteristics + start notifications
-  // Reused by both initial connect and auto-reconnect
-  private async connectGatt(): Promise<void> {
-    console.log('Connecting to GATT Server...');
-    this.server = await this.device!.gatt!.connect();
+  // Reused by both initial connect and auto-reconnect (which reports its own phases)
+  async connectGatt(): Promise<void> {
+    this.manualDisconnect = false;
+    const report = (phase: 'connecting' | 'discovering' | 'ready') => {
+      if (!this.reconnecting) connectionLifecycle.transition(this.slot, { phase });
+    };
+    report('connecting');
+    console.log(`[${this.slot}] Connecting to GATT Server...`);
+    this.server = await this.device.gatt!.connect();
 
-    console.log('Getting Service...');
+    report('discovering');
+    console.log(`[${this.slot}] Getting Service...`);
     const service = await this.server.getPrimaryService(SERVICE_UUID);
 
-    console.log('Getting Characteristics...');
+    console.log(`[${this.slot}] Getting Characteristics...`);
     this.sensorCharacteristic = await service.getCharacteristic(SENSOR_CHARACTERISTIC_UUID);
     this.commandCharacteristic = await service.getCharacteristic(COMMAND_CHARACTERISTIC_UUID);
 
-    console.log('Starting Notifications...');
+    console.log(`[${this.slot}] Starting Notifications...`);
     await this.sensorCharacteristic.startNotifications();
     this.sensorCharacteristic.addEventListener('characteristicvaluechanged', this.handleSensorChanged);
 
     // Reset write queue for clean state
     this.writeQueue = Promise.resolve();
+    report('ready');
   }
 
   disconnect(): void {
     this.manualDisconnect = true;   // prevent auto-reconnect
     this.reconnecting = false;
-    if (this.device && this.device.gatt?.connected) {
+    this.watching = false;
+    connectionLifecycle.transition(this.slot, { phase: 'idle' });
+    if (this.device.gatt?.connected) {
       this.device.gatt.disconnect();
     }
   }
 
+  // Drop all listeners — connection is being replaced or forgotten
+  dispose(): void {
+    this.disconnect();
+    this.device.removeEventListener('gattserverdisconnected', this.handleDisconnected);
+    this.sensorCharacteristic?.removeEventListener('characteristicvaluechanged', this.handleSensorChanged);
+  }
+
   isConnected(): boolean {
-    return !!(this.device && this.device.gatt?.connected);
+    return !!this.device.gatt?.connected;
+  }
+
+  isCancelled(): boolean {
+    return this.manualDisconnect;
+  }
+
+  reopen(): Promise<void> {
+    return this.connectGatt();
+  }
+
+  waitForDevice(): Promise<void> {
+    return waitForAdvertisement(this.device, REMEMBERED_SCAN_MS);
   }
 
   async write(data: Uint8Array): Promise<void> {
     if (!this.commandCharacteristic || !this.isConnected()) {
-      console.warn('Not connected or characteristic not found');
+      console.warn(`[${this.slot}] Not connected or characteristic not found`);
       return;
     }
     const doWrite = async () => {
@@ -110,10 +289,12 @@ class BleService implements IBleService {
         timeout
       ]);
     };
-    this.writeQueue = this.writeQueue.then(doWrite).catch(err => {
-      console.warn('BLE write failed:', err.message);
+    // The caller sees the failure; the queue carries on with the next write
+    const result = this.writeQueue.then(doWrite);
+    this.writeQueue = result.catch(err => {
+      console.warn(`[${this.slot}] BLE write failed:`, err.message);
     });
-    return this.writeQueue;
+    return result;
   }
 
   async read(): Promise<Uint8Array> {
@@ -125,139 +306,286 @@ class BleService implements IBleService {
       return new Uint8Array(value.buffer);
   }
 
-  subscribeToSensor(callback: SensorCallback): void {
-    this.sensorCallbacks.push(callback);
-  }
-
-  unsubscribeFromSensor(callback: SensorCallback): void {
-    this.sensorCallbacks = this.sensorCallbacks.filter(cb => cb !== callback);
-  }
-
   private handleSensorChanged(event: Event): void {
     const characteristic = event.target as BluetoothRemoteGATTCharacteristic;
     const value = characteristic.value;
     if (value) {
-      const decoder = new TextDecoder('utf-8');
-      const stringValue = decoder.decode(value);
-      this.sensorCallbacks.forEach(cb => cb(stringValue));
+      const bytes = new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+      // Binary sensor frames are passed through as bytes; JSON (diag log,
+      // heartbeat, legacy frames) is decoded to a string
+      const payload: SensorPayload = bytes[0] === FRAME_MAGIC
+        ? bytes
+        : new TextDecoder('utf-8').decode(bytes);
+      this.listeners.sensor(payload, this.slot);
     }
   }
 
-  onDisconnect(callback: DisconnectCallback): void {
-    this.disconnectCallbacks.push(callback);
-  }
-
-  onReconnect(callback: ReconnectCallback): void {
-    this.reconnectCallbacks.push(callback);
-  }
-
-  private handleDisconnected(_event: Event): void {
-    console.log('Device disconnected', this.manualDisconnect ? '(manual)' : '(unexpected)');
+  private handleDisconnected(): void {
+    console.log(`[${this.slot}] Device disconnected`, this.manualDisconnect ? '(manual)' : '(unexpected)');
 
     if (this.manualDisconnect) {
       // User clicked disconnect — notify and don't reconnect
-      this.disconnectCallbacks.forEach(cb => cb());
+      this.listeners.disconnected(this.slot);
       return;
     }
 
     // Unexpected disconnect (range loss, interference) — auto-reconnect
-    this.attemptReconnect();
+    reconnectWithBackoff(this, this.listeners);
   }
+}
 
-  private async attemptReconnect(): Promise<void> {
-    if (this.reconnecting || !this.device) return;
-    this.reconnecting = true;
-    this.reconnectCallbacks.forEach(cb => cb('reconnecting'));
+// Manages one connection per slot: a single board ("main") or one board per shoe
+export class BleService implements IBleService {
+  private connections = new Map<DeviceSlot, BleConnection>();
+  private sensorCallbacks: SensorCallback[] = [];
+  private disconnectCallbacks: DisconnectCallback[] = [];
+  private reconnectCallbacks: ReconnectCallback[] = [];
+  private listeners: ConnectionListeners = {
+    sensor: (value, slot) => this.sensorCallbacks.forEach(cb => cb(value, slot)),
+    disconnected: (slot) => this.disconnectCallbacks.forEach(cb => cb(slot)),
+    reconnect: (state, slot) => this.reconnectCallbacks.forEach(cb => cb(state, slot)),
+  };
+
+  // slot: where to put the chosen board; inferred from its advertised name when omitted
+  async connect(slot?: DeviceSlot): Promise<void> {
+    if (!navigator.bluetooth) {
+      throw new Error('Web Bluetooth API is not available in this browser.');
+    }
 
-    for (let attempt = 0; attempt < BleService.MAX_RECONNECT_ATTEMPTS; attempt++) {
-      if (this.manualDisconnect) {
-        // User manually disconnected during reconnect — stop
-        this.reconnecting = false;
-        return;
+    // The chosen board may turn out to belong to another slot (see attach)
+    const requested = slot ?? 'main';
+    try {
+      console.log('Requesting Bluetooth Device...');
+      connectionLifecycle.transition(requested, { phase: 'requesting' });
+      let device: BluetoothDevice;
+      try {
+        device = await navigator.bluetooth.requestDevice({
+          filters: [{ namePrefix: 'ESP32' }],
+          optionalServices: [SERVICE_UUID]
+        });
+      } catch (error) {
+        connectionLifecycle.transition(requested, stateForError(error));
+        throw error;
       }
 
-      const delay = BleService.RECONNECT_DELAYS[attempt] || 8000;
-      console.log(`Reconnect attempt ${attempt + 1}/${BleService.MAX_RECONNECT_ATTEMPTS} in ${delay}ms...`);
-      await new Promise(r => setTimeout(r, delay));
-
-      // Check again in case user disconnected during wait
-      if (this.manualDisconnect) {
-        this.reconnecting = false;
-        return;
-      }
+      const target = slot ?? slotFromDeviceName(device.name);
+      if (target !== requested) connectionLifecycle.transition(requested, { phase: 'idle' });
+      await this.attach(device, target);
+    } catch (error) {
+      console.error('Connection failed', error);
+      throw error;
+    }
+  }
 
+  async reconnectRemembered(): Promise<DeviceSlot[]> {
+    if (!navigator.bluetooth?.getDevices) return [];
+    const remembered = rememberedPerSlot();
+    if (remembered.length === 0) return [];
+
+    // Only devices this origin already has permission for are returned
+    const permitted = await navigator.bluetooth.getDevices();
+    const connected: DeviceSlot[] = [];
+    await Promise.all(remembered.map(async (entry) => {
+      const device = permitted.find(d => d.id === entry.id);
+      if (!device || this.connections.get(entry.slot)?.isConnected()) return;
       try {
-        await this.connectGatt();
-        console.log('Reconnected successfully!');
-        this.reconnecting = false;
-        this.reconnectCallbacks.forEach(cb => cb('reconnected'));
-        return;
+        await waitForAdvertisement(device, REMEMBERED_SCAN_MS);
+        await this.attach(device, entry.slot);
+        connected.push(entry.slot);
       } catch (err) {
-        console.warn(`Reconnect attempt ${attempt + 1} failed:`, err);
+        console.log(`[${entry.slot}] Remembered device ${entry.label} unavailable:`, err);
       }
+    }));
+    return connected;
+  }
+
+  async forgetDevice(id: string): Promise<void> {
+    forgetRemembered(id);
+    for (const [slot, connection] of this.connections) {
+      if (connection.device.id !== id) continue;
+      connection.dispose();
+      this.connections.delete(slot);
+      this.listeners.disconnected(slot);
     }
+    // Also drop the browser's permission so getDevices() stops returning it
+    const permitted = navigator.bluetooth?.getDevices ? await navigator.bluetooth.getDevices() : [];
+    await permitted.find(d => d.id === id)?.forget?.();
+  }
 
-    // All attempts failed — give up and notify disconnect
-    console.log('Auto-reconnect failed after all attempts');
-    this.reconnecting = false;
-    this.reconnectCallbacks.forEach(cb => cb('failed'));
-    this.disconnectCallbacks.forEach(cb => cb());
+  private async attach(device: BluetoothDevice, slot: DeviceSlot): Promise<void> {
+    const existing = this.connections.get(slot);
+    if (existing && existing.device.id === device.id && existing.isConnected()) {
+      console.log(`[${slot}] Already connected`);
+      connectionLifecycle.transition(slot, { phase: 'ready' });
+      return;
+    }
+    existing?.dispose();
+
+    const connection = new BleConnection(slot, device, this.listeners);
+    this.connections.set(slot, connection);
+    try {
+      await connection.connectGatt();
+    } catch (error) {
+      connectionLifecycle.transition(slot, stateForError(error));
+      throw error;
+    }
+    console.log(`[${slot}] Connected!`);
+    rememberDevice({ id: device.id, name: device.name || 'ESP32', slot });
+  }
+
+  disconnect(slot?: DeviceSlot): void {
+    for (const connection of this.select(slot)) {
+      connection.disconnect();
+    }
+  }
+
+  isConnected(slot?: DeviceSlot): boolean {
+    return this.select(slot).some(c => c.isConnected());
+  }
+
+  async write(data: Uint8Array, slot?: DeviceSlot): Promise<void> {
+    const targets = this.select(slot).filter(c => c.isConnected());
+    if (targets.length === 0) {
+      console.warn('Not connected or characteristic not found');
+      return;
+    }
+    await Promise.all(targets.map(c => c.write(data)));
+  }
+
+  async read(slot?: DeviceSlot): Promise<Uint8Array> {
+    const target = this.select(slot).find(c => c.isConnected());
+    if (!target) {
+      console.warn('Command Characteristic not found');
+      return new Uint8Array();
+    }
+    return target.read();
+  }
+
+  subscribeToSensor(callback: SensorCallback): void {
+    this.sensorCallbacks.push(callback);
+  }
+
+  unsubscribeFromSensor(callback: SensorCallback): void {
+    this.sensorCallbacks = this.sensorCallbacks.filter(cb => cb !== callback);
+  }
+
+  onDisconnect(callback: DisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  onReconnect(callback: ReconnectCallback): void {
+    this.reconnectCallbacks.push(callback);
+  }
+
+  getDevices(): DeviceStatus[] {
+    return [...this.connections.values()].map(c => ({
+      slot: c.slot,
+      id: c.device.id,
+      name: c.device.name || 'ESP32',
+      connected: c.isConnected(),
+      reconnecting: c.reconnecting,
+      watching: c.watching,
+    }));
+  }
+
+  private select(slot?: DeviceSlot): BleConnection[] {
+    if (slot) {
+      const connection = this.connections.get(slot);
+      return connection ? [connection] : [];
+    }
+    return [...this.connections.values()];
   }
 }
 
-class BleStubService implements IBleService {
-  private connected = false;
+const stubDeviceId = (slot: DeviceSlot) => `stub-${slot}`;
+const stubDeviceName = (slot: DeviceSlot) =>
+  slot === 'main' ? 'ESP32 (stub)' : `ESP32-${slot === 'left' ? 'L' : 'R'} (stub)`;
+
+// Firmware sends {"hb":1} this often while loop() is stalled
+const STUB_HEARTBEAT_MS = 2000;
+// Time a reconnect attempt takes to reach a simulated board
+const STUB_RECONNECT_MS = 300;
+
+// Simulated boards; what they send is driven by stubScenarios (gait profile and faults)
+export class BleStubService implements IBleService {
+  private devices = new Map<DeviceSlot, StubDevice>();
+  private outages = new Map<DeviceSlot, ReconnectTarget>();   // boards whose link is down
   private sensorCallbacks: SensorCallback[] = [];
   private disconnectCallbacks: DisconnectCallback[] = [];
-  private intervalId: any = null;
-  private mode: number = 0;          // 0 = accordion, 1 = song
-  private sensitivity: number = 75;  // 0-100 slider
+  private reconnectCallbacks: ReconnectCallback[] = [];
+  private intervalId: ReturnType<typeof setInterval> | null = null;
   private tick: number = 0;
-
-  async connect(): Promise<void> {
-    console.log('[STUB] Connecting...');
+  private listeners: ConnectionListeners = {
+    sensor: (value, slot) => this.sensorCallbacks.forEach(cb => cb(value, slot)),
+    disconnected: (slot) => this.disconnectCallbacks.forEach(cb => cb(slot)),
+    reconnect: (state, slot) => {
+      // Gave up on the board: it is gone, like a BLE connection that failed to come back
+      if (state === 'failed') this.remove(slot);
+      this.reconnectCallbacks.forEach(cb => cb(state, slot));
+    },
+  };
+
+  async connect(slot: DeviceSlot = 'main'): Promise<void> {
+    console.log(`[STUB ${slot}] Connecting...`);
+    connectionLifecycle.transition(slot, { phase: 'connecting' });
     await new Promise(resolve => setTimeout(resolve, 500));
-    this.connected = true;
-    this.tick = 0;
-    console.log('[STUB] Connected!');
+    this.outages.delete(slot);
+    this.devices.set(slot, new StubDevice(slot));
+    console.log(`[STUB ${slot}] Connected!`);
+    connectionLifecycle.transition(slot, { phase: 'ready' });
+    rememberDevice({ id: stubDeviceId(slot), name: stubDeviceName(slot), slot });
     this.startSimulatingData();
   }
 
-  disconnect(): void {
-    console.log('[STUB] Disconnecting...');
-    this.connected = false;
-    this.stopSimulatingData();
+  async reconnectRemembered(): Promise<DeviceSlot[]> {
+    const slots = rememberedPerSlot()
+      .filter(d => d.id === stubDeviceId(d.slot) && !this.devices.has(d.slot))
+      .map(d => d.slot);
+    await Promise.all(slots.map(slot => this.connect(slot)));
+    return slots;
   }
 
-  isConnected(): boolean {
-    return this.connected;
+  async forgetDevice(id: string): Promise<void> {
+    forgetRemembered(id);
+    const device = [...this.devices.values()].find(d => stubDeviceId(d.slot) === id);
+    if (device) this.disconnect(device.slot);
   }
 
-  async write(data: Uint8Array): Promise<void> {
-    if (!this.connected) {
+  disconnect(slot?: DeviceSlot): void {
+    const slots = slot ? [slot] : [...this.devices.keys()];
+    for (const s of slots) {
+      if (!this.remove(s)) continue;
+      console.log(`[STUB ${s}] Disconnecting...`);
+      connectionLifecycle.transition(s, { phase: 'idle' });
+      this.disconnectCallbacks.forEach(cb => cb(s));
+    }
+  }
+
+  isConnected(slot?: DeviceSlot): boolean {
+    return this.linked().some(d => !slot || d.slot === slot);
+  }
+
+  async write(data: Uint8Array, slot?: DeviceSlot): Promise<void> {
+    const targets = this.linked().filter(d => !slot || d.slot === slot);
+    if (targets.length === 0) {
       console.warn('[STUB] Not connected');
       return;
     }
     const cmd = new TextDecoder().decode(data);
     console.log(`[STUB] Command: ${cmd}`);
 
-    // Parse commands like the real ESP32
-    const sep = cmd.indexOf(':');
-    if (sep === -1) return;
-    const command = cmd.substring(0, sep);
-    const value = cmd.substring(sep + 1);
-
-    if (command === 'MODE') {
-      this.mode = parseInt(value);
-      console.log(`[STUB] Mode → ${this.mode === 0 ? 'Accordion' : 'Song'}`);
-    } else if (command === 'SENSITIVITY') {
-      this.sensitivity = parseFloat(value);
-      console.log(`[STUB] Sensitivity → ${this.sensitivity}`);
+    for (const device of targets) {
+      if (cmd.startsWith('GETLOG:')) {
+        // Paced like the firmware, one notification every 30ms
+        device.diagLogMessages().forEach((message, i) => this.notifyLater(device, message, 30 * (i + 1)));
+        continue;
+      }
+      const reply = device.handleText(cmd);
+      if (reply) this.notifyLater(device, JSON.stringify(reply));
     }
   }
 
   async read(): Promise<Uint8Array> {
-    if (!this.connected) return new Uint8Array();
     return new Uint8Array();
   }
 
@@ -273,100 +601,114 @@ class BleStubService implements IBleService {
     this.disconnectCallbacks.push(callback);
   }
 
-  onReconnect(_callback: ReconnectCallback): void {
-    // Stub doesn't auto-reconnect
+  onReconnect(callback: ReconnectCallback): void {
+    this.reconnectCallbacks.push(callback);
+  }
+
+  getDevices(): DeviceStatus[] {
+    return [...this.devices.values()].map(d => ({
+      slot: d.slot,
+      id: stubDeviceId(d.slot),
+      name: stubDeviceName(d.slot),
+      connected: !this.outages.has(d.slot),
+      reconnecting: this.outages.get(d.slot)?.reconnecting ?? false,
+      watching: this.outages.get(d.slot)?.watching ?? false,
+    }));
+  }
+
+  // Boards whose link is up
+  private linked(): StubDevice[] {
+    return [...this.devices.values()].filter(d => !this.outages.has(d.slot));
+  }
+
+  private remove(slot: DeviceSlot): boolean {
+    this.outages.delete(slot);
+    const removed = this.devices.delete(slot);
+    if (this.devices.size === 0) this.stopSimulatingData();
+    return removed;
+  }
+
+  // Deliver a notification after a BLE-like delay, if the device is still there
+  private notifyLater(device: StubDevice, payload: SensorPayload, delayMs: number = 30) {
+    setTimeout(() => {
+      if (this.devices.get(device.slot) !== device || this.outages.has(device.slot)) return;
+      this.sensorCallbacks.forEach(cb => cb(payload, device.slot));
+    }, delayMs);
+  }
+
+  // Simulated range loss: the board is unreachable for durationMs and the
+  // usual reconnect loop has to bring it back (or give up)
+  private dropLink(device: StubDevice, durationMs: number): void {
+    const slot = device.slot;
+    if (this.outages.has(slot)) return;
+    const reachableAt = Date.now() + durationMs;
+    console.log(`[STUB ${slot}] Link lost for ${durationMs}ms`);
+    device.logEvent('BLE_DISC');
+
+    const outage: ReconnectTarget = {
+      slot,
+      reconnecting: false,
+      watching: false,
+      isCancelled: () => this.devices.get(slot) !== device,
+      reopen: async () => {
+        await sleep(STUB_RECONNECT_MS);
+        if (Date.now() < reachableAt) throw new Error('Board out of range');
+        this.outages.delete(slot);
+        device.logEvent('BLE_CONN');
+      },
+      // "Advertising" again once back in range
+      waitForDevice: async () => {
+        while (Date.now() < reachableAt) {
+          if (outage.isCancelled()) throw new Error('Cancelled');
+          await sleep(STUB_RECONNECT_MS);
+        }
+      },
+    };
+    this.outages.set(slot, outage);
+    reconnectWithBackoff(outage, this.listeners);
   }
 
   // ---------- Simulation Engine ----------
-  // Matches real ESP32: compact JSON at 20Hz (50ms), raw ADC values 0-4095
-  // Song mode: intense, fast walking with bursts and overlapping foot strikes
-  // Accordion mode: gentler, steady walking pattern
+  // Matches real ESP32: binary sensor frames at 20Hz (50ms), raw ADC values 0-4095
+  // Every connected board gets the channels it owns (see SLOT_CHANNELS)
 
   private startSimulatingData() {
     if (this.intervalId) return;
+    this.tick = 0;
     this.intervalId = setInterval(() => {
+      const lead = this.devices.values().next().value;
+      if (!lead) return;
       this.tick++;
-      const t = this.tick * 0.05; // seconds (50ms per tick)
-      const ts = Date.now();
-
-      let rf: number, lf: number, rb: number, lb: number; // raw ADC 0-4095
-
-      if (this.mode === 1) {
-        // ---- Song Mode: Intense walking simulation ----
-        // Fast walking cadence (~2 steps/sec = 120 BPM)
-        // Right foot: phase 0, Left foot: phase PI
-        // Within each foot: Back (heel) strikes first, Front (toe) pushes off after
-        const walkFreq = 2.0 * Math.PI * 1.0; // 1 full gait cycle per second
-        const rightPhase = t * walkFreq;
-        const leftPhase = t * walkFreq + Math.PI;
-
-        // Heel strike: sharp attack, quick decay (impact)
-        const heelStrike = (phase: number) => {
-          const p = ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-          // Narrow pulse at phase 0 (heel contact)
-          if (p < 0.8) return Math.pow(Math.cos(p * Math.PI / 1.6), 2);
-          return 0;
-        };
-
-        // Toe pushoff: slower build, moderate peak, comes after heel
-        const toePush = (phase: number) => {
-          const p = ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-          // Delayed pulse (starts at phase ~1.2, peaks at ~2.0)
-          if (p > 1.0 && p < 3.0) return Math.pow(Math.sin((p - 1.0) * Math.PI / 2.0), 2);
-          return 0;
-        };
-
-        // Random micro-bursts (simulate uneven ground, stumbles, tempo changes)
-        const burst = Math.sin(t * 7.3) > 0.85 ? 0.3 : 0;
-        const jitter = () => (Math.random() - 0.5) * 200; // ±200 ADC noise
-
-        // Sensitivity affects how raw values map (higher sensitivity = stronger signal)
-        const sensGain = 0.7 + (this.sensitivity / 100) * 0.6; // 0.7 to 1.3
-
-        // Raw ADC values (baseline ~300, max ~3800)
-        rf = 300 + (toePush(rightPhase) * 3200 + burst * 1500) * sensGain + jitter();
-        lf = 300 + (toePush(leftPhase) * 3200 + burst * 1200) * sensGain + jitter();
-        rb = 300 + (heelStrike(rightPhase) * 3500 + burst * 1800) * sensGain + jitter();
-        lb = 300 + (heelStrike(leftPhase) * 3500 + burst * 1600) * sensGain + jitter();
-
-        // Occasional "running" bursts: both feet active simultaneously
-        if (Math.sin(t * 0.3) > 0.7) {
-          const runBoost = 800 * Math.abs(Math.sin(t * 5));
-          rf += runBoost;
-          rb += runBoost * 1.2;
-        }
-
-      } else {
-        // ---- Accordion Mode: Steady, deliberate stepping ----
-        const walkFreq = 2.0 * Math.PI * 0.6; // slower walk (0.6 Hz)
-        const rightPhase = t * walkFreq;
-        const leftPhase = t * walkFreq + Math.PI;
+      const t = this.tick * SIMULATION_INTERVAL_MS / 1000; // seconds
 
-        const step = (phase: number) => {
-          const p = ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-          if (p < 2.5) return Math.pow(Math.sin(p * Math.PI / 2.5), 2);
-          return 0;
-        };
+      const values = stubScenarios.sample(t, lead.mode, lead.sensitivity);
+      const effects = stubScenarios.tick();
 
-        const jitter = () => (Math.random() - 0.5) * 100;
-
-        rf = 300 + step(rightPhase - 0.3) * 2800 + jitter();
-        lf = 300 + step(leftPhase - 0.3) * 2800 + jitter();
-        rb = 300 + step(rightPhase) * 2500 + jitter();
-        lb = 300 + step(leftPhase) * 2500 + jitter();
+      for (const device of this.devices.values()) {
+        for (const { event, value } of effects.diagEvents) device.logEvent(event, value);
+        device.sampleHealth();
+        if (effects.disconnectMs > 0) this.dropLink(device, effects.disconnectMs);
       }
 
-      // Clamp to valid ADC range
-      const clamp = (v: number) => Math.max(0, Math.min(4095, Math.floor(v)));
+      for (const device of this.linked()) {
+        if (effects.heartbeatOnly) {
+          // Stalled loop(): no frames, only the keep-alive
+          if (this.tick % (STUB_HEARTBEAT_MS / SIMULATION_INTERVAL_MS) === 0) {
+            device.logEvent('HEARTBEAT');
+            this.sensorCallbacks.forEach(cb => cb('{"hb":1}', device.slot));
+          }
+          continue;
+        }
 
-      // Send compact JSON format (matches real ESP32 firmware)
-      const json = JSON.stringify({
-        t: ts,
-        s: [clamp(rf), clamp(lf), clamp(rb), clamp(lb)]
-      });
-      this.sensorCallbacks.forEach(cb => cb(json));
+        // Send binary sensor frame per board (matches real ESP32 firmware)
+        const channels = SLOT_CHANNELS[device.slot].map(i => values[i]);
+        const frame = encodeBinaryFrame(device.seq++, device.millis(), channels);
+        if (effects.dropFrame) continue;
+        const payload = effects.malformed ?? frame;
+        this.sensorCallbacks.forEach(cb => cb(payload, device.slot));
+      }
 
-    }, 50); // 20Hz — matches real ESP32 loop delay
+    }, SIMULATION_INTERVAL_MS);
   }
 
   private stopSimulatingData() {
@@ -376,6 +718,3 @@ class BleStubService implements IBleService {
     }
   }
 }
-
-export const bleService = config.useStubs ? new BleStubService() : new BleService();
-
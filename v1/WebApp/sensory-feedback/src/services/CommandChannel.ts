@@ -0,0 +1,143 @@
+import type { DeviceSlot } from './deviceSlots';
+import { DeviceError, RequestCancelledError, type RequestChannel } from './RequestChannel';
+
+// ---------- Acknowledged Commands ----------
+// Settings are sent as tagged commands, "<COMMAND>:<data>#<id>", and the
+// board acknowledges each one once applied:
+//   {"re":<id>,"ok":1}                    applied
+//   {"re":<id>,"err":"unknown command"}   rejected
+// A missing ack is retried; rapid updates of the same setting (slider drags)
+// are coalesced so only the latest value goes out. Boards from before acks
+// (protocol < ACK_PROTOCOL_VERSION) get plain untagged writes.
+
+export const ACK_PROTOCOL_VERSION = 2;
+
+export class CommandFailedError extends Error {
+  readonly command: string;
+  readonly slot: DeviceSlot;
+  readonly attempts: number;
+
+  constructor(command: string, slot: DeviceSlot, attempts: number, cause: Error) {
+    super(`${command} not acknowledged by ${slot} after ${attempts} attempt(s): ${cause.message}`);
+    this.name = 'CommandFailedError';
+    this.command = command;
+    this.slot = slot;
+    this.attempts = attempts;
+  }
+}
+
+// Message for the user when a setting didn't go through; null when the link
+// dropped instead (the connection status already says so and the reconnect
+// resyncs settings)
+export function commandErrorMessage(setting: string, err: unknown): string | null {
+  if (err instanceof RequestCancelledError) return null;
+  if (err instanceof CommandFailedError) return `${setting} not applied — insole didn't confirm`;
+  return `${setting} not applied`;
+}
+
+export interface CommandOptions {
+  slot?: DeviceSlot;       // one board; every connected board when omitted
+  coalesce?: string;       // setting name; while one send of it is in flight, only the newest value waits
+  retries?: number;        // extra attempts after a missing ack
+  timeoutMs?: number;      // per attempt
+}
+
+export interface CommandChannelOptions {
+  retries?: number;
+  timeoutMs?: number;
+}
+
+// What CommandChannel needs to know about the connection
+export interface CommandTargets {
+  connectedSlots(): DeviceSlot[];
+  acknowledges(slot: DeviceSlot): boolean;   // board sends acks
+  writeUnacked(command: string, slot: DeviceSlot): Promise<void>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Per coalescing key: the send in flight and the newest value waiting behind it
+interface CoalesceEntry {
+  next: { data: string; waiters: Waiter[] } | null;
+}
+
+export class CommandChannel {
+  private requests: RequestChannel;
+  private targets: CommandTargets;
+  private retries: number;
+  private timeoutMs: number;
+  private coalescing = new Map<string, CoalesceEntry>();
+
+  constructor(requests: RequestChannel, targets: CommandTargets, options: CommandChannelOptions = {}) {
+    this.requests = requests;
+    this.targets = targets;
+    this.retries = options.retries ?? 2;
+    this.timeoutMs = options.timeoutMs ?? 1000;
+  }
+
+  // Resolves once every target board acknowledged; rejects with CommandFailedError,
+  // or RequestCancelledError if the link dropped meanwhile
+  send(command: string, data: string, options: CommandOptions = {}): Promise<void> {
+    if (!options.coalesce) return this.deliver(command, data, options);
+
+    const key = `${options.coalesce}@${options.slot ?? '*'}`;
+    const entry = this.coalescing.get(key);
+    if (entry) {
+      // Replace whatever was waiting; its callers settle with the newer value
+      return new Promise<void>((resolve, reject) => {
+        const waiters = [...(entry.next?.waiters ?? []), { resolve, reject }];
+        entry.next = { data, waiters };
+      });
+    }
+
+    const fresh: CoalesceEntry = { next: null };
+    this.coalescing.set(key, fresh);
+    const first = this.deliver(command, data, options);
+    first.finally(() => this.drain(key, fresh, command, options)).catch(() => {});
+    return first;
+  }
+
+  // Send the newest value that queued up behind an in-flight send, if any
+  private drain(key: string, entry: CoalesceEntry, command: string, options: CommandOptions): void {
+    const next = entry.next;
+    if (!next) {
+      this.coalescing.delete(key);
+      return;
+    }
+    entry.next = null;
+    this.deliver(command, next.data, options)
+      .then(() => next.waiters.forEach(w => w.resolve()), (err: Error) => next.waiters.forEach(w => w.reject(err)))
+      .finally(() => this.drain(key, entry, command, options));
+  }
+
+  private async deliver(command: string, data: string, options: CommandOptions): Promise<void> {
+    const slots = options.slot ? [options.slot] : this.targets.connectedSlots();
+    if (slots.length === 0) throw new Error('Not connected');
+    await Promise.all(slots.map(slot => this.deliverTo(command, data, slot, options)));
+  }
+
+  private async deliverTo(command: string, data: string, slot: DeviceSlot, options: CommandOptions): Promise<void> {
+    if (!this.targets.acknowledges(slot)) {
+      return this.targets.writeUnacked(`${command}:${data}`, slot);
+    }
+
+    const attempts = 1 + (options.retries ?? this.retries);
+    let lastError: Error = new Error('no attempt made');
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await this.requests.request(data, { command, slot, timeoutMs: options.timeoutMs ?? this.timeoutMs });
+        return;
+      } catch (err) {
+        // Lost link: the reconnect path resyncs settings. Rejected: retrying won't help.
+        if (err instanceof RequestCancelledError) throw err;
+        if (err instanceof DeviceError) throw new CommandFailedError(command, slot, attempt, err);
+        lastError = err as Error;
+        console.warn(`[Command ${slot}] ${command} attempt ${attempt}/${attempts} failed:`, lastError.message);
+      }
+    }
+    throw new CommandFailedError(command, slot, attempts, lastError);
+  }
+}
@@ -0,0 +1,230 @@
+import type { DeviceStatus, DisconnectCallback, IBleService, SensorCallback } from './BleService';
+import type { DeviceSlot } from './deviceSlots';
+import type { RecordingFrame } from './recordingCsv';
+import { encodeBinaryFrame } from './sensorFrame';
+import { StubDevice } from './stubSimulation';
+import { connectionLifecycle } from './connectionLifecycle';
+
+// ---------- Replay Transport ----------
+// Plays a saved recording back as if it were a live board: frames are encoded
+// as binary sensor frames and emitted at their original timing (scaled by
+// speed), so EspApi, the Sensors page and recording see a normal device.
+// Commands and requests are answered by a simulated board holding settings.
+
+export interface ReplayStatus {
+  name: string | null;
+  playing: boolean;
+  loop: boolean;
+  speed: number;
+  position: number;   // ms into the recording
+  duration: number;   // ms
+}
+
+type ReplayStatusCallback = (status: ReplayStatus) => void;
+
+// Recordings hold calibrated 0-100 levels; the wire carries raw ADC
+const toRawAdc = (level: number) => Math.max(0, Math.min(4095, Math.round((level / 100) * 4095)));
+
+export class ReplayTransport implements IBleService {
+  private frames: RecordingFrame[] = [];
+  private name: string | null = null;
+  private device: StubDevice | null = null;
+  private slot: DeviceSlot = 'main';
+  private index = 0;
+  private loopOffset = 0;     // added to frame times so the device clock never runs backwards
+  private lastDeviceTime = 0;
+  private playing = false;
+  private loop = true;
+  private speed = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sensorCallbacks: SensorCallback[] = [];
+  private disconnectCallbacks: DisconnectCallback[] = [];
+  private statusCallbacks: ReplayStatusCallback[] = [];
+
+  load(frames: RecordingFrame[], name: string): void {
+    this.stop();
+    this.frames = frames;
+    this.name = name;
+    this.index = 0;
+    this.loopOffset = 0;
+    this.notifyStatus();
+  }
+
+  hasRecording(): boolean {
+    return this.frames.length > 0;
+  }
+
+  async connect(slot: DeviceSlot = 'main'): Promise<void> {
+    if (!this.hasRecording()) {
+      throw new Error('No recording loaded for replay');
+    }
+    this.slot = slot;
+    connectionLifecycle.transition(slot, { phase: 'connecting' });
+    this.device = new StubDevice(slot);
+    this.index = 0;
+    this.loopOffset = 0;
+    this.lastDeviceTime = 0;
+    console.log(`[Replay] Playing "${this.name}" (${this.frames.length} frames)`);
+    this.play();
+    connectionLifecycle.transition(slot, { phase: 'ready' });
+  }
+
+  disconnect(): void {
+    if (!this.device) return;
+    this.stop();
+    this.device = null;
+    connectionLifecycle.transition(this.slot, { phase: 'idle' });
+    this.disconnectCallbacks.forEach(cb => cb(this.slot));
+    this.notifyStatus();
+  }
+
+  isConnected(slot?: DeviceSlot): boolean {
+    return this.device !== null && (!slot || slot === this.slot);
+  }
+
+  async write(data: Uint8Array, slot?: DeviceSlot): Promise<void> {
+    if (!this.device || !this.isConnected(slot)) return;
+    const reply = this.device.handleText(new TextDecoder().decode(data));
+    if (reply) {
+      const json = JSON.stringify(reply);
+      setTimeout(() => this.emit(json), 10);
+    }
+  }
+
+  async read(): Promise<Uint8Array> {
+    return new Uint8Array();
+  }
+
+  subscribeToSensor(callback: SensorCallback): void {
+    this.sensorCallbacks.push(callback);
+  }
+
+  unsubscribeFromSensor(callback: SensorCallback): void {
+    this.sensorCallbacks = this.sensorCallbacks.filter(cb => cb !== callback);
+  }
+
+  onDisconnect(callback: DisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  onReconnect(): void {
+    // A replay never drops
+  }
+
+  getDevices(): DeviceStatus[] {
+    if (!this.device) return [];
+    return [{ slot: this.slot, id: 'replay', name: `Replay: ${this.name}`, connected: true, reconnecting: false, watching: false }];
+  }
+
+  async reconnectRemembered(): Promise<DeviceSlot[]> {
+    return [];
+  }
+
+  async forgetDevice(): Promise<void> {
+    // Replays are never remembered
+  }
+
+  // ---------- Playback Controls ----------
+
+  play(): void {
+    if (!this.device || this.playing) return;
+    if (this.index >= this.frames.length) this.index = 0;
+    this.playing = true;
+    this.notifyStatus();
+    this.scheduleNext(0);
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.stop();
+    this.notifyStatus();
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0.1, speed);
+    this.notifyStatus();
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+    this.notifyStatus();
+  }
+
+  // Jump to a position (ms); playback continues from the next frame after it
+  seek(position: number): void {
+    const target = this.frames.findIndex(f => f.time >= position);
+    this.index = target === -1 ? this.frames.length - 1 : target;
+    this.loopOffset = this.lastDeviceTime + this.frameSpacing() - this.frames[this.index].time;
+    if (this.playing) {
+      this.stop();
+      this.playing = true;
+      this.scheduleNext(0);
+    }
+    this.notifyStatus();
+  }
+
+  getStatus(): ReplayStatus {
+    return {
+      name: this.name,
+      playing: this.playing,
+      loop: this.loop,
+      speed: this.speed,
+      position: this.frames[Math.min(this.index, this.frames.length - 1)]?.time ?? 0,
+      duration: this.frames.length > 0 ? this.frames[this.frames.length - 1].time : 0,
+    };
+  }
+
+  onStatus(callback: ReplayStatusCallback): () => void {
+    this.statusCallbacks.push(callback);
+    return () => {
+      this.statusCallbacks = this.statusCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private stop(): void {
+    this.playing = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private scheduleNext(delayMs: number): void {
+    this.timer = setTimeout(() => this.emitFrame(), delayMs / this.speed);
+  }
+
+  private emitFrame(): void {
+    if (!this.device || !this.playing) return;
+    const frame = this.frames[this.index];
+    this.lastDeviceTime = this.loopOffset + frame.time;
+    this.emit(encodeBinaryFrame(this.device.seq++, this.lastDeviceTime, frame.values.map(toRawAdc)));
+
+    this.index++;
+    if (this.index < this.frames.length) {
+      this.scheduleNext(this.frames[this.index].time - frame.time);
+    } else if (this.loop) {
+      // Continue the device clock across the loop seam at the recording's frame spacing
+      const spacing = this.frameSpacing();
+      this.loopOffset = this.lastDeviceTime + spacing - this.frames[0].time;
+      this.index = 0;
+      this.scheduleNext(spacing);
+    } else {
+      this.stop();
+    }
+    // Position updates are cheap; listeners throttle rendering themselves
+    this.notifyStatus();
+  }
+
+  // Average time between recorded frames
+  private frameSpacing(): number {
+    const n = this.frames.length;
+    return n > 1 ? (this.frames[n - 1].time - this.frames[0].time) / (n - 1) : 50;
+  }
+
+  private emit(payload: string | Uint8Array): void {
+    this.sensorCallbacks.forEach(cb => cb(payload, this.slot));
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    this.statusCallbacks.forEach(cb => cb(status));
+  }
+}
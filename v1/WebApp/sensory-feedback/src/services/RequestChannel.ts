@@ -0,0 +1,205 @@
+import type { IBleService } from './BleService';
+import type { DeviceSlot } from './deviceSlots';
+import type { SensorPayload } from './sensorFrame';
+
+// ---------- Request/Response Channel ----------
+// Requests are written as "<COMMAND>:<data>#<id>" on the command characteristic.
+// The device answers with a notification on the sensor characteristic:
+//   {"re":<id>,"d":<any JSON>}     success
+//   {"re":<id>,"ok":1}             success without data (command acknowledgement)
+//   {"re":<id>,"err":"<message>"}  device-side error
+// Replies are matched back to their pending promise by id.
+
+export class RequestTimeoutError extends Error {
+  readonly endpoint: string;
+  readonly id: number;
+
+  constructor(endpoint: string, id: number, timeoutMs: number) {
+    super(`No reply to ${endpoint} (#${id}) within ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+    this.endpoint = endpoint;
+    this.id = id;
+  }
+}
+
+export class MalformedReplyError extends Error {
+  readonly endpoint: string;
+  readonly raw: string;
+
+  constructor(endpoint: string, raw: string) {
+    super(`Malformed reply to ${endpoint}: ${raw}`);
+    this.name = 'MalformedReplyError';
+    this.endpoint = endpoint;
+    this.raw = raw;
+  }
+}
+
+export class DeviceError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, message: string) {
+    super(`Device rejected ${endpoint}: ${message}`);
+    this.name = 'DeviceError';
+    this.endpoint = endpoint;
+  }
+}
+
+export class RequestCancelledError extends Error {
+  constructor(endpoint: string, reason: string) {
+    super(`Request ${endpoint} cancelled: ${reason}`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class RequestQueueFullError extends Error {
+  constructor(endpoint: string, limit: number) {
+    super(`Too many pending requests (${limit}) — ${endpoint} not sent`);
+    this.name = 'RequestQueueFullError';
+  }
+}
+
+export interface RequestOptions {
+  command?: string;     // defaults to "GET"
+  timeoutMs?: number;
+  slot?: DeviceSlot;    // board to ask; all connected boards when omitted (first reply wins)
+}
+
+export interface RequestChannelOptions {
+  maxConcurrent?: number;    // requests in flight at once
+  maxQueued?: number;        // requests waiting for a free slot
+  defaultTimeoutMs?: number;
+}
+
+interface PendingRequest {
+  id: number;
+  endpoint: string;
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface QueuedRequest {
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+// Cheap pre-check so sensor frames and log lines skip JSON.parse
+const REPLY_ID_PATTERN = /"re"\s*:\s*(\d+)/;
+
+export class RequestChannel {
+  private transport: IBleService;
+  private pending = new Map<number, PendingRequest>();
+  private queue: QueuedRequest[] = [];
+  private nextId = 1;
+  private maxConcurrent: number;
+  private maxQueued: number;
+  private defaultTimeoutMs: number;
+
+  constructor(transport: IBleService, options: RequestChannelOptions = {}) {
+    this.transport = transport;
+    this.maxConcurrent = options.maxConcurrent ?? 4;
+    this.maxQueued = options.maxQueued ?? 16;
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? 2000;
+
+    this.handleNotification = this.handleNotification.bind(this);
+    this.transport.subscribeToSensor(this.handleNotification);
+    this.transport.onDisconnect(() => this.cancelAll('disconnected'));
+    this.transport.onReconnect((state) => {
+      if (state === 'reconnecting') this.cancelAll('connection lost');
+    });
+  }
+
+  request<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const start = () => this.send(endpoint, options, resolve as (data: unknown) => void, reject);
+      if (this.pending.size < this.maxConcurrent) {
+        start();
+      } else if (this.queue.length < this.maxQueued) {
+        this.queue.push({ start, reject });
+      } else {
+        reject(new RequestQueueFullError(endpoint, this.maxQueued));
+      }
+    });
+  }
+
+  // Reject everything in flight or waiting (e.g. on disconnect)
+  cancelAll(reason: string): void {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(q => q.reject(new RequestCancelledError('queued request', reason)));
+    for (const req of [...this.pending.values()]) {
+      this.settle(req.id);
+      req.reject(new RequestCancelledError(req.endpoint, reason));
+    }
+  }
+
+  pendingCount(): number {
+    return this.pending.size + this.queue.length;
+  }
+
+  private send(
+    endpoint: string,
+    options: RequestOptions,
+    resolve: (data: unknown) => void,
+    reject: (error: Error) => void,
+  ): void {
+    const id = this.nextId;
+    this.nextId = this.nextId >= 0xFFFFFF ? 1 : this.nextId + 1;
+    const timeoutMs = options.timeoutMs ?? this.defaultTimeoutMs;
+
+    const req: PendingRequest = { id, endpoint, resolve, reject, timer: null };
+    req.timer = setTimeout(() => {
+      this.settle(id);
+      reject(new RequestTimeoutError(endpoint, id, timeoutMs));
+    }, timeoutMs);
+    this.pending.set(id, req);
+
+    const command = `${options.command ?? 'GET'}:${endpoint}#${id}`;
+    this.transport.write(new TextEncoder().encode(command), options.slot).catch((err: Error) => {
+      if (!this.pending.has(id)) return;
+      this.settle(id);
+      reject(err);
+    });
+  }
+
+  // Remove a request from the pending table and let a queued one start
+  private settle(id: number): void {
+    const req = this.pending.get(id);
+    if (!req) return;
+    if (req.timer) clearTimeout(req.timer);
+    this.pending.delete(id);
+    const next = this.queue.shift();
+    if (next) next.start();
+  }
+
+  private handleNotification(payload: SensorPayload): void {
+    if (typeof payload !== 'string') return;
+    const match = REPLY_ID_PATTERN.exec(payload);
+    if (!match) return;
+
+    const id = Number(match[1]);
+    const req = this.pending.get(id);
+    if (!req) {
+      console.debug(`[Request] Reply #${id} arrived after timeout or for unknown request`);
+      return;
+    }
+    this.settle(id);
+
+    let reply: { re?: unknown; d?: unknown; ok?: unknown; err?: unknown };
+    try {
+      reply = JSON.parse(payload);
+    } catch {
+      req.reject(new MalformedReplyError(req.endpoint, payload));
+      return;
+    }
+    if (typeof reply.err === 'string') {
+      req.reject(new DeviceError(req.endpoint, reply.err));
+    } else if ('d' in reply) {
+      req.resolve(reply.d);
+    } else if (reply.ok === 1) {
+      req.resolve(undefined);
+    } else {
+      req.reject(new MalformedReplyError(req.endpoint, payload));
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/// <reference types="w3c-web-serial" />
+import type { DeviceStatus, DisconnectCallback, IBleService, SensorCallback } from './BleService';
+import type { DeviceSlot } from './deviceSlots';
+import { forgetDevice as forgetRemembered, getRememberedDevices, rememberDevice } from './deviceRegistry';
+import { connectionLifecycle, stateForError } from './connectionLifecycle';
+
+// ---------- Web Serial Transport ----------
+// Same command/notification protocol as BLE, over the ESP32's USB serial port.
+// Both directions are newline-delimited text: the app writes "COMMAND:data\n",
+// the board prints one JSON message per line. "HOST:1" switches the firmware
+// into serial-host mode (JSON sensor lines instead of binary BLE frames).
+// Anything that isn't JSON is the firmware's debug output and is only logged.
+
+const BAUD_RATE = 115200;
+
+// Opening the port pulses DTR/RTS, which resets most ESP32 dev boards, so the
+// first HOST:1 may be lost during boot — repeat it until a JSON line arrives
+const HOST_ANNOUNCE_INTERVAL_MS = 1000;
+const HOST_ANNOUNCE_TRIES = 5;
+
+// USB-serial bridges found on ESP32 dev boards (CP210x, CH340, native USB)
+const USB_FILTERS: SerialPortFilter[] = [
+  { usbVendorId: 0x10c4 },
+  { usbVendorId: 0x1a86 },
+  { usbVendorId: 0x303a },
+];
+
+// Ports have no stable id; vendor/product is the best we can remember them by
+function portId(port: SerialPort): string {
+  const info = port.getInfo();
+  return `serial-${(info.usbVendorId ?? 0).toString(16)}-${(info.usbProductId ?? 0).toString(16)}`;
+}
+
+export class SerialTransport implements IBleService {
+  private port: SerialPort | null = null;
+  private reader: ReadableStreamDefaultReader<string> | null = null;
+  private readLoopDone: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private slot: DeviceSlot = 'main';
+  private connected = false;
+  private closing = false;
+  private announceTimer: ReturnType<typeof setInterval> | null = null;
+  private sensorCallbacks: SensorCallback[] = [];
+  private disconnectCallbacks: DisconnectCallback[] = [];
+
+  static isAvailable(): boolean {
+    return typeof navigator !== 'undefined' && 'serial' in navigator;
+  }
+
+  // A USB cable carries one board; slot says which foot it serves
+  async connect(slot: DeviceSlot = 'main'): Promise<void> {
+    if (!SerialTransport.isAvailable()) {
+      throw new Error('Web Serial API is not available in this browser.');
+    }
+    console.log('Requesting Serial Port...');
+    connectionLifecycle.transition(slot, { phase: 'requesting' });
+    let port: SerialPort;
+    try {
+      port = await navigator.serial.requestPort({ filters: USB_FILTERS });
+    } catch (error) {
+      connectionLifecycle.transition(slot, stateForError(error));
+      throw error;
+    }
+    await this.open(port, slot);
+  }
+
+  disconnect(): void {
+    if (!this.port) return;
+    this.closing = true;
+    this.close().finally(() => {
+      this.closing = false;
+      connectionLifecycle.transition(this.slot, { phase: 'idle' });
+      this.disconnectCallbacks.forEach(cb => cb(this.slot));
+    });
+  }
+
+  isConnected(slot?: DeviceSlot): boolean {
+    return this.connected && (!slot || slot === this.slot);
+  }
+
+  // Writes are chained so concurrent commands don't interleave on the wire
+  async write(data: Uint8Array, slot?: DeviceSlot): Promise<void> {
+    if (!this.isConnected(slot) || !this.port?.writable) {
+      throw new Error('Not connected');
+    }
+    const line = new Uint8Array(data.length + 1);
+    line.set(data);
+    line[data.length] = 0x0A;  // '\n'
+
+    const port = this.port;
+    // The caller sees the failure; the queue carries on with the next write
+    const result = this.writeQueue.then(async () => {
+      const writer = port.writable!.getWriter();
+      try {
+        await writer.write(line);
+      } finally {
+        writer.releaseLock();
+      }
+    });
+    this.writeQueue = result.catch(err => console.error('[Serial] Write failed', err));
+    return result;
+  }
+
+  async read(): Promise<Uint8Array> {
+    // No readable characteristic over serial; values come as notifications
+    return new Uint8Array();
+  }
+
+  subscribeToSensor(callback: SensorCallback): void {
+    this.sensorCallbacks.push(callback);
+  }
+
+  unsubscribeFromSensor(callback: SensorCallback): void {
+    this.sensorCallbacks = this.sensorCallbacks.filter(cb => cb !== callback);
+  }
+
+  onDisconnect(callback: DisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  onReconnect(): void {
+    // A dropped USB link needs the cable replugged; nothing to retry here
+  }
+
+  getDevices(): DeviceStatus[] {
+    if (!this.port) return [];
+    return [{
+      slot: this.slot,
+      id: portId(this.port),
+      name: 'ESP32 (USB)',
+      connected: this.connected,
+      reconnecting: false,
+      watching: false,
+    }];
+  }
+
+  async reconnectRemembered(): Promise<DeviceSlot[]> {
+    if (!SerialTransport.isAvailable() || this.connected) return [];
+    const remembered = getRememberedDevices();
+    // Ports granted in an earlier session are returned without a prompt
+    const ports = await navigator.serial.getPorts();
+    for (const entry of remembered) {
+      const port = ports.find(p => portId(p) === entry.id);
+      if (!port) continue;
+      try {
+        await this.open(port, entry.slot);
+        return [entry.slot];
+      } catch (err) {
+        console.log(`[Serial] Remembered port ${entry.label} unavailable:`, err);
+      }
+    }
+    return [];
+  }
+
+  async forgetDevice(id: string): Promise<void> {
+    forgetRemembered(id);
+    if (this.port && portId(this.port) === id) this.disconnect();
+    const ports = SerialTransport.isAvailable() ? await navigator.serial.getPorts() : [];
+    await ports.find(p => portId(p) === id)?.forget?.();
+  }
+
+  private async open(port: SerialPort, slot: DeviceSlot): Promise<void> {
+    if (this.port) await this.close();
+    console.log(`[Serial] Opening port at ${BAUD_RATE} baud...`);
+    connectionLifecycle.transition(slot, { phase: 'connecting' });
+    try {
+      await port.open({ baudRate: BAUD_RATE });
+    } catch (error) {
+      connectionLifecycle.transition(slot, stateForError(error));
+      throw error;
+    }
+    this.port = port;
+    this.slot = slot;
+    this.connected = true;
+    this.writeQueue = Promise.resolve();
+    this.readLoopDone = this.readLoop(port);
+
+    await this.announceHost();
+    console.log('[Serial] Connected!');
+    connectionLifecycle.transition(slot, { phase: 'ready' });
+    rememberDevice({ id: portId(port), name: 'ESP32 (USB)', slot });
+  }
+
+  private async announceHost(): Promise<void> {
+    this.stopAnnouncing();
+    let tries = 1;
+    this.announceTimer = setInterval(() => {
+      if (tries++ >= HOST_ANNOUNCE_TRIES) {
+        console.warn('[Serial] Board is not answering — is the firmware up to date?');
+        this.stopAnnouncing();
+        return;
+      }
+      this.write(new TextEncoder().encode('HOST:1')).catch(() => {});
+    }, HOST_ANNOUNCE_INTERVAL_MS);
+    await this.write(new TextEncoder().encode('HOST:1'));
+  }
+
+  private stopAnnouncing(): void {
+    if (this.announceTimer) clearInterval(this.announceTimer);
+    this.announceTimer = null;
+  }
+
+  private async close(): Promise<void> {
+    const port = this.port;
+    if (!port) return;
+    this.stopAnnouncing();
+    if (this.connected) {
+      // Let the firmware fall back to BLE-only output
+      await this.write(new TextEncoder().encode('HOST:0')).catch(() => {});
+    }
+    this.connected = false;
+    await this.reader?.cancel().catch(() => {});
+    await this.readLoopDone;
+    await port.close().catch(err => console.warn('[Serial] Close failed', err));
+    this.port = null;
+  }
+
+  // Split the byte stream into lines and hand JSON lines to subscribers
+  private async readLoop(port: SerialPort): Promise<void> {
+    const decoder = new TextDecoderStream();
+    const pipeDone = port.readable!.pipeTo(decoder.writable as WritableStream<Uint8Array>).catch(() => {});
+    this.reader = decoder.readable.getReader();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { value, done } = await this.reader.read();
+        if (done) break;
+        buffer += value;
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          this.handleLine(line);
+        }
+      }
+    } catch (err) {
+      console.warn('[Serial] Read failed', err);
+    } finally {
+      this.reader.releaseLock();
+      this.reader = null;
+      await pipeDone;
+    }
+
+    // Stream ended without disconnect(): cable pulled or board reset
+    if (this.connected && !this.closing) {
+      console.log('[Serial] Port lost');
+      this.stopAnnouncing();
+      this.connected = false;
+      await port.close().catch(() => {});
+      this.port = null;
+      connectionLifecycle.transition(this.slot, { phase: 'failed', reason: 'USB port lost (cable unplugged or board reset)' });
+      this.disconnectCallbacks.forEach(cb => cb(this.slot));
+    }
+  }
+
+  private handleLine(line: string): void {
+    if (line.startsWith('{') || line.startsWith('[')) {
+      this.stopAnnouncing();
+      this.sensorCallbacks.forEach(cb => cb(line, this.slot));
+    } else if (line) {
+      console.debug(`[Serial] ${line}`);
+    }
+  }
+}
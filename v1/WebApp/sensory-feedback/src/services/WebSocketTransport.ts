@@ -0,0 +1,207 @@
+import type {
+  DeviceStatus, DisconnectCallback, IBleService, ReconnectCallback, SensorCallback,
+} from './BleService';
+import type { DeviceSlot } from './deviceSlots';
+import { forgetDevice as forgetRemembered, getRememberedDevices, rememberDevice } from './deviceRegistry';
+import { connectionLifecycle, stateForError } from './connectionLifecycle';
+import { getReconnectPolicy, nextReconnectDelay, reconnectExhausted, reconnectMetrics } from './reconnectPolicy';
+
+// ---------- WebSocket Relay Transport ----------
+// Talks to a relay (relay/server.ts) that sits next to the insole, e.g. on a
+// bench PC with the board on USB. One WebSocket message per protocol message:
+//   app → relay: command text, "COMMAND:data[#id]"
+//   relay → app: JSON text (replies, log, heartbeat, JSON sensor lines)
+//                or a binary sensor frame
+// Payloads reach EspApi exactly as they would from BLE.
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+const relayDeviceId = (url: string) => `relay-${url}`;
+
+export class WebSocketTransport implements IBleService {
+  private getUrl: () => string;
+  private socket: WebSocket | null = null;
+  private url = '';
+  private slot: DeviceSlot = 'main';
+  private manualDisconnect = false;
+  private reconnecting = false;
+  private sensorCallbacks: SensorCallback[] = [];
+  private disconnectCallbacks: DisconnectCallback[] = [];
+  private reconnectCallbacks: ReconnectCallback[] = [];
+
+  // getUrl is read on every connect so the relay address can change between sessions
+  constructor(getUrl: () => string) {
+    this.getUrl = getUrl;
+    this.handleMessage = this.handleMessage.bind(this);
+    this.handleClose = this.handleClose.bind(this);
+  }
+
+  async connect(slot: DeviceSlot = 'main'): Promise<void> {
+    this.slot = slot;
+    this.url = this.getUrl();
+    this.manualDisconnect = false;
+    console.log(`[Relay] Connecting to ${this.url}...`);
+    connectionLifecycle.transition(slot, { phase: 'connecting' });
+    try {
+      await this.open();
+    } catch (error) {
+      connectionLifecycle.transition(slot, stateForError(error));
+      throw error;
+    }
+    console.log('[Relay] Connected!');
+    connectionLifecycle.transition(slot, { phase: 'ready' });
+    rememberDevice({ id: relayDeviceId(this.url), name: `Relay ${new URL(this.url).host}`, slot });
+  }
+
+  disconnect(): void {
+    this.manualDisconnect = true;
+    this.reconnecting = false;
+    this.socket?.close();
+  }
+
+  isConnected(slot?: DeviceSlot): boolean {
+    return this.socket?.readyState === WebSocket.OPEN && (!slot || slot === this.slot);
+  }
+
+  async write(data: Uint8Array, slot?: DeviceSlot): Promise<void> {
+    if (!this.isConnected(slot)) {
+      throw new Error('Not connected');
+    }
+    this.socket!.send(new TextDecoder().decode(data));
+  }
+
+  async read(): Promise<Uint8Array> {
+    // Nothing to read directly; values come as messages
+    return new Uint8Array();
+  }
+
+  subscribeToSensor(callback: SensorCallback): void {
+    this.sensorCallbacks.push(callback);
+  }
+
+  unsubscribeFromSensor(callback: SensorCallback): void {
+    this.sensorCallbacks = this.sensorCallbacks.filter(cb => cb !== callback);
+  }
+
+  onDisconnect(callback: DisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  onReconnect(callback: ReconnectCallback): void {
+    this.reconnectCallbacks.push(callback);
+  }
+
+  getDevices(): DeviceStatus[] {
+    if (!this.socket && !this.reconnecting) return [];
+    return [{
+      slot: this.slot,
+      id: relayDeviceId(this.url),
+      name: `Relay ${this.url}`,
+      connected: this.isConnected(),
+      reconnecting: this.reconnecting,
+      watching: false,
+    }];
+  }
+
+  // No chooser to skip here; just reconnect if the current relay was used before
+  async reconnectRemembered(): Promise<DeviceSlot[]> {
+    if (this.isConnected()) return [];
+    const entry = getRememberedDevices().find(d => d.id === relayDeviceId(this.getUrl()));
+    if (!entry) return [];
+    try {
+      await this.connect(entry.slot);
+      return [entry.slot];
+    } catch (err) {
+      console.log('[Relay] Remembered relay unavailable:', err);
+      return [];
+    }
+  }
+
+  async forgetDevice(id: string): Promise<void> {
+    forgetRemembered(id);
+    if (this.socket && relayDeviceId(this.url) === id) this.disconnect();
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.binaryType = 'arraybuffer';
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error(`Relay at ${this.url} did not answer`));
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        socket.onmessage = this.handleMessage;
+        socket.onclose = this.handleClose;
+        resolve();
+      };
+      socket.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error(`Could not reach relay at ${this.url}`));
+      };
+    });
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    const payload = typeof event.data === 'string' ? event.data : new Uint8Array(event.data as ArrayBuffer);
+    this.sensorCallbacks.forEach(cb => cb(payload, this.slot));
+  }
+
+  private handleClose(): void {
+    this.socket = null;
+    console.log('[Relay] Closed', this.manualDisconnect ? '(manual)' : '(unexpected)');
+    if (this.manualDisconnect) {
+      connectionLifecycle.transition(this.slot, { phase: 'idle' });
+      this.disconnectCallbacks.forEach(cb => cb(this.slot));
+      return;
+    }
+    this.attemptReconnect();
+  }
+
+  // Follows the reconnect policy; a relay has nothing to watch, so no passive mode
+  private async attemptReconnect(): Promise<void> {
+    if (this.reconnecting) return;
+    const policy = getReconnectPolicy();
+    const startedAt = Date.now();
+    this.reconnecting = true;
+    reconnectMetrics.recordDrop(this.slot);
+    this.reconnectCallbacks.forEach(cb => cb('reconnecting', this.slot));
+
+    let attempt = 1;
+    for (; !reconnectExhausted(policy, attempt, startedAt); attempt++) {
+      connectionLifecycle.transition(this.slot, {
+        phase: 'reconnecting', attempt, maxAttempts: policy.maxAttempts,
+      });
+      await new Promise(r => setTimeout(r, nextReconnectDelay(policy, attempt)));
+      if (this.manualDisconnect) {
+        this.reconnecting = false;
+        connectionLifecycle.transition(this.slot, { phase: 'idle' });
+        this.disconnectCallbacks.forEach(cb => cb(this.slot));
+        return;
+      }
+      try {
+        reconnectMetrics.recordAttempt();
+        await this.open();
+        console.log('[Relay] Reconnected');
+        this.reconnecting = false;
+        connectionLifecycle.transition(this.slot, { phase: 'ready' });
+        reconnectMetrics.recordRecovered(this.slot, false);
+        this.reconnectCallbacks.forEach(cb => cb('reconnected', this.slot));
+        return;
+      } catch (err) {
+        console.warn(`[Relay] Reconnect attempt ${attempt} failed:`, err);
+      }
+    }
+
+    this.reconnecting = false;
+    connectionLifecycle.transition(this.slot, {
+      phase: 'failed', reason: `Relay unreachable after ${attempt - 1} reconnect attempts`,
+    });
+    reconnectMetrics.recordGaveUp(this.slot);
+    this.reconnectCallbacks.forEach(cb => cb('failed', this.slot));
+    this.disconnectCallbacks.forEach(cb => cb(this.slot));
+  }
+}
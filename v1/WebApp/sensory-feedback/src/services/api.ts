@@ -1,5 +1,20 @@
-import { bleService } from './BleService';
-import { config } from '../config';
+import type { DeviceStatus, ReconnectState } from './BleService';
+import { bleService } from './transport';
+import type { TransportKind } from '../config';
+import { DeviceError, RequestCancelledError, RequestChannel } from './RequestChannel';
+import { ACK_PROTOCOL_VERSION, CommandChannel, type CommandOptions } from './CommandChannel';
+import { decodeBinaryFrame, SensorFrameParser, type DecodedFrame, type FrameGap, type FrameStats, type SensorPayload } from './sensorFrame';
+import { routeChannel, splitChannels, SLOT_CHANNELS, type DeviceSlot } from './deviceSlots';
+import { FrameMerger, type MergedFrame } from './frameMerger';
+import { sensorStream, type SensorFrame, type SensorFrameListener } from './sensorStream';
+import { legacyFirmwareInfo, parseHello, PROTOCOL_VERSION, type FirmwareInfo } from './firmwareInfo';
+import { reconnectMetrics } from './reconnectPolicy';
+import { LinkMonitor, type LinkStats } from './linkMonitor';
+import { diagHistory } from './diagHistory';
+import { gaitEvents, type Foot, type FootPhase, type GaitEventListener } from './gaitEvents';
+import { freezeMonitor, type FreezeListener, type FreezeStatus } from './freezeDetector';
+import { getSignalPipeline, onSignalPipelineChange, SignalPipeline } from './signalPipeline';
+import { applyCalibration, fullScaleLevel, getSensorCalibration, setSensorCalibration, type SensorCalibration } from './calibration';
 
 // Types defined in the API Spec
 export interface SensorData {
@@ -25,8 +40,131 @@ export const BleEndpoints = {
   MODE: 'MODE',
   SENSITIVITY: 'SENSITIVITY',
   GETLOG: 'GETLOG',
+  STATE: 'STATE',
+  HELLO: 'HELLO',
 } as const;
 
+// ---------- Device State Snapshot ----------
+// Answer to GET:STATE. All levels are converted to the app's 0-100 range.
+// Per-sensor arrays use global sensor indices (RF, LF, RB, LB); with per-shoe
+// boards, channels whose board is not connected hold NaN.
+export interface DeviceState {
+  mode: AudioMode;
+  power: boolean;
+  volume: number;              // master volume 0-100
+  sensorVolumes: number[];     // per-sensor max volume 0-100
+  thresholds: number[];        // per-sensor activation threshold 0-100
+  sensitivity: number | null;  // slider 0-100, null until set since boot
+  calibration: number[];       // per-sensor baseline 0-100
+  fullScale: number[];         // per-sensor level the board reads as full load 0-100; NaN before CALIBRATE_SPAN firmware
+  battery: number | null;      // percent, null if the board has no fuel gauge
+}
+
+// Wire format (compact keys, raw ADC units for thresholds/baselines/spans):
+// {"m":0,"on":1,"vol":100,"sv":[..],"thr":[..],"sens":75,"cal":[..],"span":[..],"bat":-1}
+interface RawDeviceState {
+  m: number;
+  on: number;
+  vol: number;
+  sv: number[];
+  thr: number[];
+  sens: number;
+  cal: number[];
+  span?: number[];
+  bat: number;
+}
+
+const adcToPercent = (v: number) => Math.round((v / 4095) * 1000) / 10;
+
+// Spread a board's local channel values onto global sensor indices
+function toGlobalChannels(slot: DeviceSlot, local: number[], into: number[]): void {
+  SLOT_CHANNELS[slot].forEach((globalIndex, i) => {
+    if (local[i] !== undefined) into[globalIndex] = local[i];
+  });
+}
+
+function parseDeviceStates(replies: [DeviceSlot, RawDeviceState][]): DeviceState {
+  const sensorVolumes = [NaN, NaN, NaN, NaN];
+  const thresholds = [NaN, NaN, NaN, NaN];
+  const calibration = [NaN, NaN, NaN, NaN];
+  const fullScale = [NaN, NaN, NaN, NaN];
+  let battery: number | null = null;
+
+  for (const [slot, raw] of replies) {
+    if (typeof raw !== 'object' || raw === null || !Array.isArray(raw.sv) || !Array.isArray(raw.thr)) {
+      throw new Error(`Unexpected STATE reply from ${slot}: ${JSON.stringify(raw)}`);
+    }
+    toGlobalChannels(slot, raw.sv, sensorVolumes);
+    toGlobalChannels(slot, raw.thr.map(adcToPercent), thresholds);
+    toGlobalChannels(slot, (raw.cal || []).map(adcToPercent), calibration);
+    toGlobalChannels(slot, (raw.span || []).map(adcToPercent), fullScale);
+    // Weakest battery is the one that matters
+    if (raw.bat >= 0) battery = battery === null ? raw.bat : Math.min(battery, raw.bat);
+  }
+
+  // Scalar settings are broadcast to every board; report the first one
+  const first = replies[0][1];
+  return {
+    mode: first.m === 1 ? 1 : 0,
+    power: first.on === 1,
+    volume: first.vol,
+    sensorVolumes,
+    thresholds,
+    sensitivity: first.sens >= 0 ? first.sens : null,
+    calibration,
+    fullScale,
+    battery,
+  };
+}
+
+let rememberedReconnect: Promise<DeviceSlot[]> | null = null;
+
+function connectedSlots(): DeviceSlot[] {
+  return bleService.getDevices().filter(d => d.connected).map(d => d.slot);
+}
+
+// Fresh connection(s): forget stale sequence/clock state and make sure frames are decoded
+function startStreams(slots: DeviceSlot[]): void {
+  for (const slot of slots) {
+    frameParsers.get(slot)?.reset();
+    frameMerger.reset(slot);
+  }
+  // Re-subscribing the same handler on every connect would decode each frame twice
+  bleService.unsubscribeFromSensor(handleSensorPayload);
+  bleService.subscribeToSensor(handleSensorPayload);
+  startLinkMonitor();
+}
+
+// ---------- Firmware Handshake ----------
+// What each connected board told us in its HELLO reply (see firmwareInfo.ts)
+type FirmwareInfoCallback = (info: FirmwareInfo[]) => void;
+const firmwareInfo = new Map<DeviceSlot, FirmwareInfo>();
+const firmwareInfoCallbacks: FirmwareInfoCallback[] = [];
+const HELLO_TIMEOUT_MS = 1500;
+
+function notifyFirmwareInfo(): void {
+  const info = [...firmwareInfo.values()];
+  firmwareInfoCallbacks.forEach(cb => cb(info));
+}
+
+// Runs on every connect and reconnect; boards that don't know HELLO
+// (or don't answer at all) get the legacy command set
+async function handshake(slot: DeviceSlot): Promise<void> {
+  let info: FirmwareInfo;
+  try {
+    info = parseHello(slot, await requestChannel.request(BleEndpoints.HELLO, { slot, timeoutMs: HELLO_TIMEOUT_MS }));
+  } catch (err) {
+    if (err instanceof RequestCancelledError) return;  // link dropped again meanwhile
+    if (!(err instanceof DeviceError)) console.warn(`[${slot}] No HELLO reply, assuming legacy firmware:`, err);
+    info = legacyFirmwareInfo(slot);
+  }
+  if (!info.compatible) {
+    console.warn(`[${slot}] Firmware speaks protocol ${info.protocol}, app supports up to ${PROTOCOL_VERSION}`);
+  }
+  firmwareInfo.set(slot, info);
+  notifyFirmwareInfo();
+}
+
 // ---------- Diagnostic Log ----------
 // Collected from ESP32 via GETLOG command after reconnection.
 // Events stored in ring buffer on ESP32 survive BLE disconnects.
@@ -38,270 +176,464 @@ export interface DiagnosticEvent {
 }
 
 type DiagLogCallback = (events: DiagnosticEvent[]) => void;
-let diagLogBuffer: DiagnosticEvent[] = [];
-let diagLogExpectedCount = 0;
-let diagLogCallbacks: DiagLogCallback[] = [];
-let diagLogCollecting = false;
-
-// Helper class for simulation state
-class SensorSimulator {
-  private tick: number = 0;
-  private readonly updateSpeed: number = 0.15; // Speed of the walking cycle
-
-  constructor(_count: number) {
-    // 
+let diagLogBuffer: DiagnosticEvent[] = [];  // last complete log, from any board
+const diagLogCallbacks: DiagLogCallback[] = [];
+// Each board's log is collected on its own, so GETLOGs to several boards can overlap
+const diagLogIncoming = new Map<DeviceSlot, DiagnosticEvent[]>();
+const diagLogRequests = new Map<DeviceSlot, DiagLogCallback[]>();  // waiting requestDiagLog calls
+
+// Latest millis() per board and when it arrived, to anchor diag logs to wall-clock time
+const boardClocks = new Map<DeviceSlot, { millis: number; at: number }>();
+
+function boardMillisNow(slot: DeviceSlot): number | null {
+  const clock = boardClocks.get(slot);
+  return clock ? clock.millis + (Date.now() - clock.at) : null;
+}
+
+// Filters and curves applied to the calibrated levels (see signalPipeline.ts)
+let signalPipeline = new SignalPipeline(getSignalPipeline());
+onSignalPipelineChange(config => {
+  signalPipeline = new SignalPipeline(config);
+});
+
+// Correlated request/response on top of the BLE transport (see RequestChannel.ts)
+const requestChannel = new RequestChannel(bleService);
+
+// Settings go out as acknowledged, retried commands (see CommandChannel.ts)
+const commandChannel = new CommandChannel(requestChannel, {
+  connectedSlots,
+  acknowledges: (slot) => (firmwareInfo.get(slot)?.protocol ?? 0) >= ACK_PROTOCOL_VERSION,
+  writeUnacked: (command, slot) => bleService.write(new TextEncoder().encode(command), slot),
+});
+
+// ---------- Link Monitor ----------
+// Frame rate, gaps, stalls and PING latency per board (see linkMonitor.ts);
+// runs while any board is connected or reconnecting
+type LinkStatsCallback = (stats: LinkStats[]) => void;
+const linkMonitor = new LinkMonitor();
+let linkStatsCallbacks: LinkStatsCallback[] = [];
+let linkStats: LinkStats[] = [];
+let linkTimer: ReturnType<typeof setInterval> | null = null;
+let linkTicks = 0;
+const LINK_REPORT_MS = 1000;
+const PING_EVERY_TICKS = 5;
+const PING_TIMEOUT_MS = 2000;
+
+function startLinkMonitor(): void {
+  if (linkTimer) return;
+  linkTicks = 0;
+  linkTimer = setInterval(tickLinkMonitor, LINK_REPORT_MS);
+}
+
+function tickLinkMonitor(): void {
+  const live = bleService.getDevices().filter(d => d.connected || d.reconnecting);
+  if (live.length === 0) {
+    clearInterval(linkTimer!);
+    linkTimer = null;
+    linkMonitor.reset();
+  } else if (linkTicks++ % PING_EVERY_TICKS === 0) {
+    live.filter(d => d.connected).forEach(d => pingSlot(d.slot));
   }
+  linkStats = linkMonitor.snapshot();
+  linkStatsCallbacks.forEach(cb => cb(linkStats));
+}
 
-  getNextValues(): number[] {
-    this.tick += this.updateSpeed;
-
-    // Simulate Walking Gait
-    // Cycle: 0 to 2PI
-    
-    // Right Foot (0: RF, 2: RB) - Phase 0
-    // Left Foot  (1: LF, 3: LB) - Phase PI
-    
-    // Within a foot: Heel (Back) strikes first, then Toe (Front)
-    // Front is slightly delayed relative to Back
-    
-    const rightPhase = this.tick;
-    const leftPhase = this.tick + Math.PI;
-    
-    // Function to calculate pressure based on phase
-    // returns 0-100
-    const calcPressure = (phase: number, offset: number) => {
-      // Use sine wave, normalize to 0-1, clip negative values (foot in air)
-      // Raise to power to make peak narrower (sharper impact)
-      const val = Math.sin(phase + offset);
-      return val > 0 ? Math.pow(val, 2) * 100 : 0;
-    };
+// Pre-handshake firmware never answers GET, so it isn't pinged
+async function pingSlot(slot: DeviceSlot): Promise<void> {
+  if ((firmwareInfo.get(slot)?.protocol ?? 0) < 1) return;
+  const start = performance.now();
+  try {
+    await requestChannel.request(BleEndpoints.PING, { slot, timeoutMs: PING_TIMEOUT_MS });
+    linkMonitor.recordLatency(slot, performance.now() - start);
+  } catch (err) {
+    if (!(err instanceof RequestCancelledError)) linkMonitor.recordLatency(slot, null);
+  }
+}
+
+// ---------- Sensor Frame Decoding ----------
+// Each board has its own sequence counter; frames from per-shoe boards are
+// time-aligned and merged into one 4-channel frame (see frameMerger.ts)
+export type FrameGapCallback = (gap: FrameGap, slot: DeviceSlot) => void;
+let frameGapCallbacks: FrameGapCallback[] = [];
+const frameParsers = new Map<DeviceSlot, SensorFrameParser>();
+
+function parserFor(slot: DeviceSlot): SensorFrameParser {
+  let parser = frameParsers.get(slot);
+  if (!parser) {
+    parser = new SensorFrameParser((gap) => {
+      if (gap.kind === 'lost') {
+        console.warn(`[Frames ${slot}] Lost ${gap.count} frame(s): expected #${gap.expected}, got #${gap.received}`);
+      } else {
+        console.warn(`[Frames ${slot}] Out-of-order frame #${gap.received} (expected #${gap.expected}) dropped`);
+      }
+      frameGapCallbacks.forEach(cb => cb(gap, slot));
+    });
+    frameParsers.set(slot, parser);
+  }
+  return parser;
+}
+
+const frameMerger = new FrameMerger(applyMergedFrame);
+
+// Device may have rebooted while we were away — start sequence tracking over
+bleService.onReconnect((state, slot) => {
+  if (state === 'reconnected') {
+    frameParsers.get(slot)?.reset();
+    frameMerger.reset(slot);
+    boardClocks.delete(slot);
+    // Could be a different firmware after a reboot or reflash
+    handshake(slot);
+  }
+});
+bleService.onDisconnect((slot) => {
+  frameMerger.reset(slot);
+  linkMonitor.reset(slot);
+  boardClocks.delete(slot);
+  if (firmwareInfo.delete(slot)) notifyFirmwareInfo();
+});
 
-    // Offsets
-    // Back sensor peaks earlier -> 0 offset
-    // Front sensor peaks later -> 0.5 offset (roughly 1/6 of cycle? PI/6 is approx 0.5)
-    
-    const rb = calcPressure(rightPhase, 0);       // Right Back
-    const rf = calcPressure(rightPhase, -0.6);    // Right Front (delayed)
-    
-    const lb = calcPressure(leftPhase, 0);        // Left Back
-    const lf = calcPressure(leftPhase, -0.6);     // Left Front (delayed)
-
-    // Add some random noise
-    const noise = () => (Math.random() - 0.5) * 5;
-
-    // Map to id: 0=RF, 1=LF, 2=RB, 3=LB
-    return [
-      Math.max(0, Math.min(100, rf + noise())),
-      Math.max(0, Math.min(100, lf + noise())),
-      Math.max(0, Math.min(100, rb + noise())),
-      Math.max(0, Math.min(100, lb + noise())),
-    ];
+function applySensorFrame(frame: DecodedFrame, slot: DeviceSlot): void {
+  linkMonitor.recordFrame(slot);
+  boardClocks.set(slot, { millis: frame.deviceTime, at: Date.now() });
+  if (!parserFor(slot).accept(frame)) return;
+  frameMerger.push(slot, frame);
+}
+
+function applyMergedFrame(frame: MergedFrame): void {
+  const normalized = frame.values.map(amplitude => Math.min(100, (amplitude / 4095) * 100));
+  const calibrated = applyCalibration(normalized, getSensorCalibration());
+  sensorStream.publish({
+    deviceTime: frame.time,
+    receivedAt: performance.now(),
+    raw: frame.values,
+    normalized,
+    calibrated,
+    processed: signalPipeline.process(calibrated, frame.time),
+    sources: frame.sources,
+  });
+}
+
+function handleJsonMessage(jsonString: string, slot: DeviceSlot): void {
+  const parsed = JSON.parse(jsonString);
+  // Request replies are matched to their promise by RequestChannel
+  if (parsed.re !== undefined) return;
+  // Heartbeat from ESP32 (sent when loop() is stalled): keeps BLE alive,
+  // carries no sensor data, but tells the link monitor the board is stuck
+  if (parsed.hb !== undefined) {
+    console.debug('BLE heartbeat received');
+    linkMonitor.recordHeartbeat(slot);
+    return;
+  }
+  // Diagnostic log messages from GETLOG command
+  if (parsed.log !== undefined) {
+    if (parsed.log === 'start') {
+      diagLogIncoming.set(slot, []);
+      console.log(`[DiagLog] Receiving ${parsed.n || 0} events from ${slot}...`);
+    } else if (parsed.log === 'evt') {
+      diagLogIncoming.get(slot)?.push({
+        index: parsed.i,
+        timestamp: parsed.t,
+        event: parsed.e,
+        value: parsed.v,
+      });
+    } else if (parsed.log === 'end') {
+      const events = diagLogIncoming.get(slot);
+      if (!events) return;
+      diagLogIncoming.delete(slot);
+      diagLogBuffer = events;
+      console.log(`[DiagLog] Received ${diagLogBuffer.length} events`);
+      console.table(diagLogBuffer);
+      const source = {
+        device: bleService.getDevices().find(d => d.slot === slot)?.name ?? null,
+        firmware: firmwareInfo.get(slot)?.firmware ?? null,
+      };
+      diagHistory.record(slot, source, [...diagLogBuffer], boardMillisNow(slot))
+        .catch(error => console.error('[DiagLog] Failed to store history:', error));
+      const requests = diagLogRequests.get(slot) ?? [];
+      diagLogRequests.delete(slot);
+      requests.forEach(cb => cb([...events]));
+      diagLogCallbacks.forEach(cb => cb([...events]));
+    }
+    return;
+  }
+  // JSON fallback: {"t":millis,"s":[val0,val1,val2,val3]} (optional "n" sequence)
+  if (parsed.s && Array.isArray(parsed.s)) {
+    applySensorFrame({
+      seq: typeof parsed.n === 'number' ? parsed.n : null,
+      deviceTime: Number(parsed.t) || 0,
+      values: parsed.s.map(Number),
+      format: 'json',
+    }, slot);
+  } else if (Array.isArray(parsed)) {
+    // Legacy format: [{"id":0,"data":[{"time":"...","amplitude":1234}]},...]
+    const values: number[] = [];
+    parsed.forEach((item: { id: number; data: { amplitude: number | string }[] }) => {
+      const last = item.data[item.data.length - 1];
+      if (last) values[item.id] = Number(last.amplitude);
+    });
+    applySensorFrame({ seq: null, deviceTime: 0, values: Array.from(values, v => v ?? 0), format: 'legacy' }, slot);
   }
 }
 
-const simulator = new SensorSimulator(4);
-let latestSensorData: Sensors = [];
-// Raw normalized values (0-100) before calibration subtraction - used for calibration
-let latestRawNormalized: number[] = [0, 0, 0, 0];
-// Calibration baselines stored in normalized 0-100 range for display adjustment
-let calibrationBaselines: number[] = [0, 0, 0, 0];
+function handleSensorPayload(payload: SensorPayload, slot: DeviceSlot): void {
+  try {
+    if (typeof payload === 'string') {
+      handleJsonMessage(payload, slot);
+    } else {
+      applySensorFrame(decodeBinaryFrame(payload), slot);
+    }
+  } catch (e) {
+    console.error("Error parsing sensor data", e);
+  }
+}
 
 /**
  * Communication between ESP32 and WebApp
  */
 export const EspApi = {
-  onDisconnect: (callback: () => void): void => {
+  onDisconnect: (callback: (slot: DeviceSlot) => void): void => {
     bleService.onDisconnect(callback);
   },
-  onReconnect: (callback: (state: 'reconnecting' | 'reconnected' | 'failed') => void): void => {
+  onReconnect: (callback: (state: ReconnectState, slot: DeviceSlot) => void): void => {
     bleService.onReconnect(callback);
   },
-  connect: async (): Promise<void> => {
-    await bleService.connect();
-    bleService.subscribeToSensor((jsonString) => {
-        try {
-            const parsed = JSON.parse(jsonString);
-            // FIX: Ignore heartbeat messages from ESP32 (sent when loop() is stalled)
-            // These keep BLE alive but contain no sensor data
-            if (parsed.hb !== undefined) {
-                console.debug('BLE heartbeat received');
-                return;
-            }
-            // Diagnostic log messages from GETLOG command
-            if (parsed.log !== undefined) {
-                if (parsed.log === 'start') {
-                    diagLogBuffer = [];
-                    diagLogExpectedCount = parsed.n || 0;
-                    diagLogCollecting = true;
-                    console.log(`[DiagLog] Receiving ${diagLogExpectedCount} events...`);
-                } else if (parsed.log === 'evt' && diagLogCollecting) {
-                    diagLogBuffer.push({
-                        index: parsed.i,
-                        timestamp: parsed.t,
-                        event: parsed.e,
-                        value: parsed.v,
-                    });
-                } else if (parsed.log === 'end') {
-                    diagLogCollecting = false;
-                    console.log(`[DiagLog] Received ${diagLogBuffer.length} events`);
-                    console.table(diagLogBuffer);
-                    diagLogCallbacks.forEach(cb => cb([...diagLogBuffer]));
-                }
-                return;
-            }
-            // Compact format: {"t":millis,"s":[val0,val1,val2,val3]}
-            if (parsed.s && Array.isArray(parsed.s)) {
-                latestSensorData = parsed.s.map((amplitude: number, index: number) => {
-                    const normalized = Math.min(100, (amplitude / 4095) * 100);
-                    latestRawNormalized[index] = normalized;
-                    const calibrated = Math.max(0, normalized - (calibrationBaselines[index] || 0));
-                    return {
-                        id: index,
-                        data: [{ time: new Date(), amplitude: calibrated }]
-                    };
-                });
-            } else if (Array.isArray(parsed)) {
-                // Legacy format: [{"id":0,"data":[{"time":"...","amplitude":1234}]},...]
-                latestSensorData = parsed.map((item: any) => ({
-                    id: item.id,
-                    data: item.data.map((d: any) => {
-                        const normalized = Math.min(100, (Number(d.amplitude) / 4095) * 100);
-                        latestRawNormalized[item.id] = normalized;
-                        const calibrated = Math.max(0, normalized - (calibrationBaselines[item.id] || 0));
-                        return { time: new Date(), amplitude: calibrated };
-                    })
-                }));
-            }
-        } catch (e) {
-            console.error("Error parsing sensor data", e);
-        }
-    });
+  // slot: connect a specific board; inferred from the chosen device's name when omitted
+  connect: async (slot?: DeviceSlot): Promise<void> => {
+    const before = connectedSlots();
+    if (before.length === 0) reconnectMetrics.startSession();
+    await bleService.connect(slot);
+    const slots = connectedSlots().filter(s => s === slot || !before.includes(s));
+    startStreams(slots);
+    await Promise.all(slots.map(handshake));
+  },
+  // Silent reconnect to remembered insoles (no device chooser); resolves with the slots that came up
+  reconnectRemembered: (): Promise<DeviceSlot[]> => {
+    // Callers mounting twice (StrictMode) share one attempt
+    if (!rememberedReconnect) {
+      rememberedReconnect = bleService.reconnectRemembered()
+        .then(async slots => {
+          if (slots.length > 0) {
+            reconnectMetrics.startSession();
+            startStreams(slots);
+          }
+          await Promise.all(slots.map(handshake));
+          return slots;
+        })
+        .finally(() => { rememberedReconnect = null; });
+    }
+    return rememberedReconnect;
+  },
+  // Drop a remembered insole (disconnects it if it is connected)
+  forgetDevice: (id: string): Promise<void> => {
+    return bleService.forgetDevice(id);
+  },
+  disconnect: (slot?: DeviceSlot): void => {
+    bleService.disconnect(slot);
+  },
+  isConnected: (slot?: DeviceSlot): boolean => {
+    return bleService.isConnected(slot);
   },
-  disconnect: (): void => {
-    bleService.disconnect();
+  getDevices: (): DeviceStatus[] => {
+    return bleService.getDevices();
   },
-  isConnected: (): boolean => {
-    return bleService.isConnected();
+  // HELLO results for the connected boards
+  getFirmwareInfo: (): FirmwareInfo[] => {
+    return [...firmwareInfo.values()];
+  },
+  // Called after every handshake and when a board goes away
+  onFirmwareInfo: (callback: FirmwareInfoCallback): void => {
+    firmwareInfoCallbacks.push(callback);
+  },
+  // Whether every connected board accepts a command; boards still handshaking count as yes
+  supports: (command: string): boolean => {
+    return [...firmwareInfo.values()].every(info => info.commands.includes(command));
+  },
+  getTransport: (): TransportKind => {
+    return bleService.getKind();
+  },
+  // Switch between Bluetooth and USB serial; drops any live connection
+  setTransport: (kind: TransportKind): void => {
+    bleService.setKind(kind);
   },
 
-  subscribeToSensor: (callback: (value: string) => void): void => {
+  subscribeToSensor: (callback: (value: SensorPayload, slot: DeviceSlot) => void): void => {
     bleService.subscribeToSensor(callback);
   },
   
-  unsubscribeFromSensor: (callback: (value: string) => void): void => {
+  unsubscribeFromSensor: (callback: (value: SensorPayload, slot: DeviceSlot) => void): void => {
     bleService.unsubscribeFromSensor(callback);
   },
 
-  write: async (endpoint: string, data: string): Promise<void> => {
+  // Called whenever the frame parser detects lost or out-of-order frames
+  onFrameGap: (callback: FrameGapCallback): void => {
+    frameGapCallbacks.push(callback);
+  },
+
+  offFrameGap: (callback: FrameGapCallback): void => {
+    frameGapCallbacks = frameGapCallbacks.filter(cb => cb !== callback);
+  },
+
+  // Frame counters for one board, or summed over all boards
+  getFrameStats: (slot?: DeviceSlot): FrameStats => {
+    const parsers = slot ? [frameParsers.get(slot)] : [...frameParsers.values()];
+    return parsers.reduce<FrameStats>((total, parser) => {
+      if (!parser) return total;
+      const stats = parser.getStats();
+      return {
+        received: total.received + stats.received,
+        lost: total.lost + stats.lost,
+        outOfOrder: total.outOfOrder + stats.outOfOrder,
+      };
+    }, { received: 0, lost: 0, outOfOrder: 0 });
+  },
+
+  // slot: send to one board only; broadcast to all connected boards when omitted
+  write: async (endpoint: string, data: string, slot?: DeviceSlot): Promise<void> => {
     const command = `${endpoint}:${data}`;
     const encoder = new TextEncoder();
-    return bleService.write(encoder.encode(command));
-  },
-  read: async (endpoint: string): Promise<string> => {
-     // 1. Send the endpoint name to the device to request data
-     const encoder = new TextEncoder();
-     // Using "GET:ENDPOINT" convention or just "ENDPOINT" depending on preference. 
-     // Given "arduino should get string endpoint", sending just the endpoint might be ambiguous if it looks like a write.
-     // But write uses "ENDPOINT:DATA". Read uses "GET:ENDPOINT" seems safer.
-     const command = `GET:${endpoint}`;
-     await bleService.write(encoder.encode(command));
-     
-     // 2. Wait for the device to update the characteristic value
-     await new Promise(resolve => setTimeout(resolve, 200));
-
-     // 3. Read the response
-     const value = await bleService.read();
-     const decoder = new TextDecoder('utf-8');
-     return decoder.decode(value);
+    return bleService.write(encoder.encode(command), slot);
+  },
+  // Change a setting; resolves once every target board acknowledged it.
+  // Rejects with CommandFailedError (no ack after retries, or rejected) or
+  // RequestCancelledError (link dropped).
+  command: (endpoint: string, data: string, options: CommandOptions = {}): Promise<void> => {
+    return commandChannel.send(endpoint, data, options);
+  },
+  // Ask the device for a value; resolves with the reply's "d" payload.
+  // Rejects with RequestTimeoutError / MalformedReplyError / DeviceError.
+  read: <T = unknown>(endpoint: string, options: { timeoutMs?: number; slot?: DeviceSlot } = {}): Promise<T> => {
+    return requestChannel.request<T>(endpoint, options);
   },
 
   // First Page
-  switchOn: async (isOn: boolean): Promise<void> => {
+  switchOn: (isOn: boolean): Promise<void> => {
     // Use string command to avoid null byte (0x00) issue with Arduino String
-    const command = `POWER:${isOn ? '1' : '0'}`;
-    const encoder = new TextEncoder();
-    return bleService.write(encoder.encode(command));
+    return EspApi.command('POWER', isOn ? '1' : '0');
+  },
+  // Link health per board, refreshed every second while connected (see linkMonitor.ts)
+  getLinkStats: (): LinkStats[] => {
+    return linkStats;
+  },
+  // Returns an unsubscribe function
+  onLinkStats: (callback: LinkStatsCallback): (() => void) => {
+    linkStatsCallbacks.push(callback);
+    return () => {
+      linkStatsCallbacks = linkStatsCallbacks.filter(cb => cb !== callback);
+    };
+  },
+  // Round-trip time in ms for a PING request
+  ping: async (): Promise<number> => {
+    const start = performance.now();
+    await EspApi.read(BleEndpoints.PING);
+    return performance.now() - start;
   },
-  ping: (): void => {
-    // TODO: Implement communication with ESP32
-    console.log('ping');
+  // One consistent snapshot of everything the device(s) are currently applying
+  getState: async (): Promise<DeviceState> => {
+    const slots = connectedSlots();
+    if (slots.length === 0) throw new Error('Not connected');
+    const replies = await Promise.all(slots.map(async (slot): Promise<[DeviceSlot, RawDeviceState]> =>
+      [slot, await EspApi.read<RawDeviceState>(BleEndpoints.STATE, { slot })]
+    ));
+    return parseDeviceStates(replies);
   },
-  setVolumeTotal: (volume: number): void => {
-    EspApi.write(BleEndpoints.VOLUME_TOTAL, `${volume}`);
+  // Slider-driven setters coalesce: while one value is in flight only the newest waits
+  setVolumeTotal: (volume: number): Promise<void> => {
+    return EspApi.command(BleEndpoints.VOLUME_TOTAL, `${volume}`, { coalesce: 'volume' });
   },
-  setMode: (mode: AudioMode): void => {
-    EspApi.write(BleEndpoints.MODE, `${mode}`);
+  setMode: (mode: AudioMode): Promise<void> => {
+    return EspApi.command(BleEndpoints.MODE, `${mode}`);
   },
   // Sensitivity slider: 0=back sensitive, 50=balanced, 100=front sensitive
-  setSensitivity: (value: number): void => {
-    EspApi.write(BleEndpoints.SENSITIVITY, `${value}`);
+  setSensitivity: (value: number): Promise<void> => {
+    return EspApi.command(BleEndpoints.SENSITIVITY, `${value}`, { coalesce: 'sensitivity' });
   },
-  getVolume: (): number => {
-    // TODO: Implement communication with ESP32
-    console.log('getVolume');
-    return 0.0;
+  getVolume: async (): Promise<number> => {
+    return (await EspApi.getState()).volume;
   },
-  getBatteryHealth: async (): Promise<number> => {
-     // TODO: Implement communication with ESP32
-     // For now return dummy data
-     return 90.0;
+  // Battery percent, or null when the board cannot measure it
+  getBatteryHealth: async (): Promise<number | null> => {
+    return (await EspApi.getState()).battery;
   },
 
   // Second Page
-  getSensorsData: (): Sensor[] => {
-    // console.log('Checking stubs:', config.useStubs); 
-    if (config.useStubs) {
-      const values = simulator.getNextValues();
-      return values.map((val, index) => ({
-        id: index,
-        data: [{ time: new Date(), amplitude: val }]
-      }));
-    }
-    return latestSensorData;
+  // Every sensor frame as it arrives (stub mode goes through the same decoding
+  // path as the real device); returns an unsubscribe function
+  onSensorFrame: (listener: SensorFrameListener): (() => void) => {
+    return sensorStream.subscribe(listener);
   },
-  getSensorsThreshold: (): number[] => {
-    // TODO: Implement communication with ESP32
-    console.log('getSensorsThreshold');
-    return [];
+  getLatestFrame: (): SensorFrame | null => {
+    return sensorStream.getLatest();
+  },
+  // Heel-strike / foot-flat / heel-off / toe-off per foot, detected from the
+  // frame stream while anyone listens; returns an unsubscribe function
+  onGaitEvent: (listener: GaitEventListener): (() => void) => {
+    return gaitEvents.subscribe(listener);
+  },
+  getFootPhases: (): Record<Foot, FootPhase> => {
+    return gaitEvents.getPhases();
+  },
+  // Freezing-of-gait status from the frame stream, several times a second
+  // while anyone listens; returns an unsubscribe function
+  onFreeze: (listener: FreezeListener): (() => void) => {
+    return freezeMonitor.subscribe(listener);
+  },
+  getFreezeStatus: (): FreezeStatus => {
+    return freezeMonitor.getStatus();
   },
-  setSensorsThreshold: (thresholds: number[]): void => {
+  getSensorsThreshold: async (): Promise<number[]> => {
+    return (await EspApi.getState()).thresholds;
+  },
+  setSensorsThreshold: async (thresholds: number[]): Promise<void> => {
     // Convert from 0-100 range to raw ADC units (0-4095)
     const rawThresholds = thresholds.map(v => Math.round((v / 100) * 4095));
-    const command = `SENSOR_THRESHOLD:${rawThresholds.join(',')}`;
-    const encoder = new TextEncoder();
-    bleService.write(encoder.encode(command));
+    // Each board only gets the thresholds for its own channels
+    await Promise.all([...splitChannels(rawThresholds, connectedSlots())].map(([slot, values]) =>
+      EspApi.command(BleEndpoints.SENSOR_THRESHOLD, values.join(','), { slot, coalesce: 'thresholds' })
+    ));
   },
-  getSensorVolume: (id: number): number => {
-    // TODO: Implement communication with ESP32
-    console.log('getSensorVolume', id);
-    return 0.0;
+  getSensorVolume: async (id: number): Promise<number> => {
+    return (await EspApi.getState()).sensorVolumes[id] ?? 0;
   },
-  setSensorVolume: (id: number, volume: number): void => {
-    const data = `${id},${volume}`;
-    EspApi.write(BleEndpoints.SENSOR_VOLUME, data);
+  setSensorVolume: async (id: number, volume: number): Promise<void> => {
+    const route = routeChannel(id, connectedSlots());
+    if (!route) return;
+    const data = `${route.local},${volume}`;
+    await EspApi.command(BleEndpoints.SENSOR_VOLUME, data, { slot: route.slot, coalesce: `sensorVolume${id}` });
   },
 
   // ---------- Diagnostic Log ----------
   // Request the ESP32 to send its event log (ring buffer of last 64 events).
   // Events include: BLE disconnects, heap warnings, SD read slowdowns, loop stalls.
-  // Returns a Promise that resolves with the log entries.
-  requestDiagLog: (): Promise<DiagnosticEvent[]> => {
-    return new Promise((resolve) => {
-      // Register one-time callback
+  // Returns a Promise that resolves with the log entries, or rejects when the
+  // command can't be sent or the board doesn't answer.
+  // slot: which board to ask (defaults to the first connected one)
+  requestDiagLog: (slot?: DeviceSlot): Promise<DiagnosticEvent[]> => {
+    const target = slot ?? connectedSlots()[0] ?? 'main';
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        const waiting = (diagLogRequests.get(target) ?? []).filter(cb => cb !== handler);
+        if (waiting.length) diagLogRequests.set(target, waiting);
+        else diagLogRequests.delete(target);
+      };
+      // Register one-time callback, answered only by the target board's log
       const handler: DiagLogCallback = (events) => {
-        diagLogCallbacks = diagLogCallbacks.filter(cb => cb !== handler);
+        finish();
         resolve(events);
       };
-      diagLogCallbacks.push(handler);
+      diagLogRequests.set(target, [...(diagLogRequests.get(target) ?? []), handler]);
 
-      // Timeout: if no response in 10s, resolve with whatever we have
-      setTimeout(() => {
-        diagLogCallbacks = diagLogCallbacks.filter(cb => cb !== handler);
-        resolve([...diagLogBuffer]);
+      // Timeout: no response in 10s
+      const timer = setTimeout(() => {
+        finish();
+        reject(new Error(`No diagnostic log from ${target} within 10s`));
       }, 10000);
 
       // Send GETLOG command
-      EspApi.write(BleEndpoints.GETLOG, '1');
+      EspApi.write(BleEndpoints.GETLOG, '1', target).catch(error => {
+        finish();
+        reject(error);
+      });
     });
   },
 
@@ -315,14 +647,25 @@ export const EspApi = {
     return [...diagLogBuffer];
   },
 
-  calibrateSensors: async () => {
-    // Use the raw normalized values (before calibration subtraction)
-    calibrationBaselines = [...latestRawNormalized];
-    // Convert from normalized (0-100) back to raw ADC (0-4095)
-    const rawBaselines = calibrationBaselines.map(v => Math.round((v / 100) * 4095));
-    const command = `CALIBRATE:${rawBaselines.join(',')}`;
-    const encoder = new TextEncoder();
-    await bleService.write(encoder.encode(command));
+  // Save a calibration from the wizard (see calibration.ts) and send it to the boards
+  setCalibration: async (calibration: SensorCalibration): Promise<void> => {
+    setSensorCalibration(calibration);
+    await EspApi.sendCalibration(calibration);
+  },
+
+  // Baselines go out as raw ADC with CALIBRATE; firmware that knows
+  // CALIBRATE_SPAN also gets the raw level of full load
+  sendCalibration: async (calibration: SensorCalibration): Promise<void> => {
+    const toAdc = (level: number) => Math.round((level / 100) * 4095);
+    const baselines = calibration.channels.map(c => toAdc(c.offset));
+    const spans = calibration.channels.map(c => toAdc(fullScaleLevel(c)));
+    const slots = connectedSlots();
+    await Promise.all([...splitChannels(baselines, slots)].map(([slot, values]) =>
+      EspApi.command('CALIBRATE', values.join(','), { slot })
+    ));
+    await Promise.all([...splitChannels(spans, slots)]
+      .filter(([slot]) => firmwareInfo.get(slot)?.commands.includes('CALIBRATE_SPAN'))
+      .map(([slot, values]) => EspApi.command('CALIBRATE_SPAN', values.join(','), { slot })));
   },
 };
 
@@ -0,0 +1,173 @@
+import { FOOT_CHANNELS, type Foot } from './gaitEvents';
+import { sensorStream } from './sensorStream';
+
+// ---------- Two-Point Calibration ----------
+// Each channel gets an offset and a gain from two averaged captures of the
+// normalized level (raw ADC scaled to 0-100):
+//
+//   zero   both feet unloaded                → offset = mean
+//   span   standing on that foot alone      → gain = SPAN_LEVEL / (mean − offset)
+//
+//   calibrated = (normalized − offset) × gain, clamped to 0-100
+//
+// Full single-leg stance reads SPAN_LEVEL rather than 100, leaving headroom
+// for the peaks of walking. A capture is rejected when a channel is noisy,
+// drifts between its first and second half, is loaded during zero or barely
+// loaded during span. The firmware applies the same mapping from the raw
+// baseline and full-scale values sent with CALIBRATE and CALIBRATE_SPAN.
+
+export const CAPTURE_MS = 3000;
+export const SPAN_LEVEL = 80;
+
+const MIN_SAMPLES = 20;       // 1s at 20Hz
+const MAX_NOISE = 2;          // standard deviation, level
+const MAX_DRIFT = 3;          // second-half mean − first-half mean, level
+const LOAD_TOLERANCE = 0.05;  // noise and drift limits grow by this share of the level under load
+const MAX_ZERO_LEVEL = 25;    // higher while unloaded: the foot is resting on something
+const MIN_SPAN = 10;          // stance must read at least this much above zero
+
+export type CalibrationStep = 'zero' | Foot;
+
+export type CaptureProblem = 'too-few-samples' | 'noisy' | 'drifting' | 'loaded' | 'not-loaded';
+
+export interface ChannelCapture {
+  mean: number;
+  noise: number;      // standard deviation
+  drift: number;
+}
+
+export interface CaptureCheck {
+  step: CalibrationStep;
+  channels: ChannelCapture[];
+  samples: number;
+  problems: (CaptureProblem | null)[];  // per channel; null when fine or not checked in this step
+  ok: boolean;
+}
+
+export interface ChannelCalibration {
+  offset: number;     // normalized level read with no load
+  gain: number;
+}
+
+export interface SensorCalibration {
+  channels: ChannelCalibration[];   // [RF, LF, RB, LB]
+  createdAt: number;
+}
+
+// Channels the step calibrates
+export function stepChannels(step: CalibrationStep): number[] {
+  if (step === 'zero') return [0, 1, 2, 3];
+  const { toe, heel } = FOOT_CHANNELS[step];
+  return [toe, heel];
+}
+
+function channelCapture(values: number[]): ChannelCapture {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  const half = Math.floor(values.length / 2);
+  const halfMean = (part: number[]) => part.reduce((sum, v) => sum + v, 0) / Math.max(1, part.length);
+  return { mean, noise: Math.sqrt(variance), drift: halfMean(values.slice(half)) - halfMean(values.slice(0, half)) };
+}
+
+// Summarize one capture (frames of normalized levels) and check it; span
+// steps need the zero capture to judge the load
+export function checkCapture(step: CalibrationStep, frames: number[][], zero?: ChannelCapture[]): CaptureCheck {
+  const checked = new Set(stepChannels(step));
+  const channels = [0, 1, 2, 3].map(i => frames.length > 0 ? channelCapture(frames.map(f => f[i] ?? 0)) : { mean: 0, noise: 0, drift: 0 });
+  const problems = channels.map((capture, i): CaptureProblem | null => {
+    if (!checked.has(i)) return null;
+    if (frames.length < MIN_SAMPLES) return 'too-few-samples';
+    const tolerance = LOAD_TOLERANCE * capture.mean;
+    // A slow slide also raises the spread; report it as the more specific problem
+    if (Math.abs(capture.drift) > MAX_DRIFT + tolerance) return 'drifting';
+    if (capture.noise > MAX_NOISE + tolerance) return 'noisy';
+    if (step === 'zero') return capture.mean > MAX_ZERO_LEVEL ? 'loaded' : null;
+    return capture.mean - (zero?.[i].mean ?? 0) < MIN_SPAN ? 'not-loaded' : null;
+  });
+  return { step, channels, samples: frames.length, problems, ok: problems.every(p => p === null) };
+}
+
+export function computeCalibration(zero: CaptureCheck, right: CaptureCheck, left: CaptureCheck): SensorCalibration {
+  const span = (i: number) => (stepChannels('right').includes(i) ? right : left).channels[i].mean;
+  return {
+    channels: zero.channels.map((capture, i) => ({
+      offset: capture.mean,
+      gain: SPAN_LEVEL / Math.max(MIN_SPAN, span(i) - capture.mean),
+    })),
+    createdAt: Date.now(),
+  };
+}
+
+// Calibrated levels from normalized ones; without a calibration the levels pass through
+export function applyCalibration(normalized: number[], calibration: SensorCalibration | null): number[] {
+  return normalized.map((value, i) => {
+    const channel = calibration?.channels[i];
+    const level = channel ? (value - channel.offset) * channel.gain : value;
+    return Math.min(100, Math.max(0, level));
+  });
+}
+
+// Normalized level that reads 100, for the firmware's full-scale value
+export function fullScaleLevel(channel: ChannelCalibration): number {
+  return Math.min(100, channel.offset + 100 / channel.gain);
+}
+
+// Collect normalized levels from the sensor stream for a while
+export function captureNormalized(durationMs: number, onProgress?: (fraction: number) => void): Promise<number[][]> {
+  return new Promise(resolve => {
+    const frames: number[][] = [];
+    const start = performance.now();
+    const unsubscribe = sensorStream.subscribe(frame => {
+      frames.push(frame.normalized);
+      onProgress?.(Math.min(1, (performance.now() - start) / durationMs));
+    });
+    setTimeout(() => {
+      unsubscribe();
+      onProgress?.(1);
+      resolve(frames);
+    }, durationMs);
+  });
+}
+
+// ---------- Saved Calibration ----------
+// Kept in localStorage so levels stay calibrated across sessions; the board
+// forgets it on reboot and gets it back from the state sync (reconcile.ts)
+
+const STORAGE_KEY = 'tom-sensor-calibration';
+
+type CalibrationListener = (calibration: SensorCalibration | null) => void;
+let calibrationListeners: CalibrationListener[] = [];
+
+function loadCalibration(): SensorCalibration | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw) as SensorCalibration;
+      if (Array.isArray(stored.channels) && stored.channels.length === 4) return stored;
+    }
+  } catch { /* ignore */ }
+  return null;
+}
+
+let calibration = loadCalibration();
+
+export function getSensorCalibration(): SensorCalibration | null {
+  return calibration;
+}
+
+export function setSensorCalibration(next: SensorCalibration | null): void {
+  calibration = next;
+  try {
+    if (next) localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch { /* ignore */ }
+  calibrationListeners.forEach(cb => cb(next));
+}
+
+// Returns an unsubscribe function
+export function onSensorCalibrationChange(callback: CalibrationListener): () => void {
+  calibrationListeners.push(callback);
+  return () => {
+    calibrationListeners = calibrationListeners.filter(cb => cb !== callback);
+  };
+}
@@ -0,0 +1,142 @@
+import type { DeviceSlot } from './deviceSlots';
+import { FrameRing } from './sensorStream';
+
+// ---------- Connection Lifecycle ----------
+// Every transport reports where each board's link is:
+//
+//   idle → requesting → connecting → discovering → ready
+//              ↓            ↓             ↓
+//                     failed(reason)
+//   ready → reconnecting(n/N) → ready | failed(reason) | watching
+//   watching → ready            (board advertised again, see reconnectPolicy.ts)
+//   any → idle                  (user disconnect)
+//
+// Each change is a timestamped transition; the latest ones are kept so they
+// can be exported for support.
+
+export type ConnectionState =
+  | { phase: 'idle' }
+  | { phase: 'requesting' }     // device chooser / port picker open
+  | { phase: 'connecting' }     // GATT server, port or socket opening
+  | { phase: 'discovering' }    // service, characteristics, notifications
+  | { phase: 'ready' }
+  | { phase: 'reconnecting'; attempt: number; maxAttempts: number | null }   // null = no attempt cap
+  | { phase: 'watching' }       // gave up actively; reconnects when the board advertises
+  | { phase: 'failed'; reason: string };
+
+export type ConnectionPhase = ConnectionState['phase'];
+
+export interface ConnectionTransition {
+  slot: DeviceSlot;
+  from: ConnectionState;
+  to: ConnectionState;
+  at: number;   // Date.now()
+}
+
+export type TransitionListener = (transition: ConnectionTransition) => void;
+
+export const PHASE_LABELS: Record<ConnectionPhase, string> = {
+  idle: 'Not connected',
+  requesting: 'Choosing device',
+  connecting: 'Connecting',
+  discovering: 'Setting up',
+  ready: 'Connected',
+  reconnecting: 'Reconnecting',
+  watching: 'Waiting for insole',
+  failed: 'Connection failed',
+};
+
+// Expected successors; anything else is still applied, but logged
+const NEXT_PHASES: Record<ConnectionPhase, ConnectionPhase[]> = {
+  idle: ['requesting', 'connecting'],
+  requesting: ['connecting', 'failed', 'idle'],
+  connecting: ['discovering', 'ready', 'failed', 'idle'],
+  discovering: ['ready', 'failed', 'idle'],
+  ready: ['reconnecting', 'failed', 'idle'],
+  reconnecting: ['reconnecting', 'ready', 'failed', 'watching', 'idle'],
+  watching: ['ready', 'connecting', 'idle'],
+  failed: ['requesting', 'connecting', 'idle'],
+};
+
+const HISTORY_SIZE = 200;
+const IDLE: ConnectionState = { phase: 'idle' };
+
+export function describeState(state: ConnectionState): string {
+  switch (state.phase) {
+    case 'reconnecting':
+      return state.maxAttempts === null
+        ? `${PHASE_LABELS.reconnecting} (attempt ${state.attempt})`
+        : `${PHASE_LABELS.reconnecting} (${state.attempt}/${state.maxAttempts})`;
+    case 'failed': return `${PHASE_LABELS.failed}: ${state.reason}`;
+    default: return PHASE_LABELS[state.phase];
+  }
+}
+
+// Where a rejected connect leaves the link: closing the chooser is not a failure
+export function stateForError(error: unknown): ConnectionState {
+  const err = error as Error;
+  if (err?.name === 'NotFoundError') return IDLE;
+  return { phase: 'failed', reason: err?.message || String(error) };
+}
+
+export class ConnectionLifecycle {
+  private states = new Map<DeviceSlot, ConnectionState>();
+  private history = new FrameRing<ConnectionTransition>(HISTORY_SIZE);
+  private listeners: TransitionListener[] = [];
+
+  get(slot: DeviceSlot): ConnectionState {
+    return this.states.get(slot) ?? IDLE;
+  }
+
+  // Slots that ever left idle, with their current state
+  getAll(): { slot: DeviceSlot; state: ConnectionState }[] {
+    return [...this.states].map(([slot, state]) => ({ slot, state }));
+  }
+
+  transition(slot: DeviceSlot, to: ConnectionState): void {
+    const from = this.get(slot);
+    // Repeats only matter for reconnect attempts
+    if (from.phase === to.phase && to.phase !== 'reconnecting') return;
+    if (!NEXT_PHASES[from.phase].includes(to.phase)) {
+      console.warn(`[Lifecycle ${slot}] Unexpected transition ${from.phase} → ${to.phase}`);
+    }
+    this.states.set(slot, to);
+    const transition: ConnectionTransition = { slot, from, to, at: Date.now() };
+    this.history.push(transition);
+    this.listeners.forEach(listener => listener(transition));
+  }
+
+  // Most recent failure on any slot
+  lastFailure(): ConnectionTransition | null {
+    const history = this.history.toArray();
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].to.phase === 'failed') return history[i];
+    }
+    return null;
+  }
+
+  // Returns an unsubscribe function
+  onTransition(listener: TransitionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Oldest first
+  getHistory(): ConnectionTransition[] {
+    return this.history.toArray();
+  }
+
+  // JSON for support requests
+  exportHistory(): string {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+      current: Object.fromEntries(this.states),
+      transitions: this.getHistory().map(t => ({ ...t, at: new Date(t.at).toISOString() })),
+    }, null, 2);
+  }
+}
+
+export const connectionLifecycle = new ConnectionLifecycle();
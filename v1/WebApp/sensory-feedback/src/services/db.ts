@@ -1,4 +1,5 @@
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { DeviceSlot } from './deviceSlots';
 
 interface Recording {
   id?: number;
@@ -8,28 +9,58 @@ interface Recording {
   notes?: string;
 }
 
+// One ESP32 diagnostic log entry, anchored to wall-clock time (see diagHistory.ts)
+export interface StoredDiagEvent {
+  key: string;          // `${bootId}:${timestamp}:${event}:${value}`, dedupes overlapping fetches
+  bootId: string;       // board boot this entry belongs to, stable across fetches
+  slot: DeviceSlot;
+  device: string | null;  // advertised name at fetch time
+  firmware?: string | null;  // version at fetch time; missing on entries stored before it was recorded
+  bootAt: number;       // wall-clock ms of that boot
+  timestamp: number;    // millis() since that boot
+  wallTime: number;     // bootAt + timestamp
+  event: string;
+  value: number;
+  approximate: boolean; // bootAt is an estimate
+  firstSeenAt: number;  // fetch that first returned this entry
+}
+
 interface WalkingDB extends DBSchema {
   recordings: {
     key: number;
     value: Recording;
     indexes: { 'by-date': string };
   };
+  diagEvents: {
+    key: string;
+    value: StoredDiagEvent;
+    indexes: { 'by-wallTime': number; 'by-slot': DeviceSlot };
+  };
 }
 
 const DB_NAME = 'walking-sensors-db';
+const DB_VERSION = 2;
 const STORE_NAME = 'recordings';
+const DIAG_STORE = 'diagEvents';
 
 let dbPromise: Promise<IDBPDatabase<WalkingDB>>;
 
 export const getDB = () => {
     if (!dbPromise) {
-        dbPromise = openDB<WalkingDB>(DB_NAME, 1, {
-            upgrade(db) {
-                const store = db.createObjectStore(STORE_NAME, {
-                    keyPath: 'id',
-                    autoIncrement: true,
-                });
-                store.createIndex('by-date', 'date');
+        dbPromise = openDB<WalkingDB>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                if (oldVersion < 1) {
+                    const store = db.createObjectStore(STORE_NAME, {
+                        keyPath: 'id',
+                        autoIncrement: true,
+                    });
+                    store.createIndex('by-date', 'date');
+                }
+                if (oldVersion < 2) {
+                    const diag = db.createObjectStore(DIAG_STORE, { keyPath: 'key' });
+                    diag.createIndex('by-wallTime', 'wallTime');
+                    diag.createIndex('by-slot', 'slot');
+                }
             },
         });
     }
@@ -69,3 +100,43 @@ export const updateRecordingNotes = async (id: number, notes: string) => {
     }
     await tx.done;
 };
+
+export const getDiagEventsForSlot = async (slot: DeviceSlot) => {
+    const db = await getDB();
+    return db.getAllFromIndex(DIAG_STORE, 'by-slot', slot);
+};
+
+// Oldest first, optionally limited to a wall-clock range
+export const getDiagEvents = async (from?: number, to?: number) => {
+    const db = await getDB();
+    const range = from === undefined && to === undefined ? undefined
+        : IDBKeyRange.bound(from ?? 0, to ?? Number.MAX_SAFE_INTEGER);
+    return db.getAllFromIndex(DIAG_STORE, 'by-wallTime', range);
+};
+
+// Insert or overwrite (re-anchored entries keep their key)
+export const putDiagEvents = async (events: StoredDiagEvent[]) => {
+    const db = await getDB();
+    const tx = db.transaction(DIAG_STORE, 'readwrite');
+    await Promise.all([...events.map(e => tx.store.put(e)), tx.done]);
+};
+
+// Drop the oldest entries beyond `keep`
+export const pruneDiagEvents = async (keep: number) => {
+    const db = await getDB();
+    const tx = db.transaction(DIAG_STORE, 'readwrite');
+    const excess = (await tx.store.count()) - keep;
+    if (excess > 0) {
+        let cursor = await tx.store.index('by-wallTime').openCursor();
+        for (let i = 0; i < excess && cursor; i++) {
+            await cursor.delete();
+            cursor = await cursor.continue();
+        }
+    }
+    await tx.done;
+};
+
+export const clearDiagEvents = async () => {
+    const db = await getDB();
+    return db.clear(DIAG_STORE);
+};
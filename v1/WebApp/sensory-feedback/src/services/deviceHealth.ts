@@ -0,0 +1,195 @@
+import { EspApi } from './api';
+import type { DeviceSlot } from './deviceSlots';
+import { getDiagEventType } from './diagEvents';
+import { groupByBoot, type DiagBoot, type StoredDiagEvent } from './diagHistory';
+
+// ---------- Device Health ----------
+// Turns the numeric diag log events stored by diagHistory.ts into series over
+// wall-clock time and per-boot stability summaries. The board's ring only
+// holds ~5 minutes of HEAP_SNAP (one every 5 s), so while the health page is
+// open the log is fetched every minute; each fetch briefly pauses the sensor
+// stream (the board sends the log instead of frames).
+
+export const HEALTH_POLL_MS = 60 * 1000;
+
+export type HealthMetric = 'heap' | 'loopStall' | 'sdLatency';
+
+export interface HealthMetricInfo {
+  label: string;
+  unit: string;
+  events: string[];             // diag events whose value feeds the series
+  warnAt: number;
+  warnWhen: 'below' | 'above';
+}
+
+export const HEALTH_METRICS: Record<HealthMetric, HealthMetricInfo> = {
+  // HEAP_LOW_THRESHOLD in main.ino is 30000 bytes
+  heap: { label: 'Free heap', unit: 'KB', events: ['HEAP_SNAP', 'HEAP_LOW'], warnAt: 30, warnWhen: 'below' },
+  // The firmware logs gaps over 200 ms; a second is audible
+  loopStall: { label: 'Loop stalls', unit: 'ms', events: ['LOOP_SLOW'], warnAt: 1000, warnWhen: 'above' },
+  sdLatency: { label: 'SD read latency', unit: 'ms', events: ['SD_SLOW'], warnAt: 250, warnWhen: 'above' },
+};
+
+// Heap falling faster than this over a boot looks like a leak
+export const LEAK_KB_PER_HOUR = -5;
+const MIN_TREND_SPAN_MS = 10 * 60 * 1000;
+
+export interface HealthPoint {
+  time: number;                 // wall-clock ms
+  value: number;
+  slot: DeviceSlot;
+  approximate: boolean;
+}
+
+export interface HealthSession {
+  bootId: string;
+  slot: DeviceSlot;
+  device: string | null;
+  firmware: string | null;
+  bootAt: number;
+  lastSeenAt: number;           // newest entry of this boot
+  approximate: boolean;
+  heapMinKb: number | null;
+  heapTrendKbPerHour: number | null;   // null when the snapshots span too little time
+  suspectedLeak: boolean;
+  loopStalls: number;
+  longestStallMs: number | null;
+  sdSlow: number;
+  sdFailures: number;
+  heapLow: number;
+  disconnects: number;
+  incidents: number;            // warning and error events
+}
+
+export interface FirmwareHealth {
+  firmware: string;
+  sessions: number;
+  hours: number;
+  heapMinKb: number | null;
+  heapTrendKbPerHour: number | null;   // median over sessions with a trend
+  incidentsPerHour: number | null;
+}
+
+export function isHealthWarning(metric: HealthMetric, value: number): boolean {
+  const { warnAt, warnWhen } = HEALTH_METRICS[metric];
+  return warnWhen === 'below' ? value < warnAt : value > warnAt;
+}
+
+export function healthSeries(events: StoredDiagEvent[], metric: HealthMetric): HealthPoint[] {
+  const names = HEALTH_METRICS[metric].events;
+  return events
+    .filter(e => names.includes(e.event))
+    .map(e => ({ time: e.wallTime, value: e.value, slot: e.slot, approximate: e.approximate }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Least-squares slope in value per hour
+function slopePerHour(points: { time: number; value: number }[]): number | null {
+  if (points.length < 2 || points[points.length - 1].time - points[0].time < MIN_TREND_SPAN_MS) return null;
+  const n = points.length;
+  const meanT = points.reduce((sum, p) => sum + p.time, 0) / n;
+  const meanV = points.reduce((sum, p) => sum + p.value, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.time - meanT) * (p.value - meanV);
+    den += (p.time - meanT) ** 2;
+  }
+  return den === 0 ? null : (num / den) * 60 * 60 * 1000;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function summarizeBoot(boot: DiagBoot): HealthSession {
+  const count = (name: string) => boot.events.filter(e => e.event === name).length;
+  const heap = boot.events.filter(e => HEALTH_METRICS.heap.events.includes(e.event));
+  const snapshots = boot.events.filter(e => e.event === 'HEAP_SNAP').map(e => ({ time: e.wallTime, value: e.value }));
+  const stalls = boot.events.filter(e => e.event === 'LOOP_SLOW').map(e => e.value);
+  const trend = slopePerHour(snapshots);
+  return {
+    bootId: boot.bootId,
+    slot: boot.slot,
+    device: boot.device,
+    firmware: boot.firmware,
+    bootAt: boot.bootAt,
+    lastSeenAt: Math.max(...boot.events.map(e => e.wallTime)),
+    approximate: boot.approximate,
+    heapMinKb: heap.length > 0 ? Math.min(...heap.map(e => e.value)) : null,
+    heapTrendKbPerHour: trend,
+    suspectedLeak: trend !== null && trend < LEAK_KB_PER_HOUR,
+    loopStalls: stalls.length,
+    longestStallMs: stalls.length > 0 ? Math.max(...stalls) : null,
+    sdSlow: count('SD_SLOW'),
+    sdFailures: count('SD_FAIL'),
+    heapLow: count('HEAP_LOW'),
+    disconnects: count('BLE_DISC'),
+    incidents: boot.events.filter(e => {
+      const severity = getDiagEventType(e.event).severity;
+      return severity === 'warning' || severity === 'error';
+    }).length,
+  };
+}
+
+// One summary per board boot, newest first
+export function healthSessions(events: StoredDiagEvent[]): HealthSession[] {
+  return groupByBoot(events).map(summarizeBoot).reverse();
+}
+
+// Sessions grouped by firmware version, to compare builds
+export function firmwareHealth(sessions: HealthSession[]): FirmwareHealth[] {
+  const byFirmware = new Map<string, HealthSession[]>();
+  for (const session of sessions) {
+    if (!session.firmware) continue;
+    byFirmware.set(session.firmware, [...(byFirmware.get(session.firmware) ?? []), session]);
+  }
+  return [...byFirmware].map(([firmware, group]) => {
+    const hours = group.reduce((sum, s) => sum + (s.lastSeenAt - s.bootAt), 0) / (60 * 60 * 1000);
+    const heapMins = group.map(s => s.heapMinKb).filter((v): v is number => v !== null);
+    const incidents = group.reduce((sum, s) => sum + s.incidents, 0);
+    return {
+      firmware,
+      sessions: group.length,
+      hours,
+      heapMinKb: heapMins.length > 0 ? Math.min(...heapMins) : null,
+      heapTrendKbPerHour: median(group.map(s => s.heapTrendKbPerHour).filter((v): v is number => v !== null)),
+      incidentsPerHour: hours > 0 ? incidents / hours : null,
+    };
+  }).sort((a, b) => a.firmware.localeCompare(b.firmware, undefined, { numeric: true }));
+}
+
+// ---------- Polling ----------
+
+// Fetch each connected board's log in turn. A board that can't be reached is
+// skipped until the next poll; stops early once polling has been stopped
+async function pollOnce(slots: DeviceSlot[], stopped: () => boolean): Promise<void> {
+  for (const slot of slots) {
+    if (stopped()) return;
+    await EspApi.requestDiagLog(slot)
+      .catch(error => console.warn(`[Health] No diagnostic log from ${slot}:`, error));
+  }
+}
+
+// Fetch now and every HEALTH_POLL_MS while boards are connected; returns a stop function
+export function startHealthPolling(): () => void {
+  let busy = false;
+  let stopped = false;
+  const poll = () => {
+    if (stopped || busy || !EspApi.isConnected() || !EspApi.supports('GETLOG')) return;
+    const slots = EspApi.getDevices().filter(d => d.connected).map(d => d.slot);
+    busy = true;
+    pollOnce(slots, () => stopped)
+      .catch(error => console.error('[Health] Failed to fetch diagnostic log:', error))
+      .finally(() => { busy = false; });
+  };
+  poll();
+  const timer = setInterval(poll, HEALTH_POLL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
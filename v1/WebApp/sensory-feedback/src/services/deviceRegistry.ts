@@ -0,0 +1,74 @@
+import type { DeviceSlot } from './deviceSlots';
+
+// ---------- Device Registry ----------
+// Insoles the user has paired before, persisted in localStorage so the app can
+// reconnect without the browser's device chooser on the next visit.
+
+export interface RememberedDevice {
+  id: string;           // BluetoothDevice.id (stable per origin), "stub-<slot>" in stub mode
+  name: string;         // advertised name, e.g. "ESP32-L"
+  label: string;        // user-editable friendly name
+  slot: DeviceSlot;
+  lastSeen: string;     // ISO string of the last successful connect
+}
+
+type RegistryListener = (devices: RememberedDevice[]) => void;
+
+const STORAGE_KEY = 'tom-device-registry';
+
+let listeners: RegistryListener[] = [];
+
+function load(): RememberedDevice[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch { return []; }
+}
+
+function save(devices: RememberedDevice[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(devices));
+  } catch { /* ignore */ }
+  listeners.forEach(cb => cb(devices));
+}
+
+// Most recently seen first
+export function getRememberedDevices(): RememberedDevice[] {
+  return load().sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+// Record a successful connect; keeps an existing friendly name
+export function rememberDevice(device: { id: string; name: string; slot: DeviceSlot }): void {
+  const devices = load();
+  const existing = devices.find(d => d.id === device.id);
+  const lastSeen = new Date().toISOString();
+  if (existing) {
+    existing.name = device.name;
+    existing.slot = device.slot;
+    existing.lastSeen = lastSeen;
+  } else {
+    devices.push({ ...device, label: device.name, lastSeen });
+  }
+  save(devices);
+}
+
+export function renameDevice(id: string, label: string): void {
+  const devices = load();
+  const device = devices.find(d => d.id === id);
+  if (!device) return;
+  device.label = label.trim() || device.name;
+  save(devices);
+}
+
+export function forgetDevice(id: string): void {
+  save(load().filter(d => d.id !== id));
+}
+
+export function onRegistryChange(callback: RegistryListener): () => void {
+  listeners.push(callback);
+  return () => {
+    listeners = listeners.filter(cb => cb !== callback);
+  };
+}
@@ -0,0 +1,47 @@
+// ---------- Device Slots ----------
+// The app can talk to one board wired to both feet ("main", 4 channels) or to
+// one board per shoe ("left"/"right", 2 channels each: front, back).
+// Global sensor indices stay 0: RF, 1: LF, 2: RB, 3: LB everywhere above EspApi.
+
+export type DeviceSlot = 'main' | 'left' | 'right';
+
+export const DEVICE_SLOTS: DeviceSlot[] = ['main', 'left', 'right'];
+
+// Global sensor index for each local channel of a board
+export const SLOT_CHANNELS: Record<DeviceSlot, number[]> = {
+  main: [0, 1, 2, 3],
+  right: [0, 2],   // RF, RB
+  left: [1, 3],    // LF, LB
+};
+
+export const SLOT_LABELS: Record<DeviceSlot, string> = {
+  main: 'Insoles',
+  left: 'Left insole',
+  right: 'Right insole',
+};
+
+// Per-shoe boards advertise as "ESP32-L" / "ESP32-R"; anything else is a single board
+export function slotFromDeviceName(name: string | undefined): DeviceSlot {
+  if (!name) return 'main';
+  if (/-L$/i.test(name)) return 'left';
+  if (/-R$/i.test(name)) return 'right';
+  return 'main';
+}
+
+// Which connected board (and its local channel index) carries a global sensor
+export function routeChannel(globalIndex: number, connected: DeviceSlot[]): { slot: DeviceSlot; local: number } | null {
+  for (const slot of connected) {
+    const local = SLOT_CHANNELS[slot].indexOf(globalIndex);
+    if (local !== -1) return { slot, local };
+  }
+  return null;
+}
+
+// Pick the values each connected board owns out of a global 4-channel array
+export function splitChannels<T>(values: T[], connected: DeviceSlot[]): Map<DeviceSlot, T[]> {
+  const result = new Map<DeviceSlot, T[]>();
+  for (const slot of connected) {
+    result.set(slot, SLOT_CHANNELS[slot].map(i => values[i]));
+  }
+  return result;
+}
@@ -0,0 +1,179 @@
+// ---------- Diagnostic Events ----------
+// Registry of the event types the firmware writes to its log (evtNames[] in
+// main.ino). Each type has a severity, a category for grouping, a description
+// and how to format its value. Names the app doesn't know yet still display,
+// as info with the raw value.
+
+export type DiagSeverity = 'debug' | 'info' | 'warning' | 'error';
+
+export type DiagCategory = 'system' | 'connection' | 'memory' | 'timing' | 'storage';
+
+export interface DiagEventType {
+  name: string;
+  severity: DiagSeverity;
+  category: DiagCategory;
+  description: string;
+  formatValue?: (value: number) => string;  // omitted when the value carries no meaning
+  collapsible?: boolean;                    // consecutive repeats fold into one row
+}
+
+export const DIAG_SEVERITIES: DiagSeverity[] = ['debug', 'info', 'warning', 'error'];
+
+export const SEVERITY_LABELS: Record<DiagSeverity, string> = {
+  debug: 'Debug',
+  info: 'Info',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+export const CATEGORY_LABELS: Record<DiagCategory, string> = {
+  system: 'System',
+  connection: 'Connection',
+  memory: 'Memory',
+  timing: 'Timing',
+  storage: 'SD card',
+};
+
+const kb = (value: number) => `${value} KB free`;
+const ms = (value: number) => `${value} ms`;
+const mode = (value: number) => value === 1 ? 'Song' : 'Accordion';
+
+const BUILT_IN_TYPES: DiagEventType[] = [
+  { name: 'BOOT', severity: 'info', category: 'system', description: 'Boot', formatValue: v => `${mode(v)} mode` },
+  { name: 'BLE_CONN', severity: 'info', category: 'connection', description: 'BLE connected' },
+  { name: 'BLE_DISC', severity: 'warning', category: 'connection', description: 'BLE disconnected' },
+  { name: 'HEAP_LOW', severity: 'warning', category: 'memory', description: 'Heap low', formatValue: kb },
+  { name: 'HEARTBEAT', severity: 'warning', category: 'timing', description: 'Heartbeat (loop stalled)', collapsible: true },
+  { name: 'LOOP_SLOW', severity: 'warning', category: 'timing', description: 'Loop stalled', formatValue: ms },
+  { name: 'SD_SLOW', severity: 'warning', category: 'storage', description: 'SD read slow', formatValue: ms },
+  { name: 'MODE_CHG', severity: 'info', category: 'system', description: 'Mode', formatValue: mode },
+  { name: 'SD_REWIND', severity: 'debug', category: 'storage', description: 'Song restarted', collapsible: true },
+  { name: 'SD_FAIL', severity: 'error', category: 'storage', description: 'SD read failed (0 bytes)' },
+  { name: 'HEAP_SNAP', severity: 'debug', category: 'memory', description: 'Heap', formatValue: kb, collapsible: true },
+];
+
+const registry = new Map(BUILT_IN_TYPES.map(type => [type.name, type]));
+
+// Add or replace an event type, e.g. for new firmware events
+export function registerDiagEvent(type: DiagEventType): void {
+  registry.set(type.name, type);
+}
+
+export function getDiagEventType(name: string): DiagEventType {
+  return registry.get(name) ?? { name, severity: 'info', category: 'system', description: name, formatValue: String };
+}
+
+export function getDiagEventTypes(): DiagEventType[] {
+  return [...registry.values()];
+}
+
+// Human-readable description for an event
+export function describeDiagEvent(event: string, value: number): string {
+  const type = getDiagEventType(event);
+  return type.formatValue ? `${type.description}: ${type.formatValue(value)}` : type.description;
+}
+
+export function severityAtLeast(severity: DiagSeverity, minimum: DiagSeverity): boolean {
+  return DIAG_SEVERITIES.indexOf(severity) >= DIAG_SEVERITIES.indexOf(minimum);
+}
+
+// ---------- Filtering ----------
+
+export interface DiagEventFilter {
+  minSeverity: DiagSeverity;
+  hiddenCategories: DiagCategory[];
+}
+
+export const DEFAULT_DIAG_FILTER: DiagEventFilter = { minSeverity: 'debug', hiddenCategories: [] };
+
+export function matchesDiagFilter(event: string, filter: DiagEventFilter): boolean {
+  const type = getDiagEventType(event);
+  return severityAtLeast(type.severity, filter.minSeverity) && !filter.hiddenCategories.includes(type.category);
+}
+
+// A run of consecutive entries shown as one row
+export interface CollapsedDiagEvent<T> {
+  first: T;
+  last: T;
+  count: number;
+  minValue: number;
+  maxValue: number;
+}
+
+// Fold consecutive repeats of collapsible types (e.g. periodic HEAP_SNAP)
+export function collapseRepeats<T extends { event: string; value: number }>(events: T[]): CollapsedDiagEvent<T>[] {
+  const rows: CollapsedDiagEvent<T>[] = [];
+  for (const event of events) {
+    const row = rows[rows.length - 1];
+    if (row && row.first.event === event.event && getDiagEventType(event.event).collapsible) {
+      row.last = event;
+      row.count++;
+      row.minValue = Math.min(row.minValue, event.value);
+      row.maxValue = Math.max(row.maxValue, event.value);
+    } else {
+      rows.push({ first: event, last: event, count: 1, minValue: event.value, maxValue: event.value });
+    }
+  }
+  return rows;
+}
+
+export function describeCollapsed<T extends { event: string; value: number }>(row: CollapsedDiagEvent<T>): string {
+  if (row.count === 1 || row.minValue === row.maxValue) return describeDiagEvent(row.first.event, row.first.value);
+  const type = getDiagEventType(row.first.event);
+  if (!type.formatValue) return type.description;
+  return `${type.description}: ${row.minValue}–${type.formatValue(row.maxValue)}`;
+}
+
+// ---------- Auto-open Rules ----------
+// Which events in the log fetched after a reconnect open it without asking.
+
+export interface DiagAutoOpenRules {
+  minSeverity: DiagSeverity | null;   // any event at or above this; null = severity alone never opens
+  events: string[];                   // these always open it
+}
+
+export const DEFAULT_DIAG_AUTO_OPEN: DiagAutoOpenRules = {
+  minSeverity: 'error',
+  events: ['BLE_DISC', 'HEAP_LOW', 'LOOP_SLOW'],
+};
+
+const RULES_STORAGE_KEY = 'tom-diag-auto-open';
+
+type RulesListener = (rules: DiagAutoOpenRules) => void;
+let rulesListeners: RulesListener[] = [];
+
+function loadRules(): DiagAutoOpenRules {
+  try {
+    const raw = localStorage.getItem(RULES_STORAGE_KEY);
+    if (raw) return { ...DEFAULT_DIAG_AUTO_OPEN, ...JSON.parse(raw) };
+  } catch { /* ignore */ }
+  return DEFAULT_DIAG_AUTO_OPEN;
+}
+
+let rules = loadRules();
+
+export function getDiagAutoOpenRules(): DiagAutoOpenRules {
+  return rules;
+}
+
+export function setDiagAutoOpenRules(next: DiagAutoOpenRules): void {
+  rules = next;
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(next));
+  } catch { /* ignore */ }
+  rulesListeners.forEach(cb => cb(next));
+}
+
+// Returns an unsubscribe function
+export function onDiagAutoOpenRulesChange(callback: RulesListener): () => void {
+  rulesListeners.push(callback);
+  return () => {
+    rulesListeners = rulesListeners.filter(cb => cb !== callback);
+  };
+}
+
+export function shouldAutoOpen(events: { event: string }[], current: DiagAutoOpenRules = rules): boolean {
+  return events.some(e =>
+    current.events.includes(e.event) ||
+    (current.minSeverity !== null && severityAtLeast(getDiagEventType(e.event).severity, current.minSeverity)));
+}
@@ -0,0 +1,253 @@
+import type { DiagnosticEvent } from './api';
+import type { DeviceSlot } from './deviceSlots';
+import {
+  clearDiagEvents, getDiagEvents, getDiagEventsForSlot, putDiagEvents, pruneDiagEvents, type StoredDiagEvent,
+} from './db';
+import { getDiagEventType } from './diagEvents';
+
+// ---------- Diagnostic History ----------
+// Every GETLOG result is kept in IndexedDB. The board only knows millis()
+// since its last boot, so each entry is anchored to wall-clock time:
+//
+//   current boot   bootAt = fetch time − board millis() at fetch (from the
+//                  sensor stream; the newest entry when no frame arrived yet)
+//   earlier boots  entries before a BOOT (or a millis() jump backwards) ended
+//                  before the next boot, so bootAt is only an estimate
+//
+// Fetches overlap (the ring holds the last 64 entries), so a fetch is matched
+// to boots already stored for that board and only new entries are added.
+
+export type { StoredDiagEvent } from './db';
+
+const SAME_BOOT_TOLERANCE_MS = 5000;  // clock error between two exact anchors
+const MIN_SHARED_ENTRIES = 2;         // identical entries that identify an estimated boot
+const MAX_STORED_EVENTS = 5000;
+
+export interface BootSegment {
+  events: DiagnosticEvent[];
+  bootAt: number;
+  approximate: boolean;
+}
+
+export interface DiagHistoryFilter {
+  slots?: DeviceSlot[];
+  events?: string[];
+  from?: number;        // wall-clock ms
+  to?: number;
+}
+
+// Time windows offered by the history views
+export type HistoryRange = 'day' | 'week' | 'month' | 'all';
+
+export const HISTORY_RANGES: { value: HistoryRange; label: string; ms: number | null }[] = [
+  { value: 'day', label: '24 h', ms: 24 * 60 * 60 * 1000 },
+  { value: 'week', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: 'month', label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { value: 'all', label: 'All', ms: null },
+];
+
+// Board a log was fetched from
+export interface DiagSource {
+  device: string | null;    // advertised name
+  firmware: string | null;  // from the handshake
+}
+
+// Entries of one board boot, for grouping the timeline
+export interface DiagBoot {
+  bootId: string;
+  slot: DeviceSlot;
+  device: string | null;
+  firmware: string | null;
+  bootAt: number;
+  approximate: boolean;
+  events: StoredDiagEvent[];
+}
+
+type HistoryListener = () => void;
+
+const entryKey = (e: { timestamp: number; event: string; value: number }) => `${e.timestamp}:${e.event}:${e.value}`;
+
+// Split a fetched log at reboots and anchor each part, newest boot last
+export function segmentByBoot(events: DiagnosticEvent[], fetchedAt: number, boardMillis: number | null): BootSegment[] {
+  const parts: DiagnosticEvent[][] = [];
+  for (const event of [...events].sort((a, b) => a.index - b.index)) {
+    const current = parts[parts.length - 1];
+    const previous = current?.[current.length - 1];
+    const rebooted = previous && (event.event === 'BOOT' || event.timestamp < previous.timestamp);
+    if (!current || rebooted) parts.push([event]);
+    else current.push(event);
+  }
+
+  const segments: BootSegment[] = [];
+  let nextBootAt: number | null = null;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const last = parts[i][parts[i].length - 1].timestamp;
+    const bootAt: number = nextBootAt === null
+      ? fetchedAt - Math.max(boardMillis ?? last, last)
+      : nextBootAt - last;  // assume it ran right up to the next boot
+    segments.unshift({ events: parts[i], bootAt: Math.round(bootAt), approximate: nextBootAt !== null || boardMillis === null });
+    nextBootAt = bootAt;
+  }
+  return segments;
+}
+
+export function groupByBoot(events: StoredDiagEvent[]): DiagBoot[] {
+  const boots = new Map<string, DiagBoot>();
+  for (const e of events) {
+    let boot = boots.get(e.bootId);
+    if (!boot) {
+      boot = {
+        bootId: e.bootId, slot: e.slot, device: e.device, firmware: e.firmware ?? null,
+        bootAt: e.bootAt, approximate: e.approximate, events: [],
+      };
+      boots.set(e.bootId, boot);
+    }
+    boot.events.push(e);
+  }
+  return [...boots.values()]
+    .map(boot => ({ ...boot, events: boot.events.sort((a, b) => a.timestamp - b.timestamp) }))
+    .sort((a, b) => a.bootAt - b.bootAt);
+}
+
+function findBoot(segment: BootSegment, boots: DiagBoot[], used: Set<string>): DiagBoot | null {
+  for (const boot of boots) {
+    if (used.has(boot.bootId)) continue;
+    if (!boot.approximate && !segment.approximate && Math.abs(boot.bootAt - segment.bootAt) <= SAME_BOOT_TOLERANCE_MS) {
+      return boot;
+    }
+    const known = new Set(boot.events.map(entryKey));
+    if (segment.events.filter(e => known.has(entryKey(e))).length >= MIN_SHARED_ENTRIES) return boot;
+  }
+  return null;
+}
+
+export class DiagHistory {
+  private listeners: HistoryListener[] = [];
+  private pending: Promise<unknown> = Promise.resolve();
+
+  // Store one fetched log; resolves with the number of entries not seen before
+  record(slot: DeviceSlot, source: DiagSource, events: DiagnosticEvent[], boardMillis: number | null, fetchedAt = Date.now()): Promise<number> {
+    // One fetch at a time, so overlapping fetches see each other's entries
+    const run = this.pending.then(() => this.store(slot, source, events, boardMillis, fetchedAt));
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  async query(filter: DiagHistoryFilter = {}): Promise<StoredDiagEvent[]> {
+    const events = await getDiagEvents(filter.from, filter.to);
+    return events.filter(e =>
+      (!filter.slots || filter.slots.includes(e.slot)) &&
+      (!filter.events || filter.events.includes(e.event)));
+  }
+
+  async clear(): Promise<void> {
+    await clearDiagEvents();
+    this.notify();
+  }
+
+  // Returns an unsubscribe function
+  onChange(listener: HistoryListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async store(slot: DeviceSlot, source: DiagSource, events: DiagnosticEvent[], boardMillis: number | null, fetchedAt: number): Promise<number> {
+    if (events.length === 0) return 0;
+    const boots = groupByBoot(await getDiagEventsForSlot(slot));
+    const used = new Set<string>();
+    const writes: StoredDiagEvent[] = [];
+    let added = 0;
+
+    for (const segment of segmentByBoot(events, fetchedAt, boardMillis)) {
+      const match = findBoot(segment, boots, used);
+      let bootId = `${slot}-${segment.bootAt}`;
+      let { bootAt, approximate } = segment;
+      if (match) {
+        used.add(match.bootId);
+        bootId = match.bootId;
+        if (match.approximate && !segment.approximate) {
+          // An exact anchor replaces the stored estimate
+          match.events.forEach(e => writes.push({ ...e, bootAt, wallTime: bootAt + e.timestamp, approximate: false }));
+        } else {
+          ({ bootAt, approximate } = match);
+        }
+      }
+
+      const known = new Set(match?.events.map(entryKey));
+      for (const e of segment.events) {
+        const key = entryKey(e);
+        if (known.has(key)) continue;
+        known.add(key);
+        writes.push({
+          key: `${bootId}:${key}`,
+          bootId, slot, bootAt,
+          device: source.device,
+          firmware: source.firmware,
+          timestamp: e.timestamp,
+          wallTime: bootAt + e.timestamp,
+          event: e.event,
+          value: e.value,
+          approximate,
+          firstSeenAt: fetchedAt,
+        });
+        added++;
+      }
+    }
+
+    if (writes.length > 0) {
+      await putDiagEvents(writes);
+      await pruneDiagEvents(MAX_STORED_EVENTS);
+      this.notify();
+    }
+    return added;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const diagHistory = new DiagHistory();
+
+// ---------- Export ----------
+// For attaching to firmware bug reports
+
+export function diagHistoryToJson(events: StoredDiagEvent[]): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+    boots: groupByBoot(events).map(boot => ({
+      slot: boot.slot,
+      device: boot.device,
+      firmware: boot.firmware,
+      bootAt: new Date(boot.bootAt).toISOString(),
+      approximate: boot.approximate,
+      events: boot.events.map(e => ({
+        time: new Date(e.wallTime).toISOString(),
+        millis: e.timestamp,
+        event: e.event,
+        value: e.value,
+        severity: getDiagEventType(e.event).severity,
+      })),
+    })),
+  }, null, 2);
+}
+
+export function diagHistoryToCsv(events: StoredDiagEvent[]): string {
+  const header = 'time,approximate,slot,device,firmware,boot_at,millis,event,value,severity';
+  const rows = events.map(e => [
+    new Date(e.wallTime).toISOString(),
+    e.approximate ? 1 : 0,
+    e.slot,
+    e.device ?? '',
+    e.firmware ?? '',
+    new Date(e.bootAt).toISOString(),
+    e.timestamp,
+    e.event,
+    e.value,
+    getDiagEventType(e.event).severity,
+  ].join(','));
+  return [header, ...rows].join('\n');
+}
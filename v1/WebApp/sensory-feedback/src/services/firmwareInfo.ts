@@ -0,0 +1,71 @@
+import { SLOT_CHANNELS, type DeviceSlot } from './deviceSlots';
+
+// ---------- Firmware Handshake ----------
+// On every connect and reconnect the app sends GET:HELLO#<id>; the board
+// answers with what it is and what it understands:
+//   {"re":1,"d":{"fw":"1.1.0","proto":1,"n":4,"cmd":["POWER","MODE",...]}}
+// Firmware from before the handshake replies "unknown endpoint"; it is
+// treated as protocol 0 with the command set the app has always assumed.
+
+// Protocol versions this app can talk to
+//   1: binary sensor frames, tagged GET requests, HELLO
+//   2: tagged commands are acknowledged (see CommandChannel.ts)
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 0;
+
+export interface FirmwareInfo {
+  slot: DeviceSlot;
+  firmware: string | null;   // version string, null for pre-handshake firmware
+  protocol: number;          // 0 = pre-handshake
+  sensors: number;           // channels this board reports
+  commands: string[];        // command names it accepts (GET endpoints not included)
+  compatible: boolean;       // protocol within MIN_PROTOCOL_VERSION..PROTOCOL_VERSION
+}
+
+// Wire format of the HELLO reply's "d"
+interface RawHello {
+  fw: string;
+  proto: number;
+  n: number;
+  cmd: string[];
+}
+
+// What every board understood before HELLO existed
+const LEGACY_COMMANDS = [
+  'GET', 'POWER', 'MODE', 'VOLUME_TOTAL', 'SENSOR_VOLUME', 'SENSOR_THRESHOLD',
+  'CALIBRATE', 'SENSITIVITY', 'GETLOG',
+];
+
+export const isCompatibleProtocol = (protocol: number) =>
+  protocol >= MIN_PROTOCOL_VERSION && protocol <= PROTOCOL_VERSION;
+
+export function legacyFirmwareInfo(slot: DeviceSlot): FirmwareInfo {
+  return {
+    slot,
+    firmware: null,
+    protocol: 0,
+    sensors: SLOT_CHANNELS[slot].length,
+    commands: LEGACY_COMMANDS,
+    compatible: true,
+  };
+}
+
+export function parseHello(slot: DeviceSlot, reply: unknown): FirmwareInfo {
+  const raw = reply as RawHello;
+  if (typeof raw !== 'object' || raw === null || typeof raw.proto !== 'number' || !Array.isArray(raw.cmd)) {
+    throw new Error(`Unexpected HELLO reply from ${slot}: ${JSON.stringify(raw)}`);
+  }
+  return {
+    slot,
+    firmware: typeof raw.fw === 'string' ? raw.fw : null,
+    protocol: raw.proto,
+    sensors: typeof raw.n === 'number' ? raw.n : SLOT_CHANNELS[slot].length,
+    commands: raw.cmd.map(String),
+    compatible: isCompatibleProtocol(raw.proto),
+  };
+}
+
+// Reply a simulated board gives, mirroring the firmware's
+export function helloReply(channels: number, firmware: string): RawHello {
+  return { fw: firmware, proto: PROTOCOL_VERSION, n: channels, cmd: [...LEGACY_COMMANDS, 'HOST', 'CALIBRATE_SPAN'] };
+}
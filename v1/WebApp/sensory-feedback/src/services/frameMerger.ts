@@ -0,0 +1,126 @@
+import { SLOT_CHANNELS, type DeviceSlot } from './deviceSlots';
+import type { DecodedFrame } from './sensorFrame';
+
+// ---------- Frame Merger ----------
+// With one board per shoe, left and right frames arrive independently, each
+// stamped with its own millis() clock. Both clocks are mapped onto the local
+// clock and frames whose aligned times fall within half a sample period are
+// combined into one 4-channel frame. A side that is missing (disconnected,
+// dropped frame) contributes its last known values.
+
+export interface MergedFrame {
+  time: number;           // aligned local time, ms (performance.now() base)
+  values: number[];       // raw ADC per global sensor index (RF, LF, RB, LB)
+  sources: DeviceSlot[];  // boards that contributed a fresh sample
+}
+
+interface PendingSide {
+  time: number;
+  values: number[];
+}
+
+export interface FrameMergerOptions {
+  pairWindowMs?: number;  // max aligned-time difference to pair left/right
+  staleMs?: number;       // side counts as absent after this long without frames
+}
+
+// Offset estimate may creep up this much per frame, so slow clock drift
+// between the ESP32 and the browser is followed instead of pinned to the
+// single least-delayed frame ever seen
+const OFFSET_DRIFT_PER_FRAME = 0.01;
+
+export class FrameMerger {
+  private onFrame: (frame: MergedFrame) => void;
+  private pairWindowMs: number;
+  private staleMs: number;
+  private clockOffsets = new Map<DeviceSlot, number>();
+  private pending = new Map<DeviceSlot, PendingSide>();
+  private lastValues = new Map<DeviceSlot, number[]>();
+  private lastSeen = new Map<DeviceSlot, number>();
+
+  constructor(onFrame: (frame: MergedFrame) => void, options: FrameMergerOptions = {}) {
+    this.onFrame = onFrame;
+    this.pairWindowMs = options.pairWindowMs ?? 25;
+    this.staleMs = options.staleMs ?? 150;
+  }
+
+  push(slot: DeviceSlot, frame: DecodedFrame, receivedAt: number = performance.now()): void {
+    const time = this.alignTime(slot, frame, receivedAt);
+    this.lastSeen.set(slot, receivedAt);
+    this.lastValues.set(slot, frame.values);
+
+    if (slot === 'main') {
+      this.onFrame({ time, values: frame.values.slice(0, 4), sources: ['main'] });
+      return;
+    }
+
+    const other: DeviceSlot = slot === 'left' ? 'right' : 'left';
+    const partner = this.pending.get(other);
+    if (partner && Math.abs(partner.time - time) <= this.pairWindowMs) {
+      this.pending.delete(other);
+      const pairTime = (partner.time + time) / 2;
+      // Our previous frame never found a partner — release it first so times stay in order
+      this.releasePending(pairTime);
+      this.pending.delete(slot);
+      this.emit(pairTime, [slot, other], new Map([[slot, frame.values], [other, partner.values]]));
+      return;
+    }
+
+    // Frames older than this one can no longer pair — release them on their own.
+    // Anything of ours still pending is newer (arrived out of order) and is dropped
+    this.releasePending(time);
+    this.pending.delete(slot);
+
+    const otherSeen = this.lastSeen.get(other);
+    if (otherSeen === undefined || receivedAt - otherSeen > this.staleMs) {
+      // Other side absent — don't hold this frame back waiting for it
+      this.emit(time, [slot], new Map([[slot, frame.values]]));
+    } else {
+      this.pending.set(slot, { time, values: frame.values });
+    }
+  }
+
+  // Forget a board's clock and samples (disconnect, or reconnect after a possible reboot)
+  reset(slot?: DeviceSlot): void {
+    const slots = slot ? [slot] : [...this.lastSeen.keys()];
+    for (const s of slots) {
+      this.clockOffsets.delete(s);
+      this.pending.delete(s);
+      this.lastValues.delete(s);
+      this.lastSeen.delete(s);
+    }
+  }
+
+  private alignTime(slot: DeviceSlot, frame: DecodedFrame, receivedAt: number): number {
+    if (frame.format === 'legacy') return receivedAt;  // no device clock
+    const sample = receivedAt - frame.deviceTime;
+    const prev = this.clockOffsets.get(slot);
+    // Least-delayed frame gives the best estimate of the clock offset
+    const offset = prev === undefined ? sample : Math.min(sample, prev + OFFSET_DRIFT_PER_FRAME);
+    this.clockOffsets.set(slot, offset);
+    return frame.deviceTime + offset;
+  }
+
+  // Emit pending frames older than `before` unpaired, oldest first
+  private releasePending(before: number): void {
+    const older = [...this.pending.entries()]
+      .filter(([, side]) => side.time < before)
+      .sort(([, a], [, b]) => a.time - b.time);
+    for (const [slot, side] of older) {
+      this.pending.delete(slot);
+      this.emit(side.time, [slot], new Map([[slot, side.values]]));
+    }
+  }
+
+  private emit(time: number, fresh: DeviceSlot[], values: Map<DeviceSlot, number[]>): void {
+    const merged = [0, 0, 0, 0];
+    for (const side of ['left', 'right'] as DeviceSlot[]) {
+      const sideValues = values.get(side) ?? this.lastValues.get(side);
+      if (!sideValues) continue;
+      SLOT_CHANNELS[side].forEach((globalIndex, local) => {
+        merged[globalIndex] = sideValues[local] ?? 0;
+      });
+    }
+    this.onFrame({ time, values: merged, sources: fresh });
+  }
+}
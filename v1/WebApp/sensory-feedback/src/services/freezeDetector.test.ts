@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { detectFreezes, FreezeDetector, type FreezeTransition } from './freezeDetector';
+import type { GaitSample } from './gaitEvents';
+
+// Both feet trembling at 5Hz, sampled at 20Hz, from `from` for `seconds`
+function trembling(from: number, seconds: number): GaitSample[] {
+  return Array.from({ length: seconds * 20 }, (_, i) => {
+    const time = from + i * 50;
+    const level = 40 + 30 * Math.sin(2 * Math.PI * 5 * (time / 1000) + Math.PI / 4);
+    return { time, values: [level, level, level, level] };
+  });
+}
+
+function transitions(detector: FreezeDetector, samples: GaitSample[]): FreezeTransition[] {
+  return samples.map(s => detector.push(s)).filter((t): t is FreezeTransition => t !== null);
+}
+
+describe('FreezeDetector', () => {
+  it('starts an episode while the feet tremble in place', () => {
+    const detector = new FreezeDetector();
+    const found = transitions(detector, trembling(0, 6));
+    expect(found.map(t => t.type)).toEqual(['start']);
+    expect(detector.getStatus()).toMatchObject({ freezing: true, episode: { end: null } });
+  });
+
+  it('ends an ongoing episode at the last sample on reset', () => {
+    const detector = new FreezeDetector();
+    const samples = trembling(0, 6);
+    transitions(detector, samples);
+    const last = samples[samples.length - 1].time;
+    expect(detector.reset()).toMatchObject({ type: 'end', episode: { end: last } });
+    expect(detector.getStatus()).toMatchObject({ freezing: false, episode: { end: last } });
+    expect(detector.reset()).toBeNull();
+  });
+
+  it('ends an ongoing episode at a gap in the samples', () => {
+    const detector = new FreezeDetector();
+    const before = trembling(0, 6);
+    const found = transitions(detector, [...before, ...trembling(20000, 6)]);
+    const last = before[before.length - 1].time;
+    expect(found.map(t => t.type)).toEqual(['start', 'end', 'start']);
+    expect(found[1].episode.end).toBe(last);
+  });
+});
+
+describe('detectFreezes', () => {
+  it('splits the episodes of a recording at a gap', () => {
+    const before = trembling(0, 6);
+    const after = trembling(20000, 6);
+    const episodes = detectFreezes([...before, ...after]);
+    expect(episodes).toHaveLength(2);
+    expect(episodes[0].end).toBe(before[before.length - 1].time);
+    expect(episodes[1].start).toBeGreaterThanOrEqual(20000);
+    expect(episodes[1].end).toBe(after[after.length - 1].time);
+  });
+});
@@ -0,0 +1,325 @@
+import type { AudioMode } from './api';
+import { GaitDetector, type Foot, FOOT_CHANNELS, type GaitSample } from './gaitEvents';
+import type { RecordingFrame } from './recordingCsv';
+import { sensorStream, type SensorFrame } from './sensorStream';
+
+// ---------- Freezing of Gait ----------
+// A freeze is trembling in place instead of stepping: the load under each
+// foot oscillates fast (3-8 Hz) rather than at walking pace (0.5-3 Hz).
+// Over a sliding window the freeze index is the power in the freeze band
+// divided by the power in the locomotor band (Moore et al., 2008). A window
+// counts as freezing when
+//
+//   freeze index ≥ threshold  and  band power ≥ minimum (not standing still)
+//   and the feet have not both taken a step recently (no walking)
+//
+// Trembling also loads and unloads the feet, so a heel-strike only counts as
+// a step when it comes at least `minStrideMs` after that foot's previous one.
+// An episode starts once that has held for `minEpisodeMs`, dated from the
+// start of its first freezing window, and ends after `releaseMs` without it.
+
+export interface FreezeDetectorOptions {
+  freezeIndexThreshold: number;
+  minPower: number;           // band power (level²) below this is standing still
+  windowMs: number;
+  hopMs: number;              // evaluate this often
+  minEpisodeMs: number;
+  releaseMs: number;
+  stepGapMs: number;          // both feet stepped within this long: still walking
+  minStrideMs: number;        // faster heel-strikes of one foot are trembling, not steps
+}
+
+export const DEFAULT_FREEZE_OPTIONS: FreezeDetectorOptions = {
+  freezeIndexThreshold: 2,
+  minPower: 4,
+  windowMs: 2000,
+  hopMs: 250,
+  minEpisodeMs: 1000,
+  releaseMs: 1500,
+  stepGapMs: 2000,
+  minStrideMs: 600,
+};
+
+const LOCOMOTOR_BAND: [number, number] = [0.5, 3];
+const FREEZE_BAND: [number, number] = [3, 8];
+
+export interface FreezeEpisode {
+  start: number;              // ms, on the samples' clock
+  end: number | null;         // null while ongoing
+  peakFreezeIndex: number;
+}
+
+export interface FreezeStatus {
+  freezing: boolean;
+  freezeIndex: number | null; // null until the first window is full
+  power: number;
+  time: number;               // of the last evaluation, on the samples' clock
+  episode: FreezeEpisode | null;  // current, or the last one
+}
+
+export interface FreezeTransition {
+  type: 'start' | 'end';
+  episode: FreezeEpisode;
+}
+
+export interface BandPower {
+  locomotor: number;
+  freeze: number;
+}
+
+// Mean power of the signal in two frequency bands (plain DFT; windows are short)
+export function bandPower(signal: number[], sampleRateHz: number): BandPower {
+  const n = signal.length;
+  const result = { locomotor: 0, freeze: 0 };
+  if (n < 4 || sampleRateHz <= 0) return result;
+  const mean = signal.reduce((sum, v) => sum + v, 0) / n;
+  for (let k = 1; k < n / 2; k++) {
+    const frequency = (k * sampleRateHz) / n;
+    const inLocomotor = frequency >= LOCOMOTOR_BAND[0] && frequency < LOCOMOTOR_BAND[1];
+    const inFreeze = frequency >= FREEZE_BAND[0] && frequency <= FREEZE_BAND[1];
+    if (!inLocomotor && !inFreeze) continue;
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < n; i++) {
+      const angle = (2 * Math.PI * k * i) / n;
+      re += (signal[i] - mean) * Math.cos(angle);
+      im -= (signal[i] - mean) * Math.sin(angle);
+    }
+    // One-sided power, normalised so a sine of amplitude A gives A²/2
+    const power = (2 * (re * re + im * im)) / (n * n);
+    if (inLocomotor) result.locomotor += power;
+    else result.freeze += power;
+  }
+  return result;
+}
+
+export class FreezeDetector {
+  private options: FreezeDetectorOptions;
+  private gait = new GaitDetector();
+  private window: GaitSample[] = [];
+  private lastStrike: Record<Foot, number> = { left: -Infinity, right: -Infinity };
+  private lastStep: Record<Foot, number> = { left: -Infinity, right: -Infinity };
+  private lastEvaluation = -Infinity;
+  private candidateSince: number | null = null;
+  private clearSince: number | null = null;
+  private status: FreezeStatus = { freezing: false, freezeIndex: null, power: 0, time: 0, episode: null };
+
+  constructor(options: Partial<FreezeDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_FREEZE_OPTIONS, ...options };
+  }
+
+  // Feed samples in time order; returns an episode start or end when one happens.
+  // A gap longer than the window ends an ongoing episode at the last sample before it
+  push(sample: GaitSample): FreezeTransition | null {
+    const last = this.window[this.window.length - 1];
+    let ended: FreezeTransition | null = null;
+    if (last && (sample.time < last.time || sample.time - last.time > this.options.windowMs)) ended = this.reset();
+
+    for (const event of this.gait.push(sample)) {
+      if (event.type !== 'heel-strike') continue;
+      if (event.time - this.lastStrike[event.foot] >= this.options.minStrideMs) this.lastStep[event.foot] = event.time;
+      this.lastStrike[event.foot] = event.time;
+    }
+    this.window.push(sample);
+    while (this.window.length > 1 && sample.time - this.window[0].time > this.options.windowMs) this.window.shift();
+
+    const span = sample.time - this.window[0].time;
+    if (span < this.options.windowMs * 0.9 || sample.time - this.lastEvaluation < this.options.hopMs) return ended;
+    this.lastEvaluation = sample.time;
+    return this.evaluate(sample.time, this.window[0].time, span);
+  }
+
+  getStatus(): FreezeStatus {
+    return this.status;
+  }
+
+  // Start over; returns the end of an ongoing episode, closed at the last sample
+  reset(): FreezeTransition | null {
+    let transition: FreezeTransition | null = null;
+    let episode = this.status.episode;
+    if (episode && episode.end === null) {
+      episode = { ...episode, end: this.window[this.window.length - 1]?.time ?? this.status.time };
+      transition = { type: 'end', episode };
+    }
+    this.gait.reset();
+    this.window = [];
+    this.lastStrike = { left: -Infinity, right: -Infinity };
+    this.lastStep = { left: -Infinity, right: -Infinity };
+    this.lastEvaluation = -Infinity;
+    this.candidateSince = null;
+    this.clearSince = null;
+    this.status = { freezing: false, freezeIndex: null, power: 0, time: 0, episode };
+    return transition;
+  }
+
+  private evaluate(time: number, windowStart: number, span: number): FreezeTransition | null {
+    const rate = ((this.window.length - 1) / span) * 1000;
+    const bands = (['left', 'right'] as Foot[]).map(foot => {
+      const { heel, toe } = FOOT_CHANNELS[foot];
+      return bandPower(this.window.map(s => (s.values[heel] ?? 0) + (s.values[toe] ?? 0)), rate);
+    });
+    const locomotor = bands.reduce((sum, b) => sum + b.locomotor, 0);
+    const freeze = bands.reduce((sum, b) => sum + b.freeze, 0);
+    const freezeIndex = locomotor > 0 ? freeze / locomotor : freeze > 0 ? Infinity : 0;
+    const power = (locomotor + freeze) / bands.length;
+
+    const walking = time - this.lastStep.left <= this.options.stepGapMs && time - this.lastStep.right <= this.options.stepGapMs;
+    const frozen = freezeIndex >= this.options.freezeIndexThreshold && power >= this.options.minPower && !walking;
+
+    let transition: FreezeTransition | null = null;
+    let episode = this.status.episode;
+    if (frozen) {
+      this.clearSince = null;
+      this.candidateSince ??= windowStart;
+      if (!this.status.freezing && time - this.candidateSince >= this.options.minEpisodeMs) {
+        episode = { start: this.candidateSince, end: null, peakFreezeIndex: freezeIndex };
+        transition = { type: 'start', episode };
+      }
+    } else {
+      this.candidateSince = null;
+      if (this.status.freezing) {
+        this.clearSince ??= time;
+        if (time - this.clearSince >= this.options.releaseMs && episode) {
+          episode = { ...episode, end: this.clearSince };
+          transition = { type: 'end', episode };
+        }
+      }
+    }
+    if (episode && episode.end === null && Number.isFinite(freezeIndex) && freezeIndex > episode.peakFreezeIndex) {
+      episode = { ...episode, peakFreezeIndex: freezeIndex };
+    }
+
+    this.status = {
+      freezing: transition ? transition.type === 'start' : this.status.freezing,
+      freezeIndex,
+      power,
+      time,
+      episode,
+    };
+    return transition;
+  }
+}
+
+// All episodes of a recording; one still going at the end closes at the last sample
+export function detectFreezes(samples: (GaitSample | RecordingFrame)[], options: Partial<FreezeDetectorOptions> = {}): FreezeEpisode[] {
+  const detector = new FreezeDetector(options);
+  const episodes: FreezeEpisode[] = [];
+  for (const sample of samples) {
+    const transition = detector.push(sample);
+    if (transition?.type === 'end') episodes.push(transition.episode);
+  }
+  const open = detector.getStatus().episode;
+  if (open && open.end === null && samples.length > 0) episodes.push({ ...open, end: samples[samples.length - 1].time });
+  return episodes;
+}
+
+// ---------- Settings ----------
+// Detector parameters and what to do when a freeze starts, kept in localStorage
+
+export type FreezeAction = 'none' | 'mode' | 'volume';
+
+export interface FreezeResponse {
+  action: FreezeAction;
+  mode: AudioMode;            // 'mode': switch to this for the episode
+  volumeBoost: number;        // 'volume': raise the master volume by this much (0-100)
+}
+
+export interface FreezeSettings {
+  detector: FreezeDetectorOptions;
+  response: FreezeResponse;
+}
+
+export const DEFAULT_FREEZE_SETTINGS: FreezeSettings = {
+  detector: DEFAULT_FREEZE_OPTIONS,
+  response: { action: 'none', mode: 1, volumeBoost: 30 },
+};
+
+const STORAGE_KEY = 'tom-freeze-settings';
+
+type SettingsListener = (settings: FreezeSettings) => void;
+let settingsListeners: SettingsListener[] = [];
+
+function loadSettings(): FreezeSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw);
+      return {
+        detector: { ...DEFAULT_FREEZE_SETTINGS.detector, ...stored.detector },
+        response: { ...DEFAULT_FREEZE_SETTINGS.response, ...stored.response },
+      };
+    }
+  } catch { /* ignore */ }
+  return DEFAULT_FREEZE_SETTINGS;
+}
+
+let settings = loadSettings();
+
+export function getFreezeSettings(): FreezeSettings {
+  return settings;
+}
+
+export function setFreezeSettings(next: FreezeSettings): void {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch { /* ignore */ }
+  settingsListeners.forEach(cb => cb(next));
+}
+
+// Returns an unsubscribe function
+export function onFreezeSettingsChange(callback: SettingsListener): () => void {
+  settingsListeners.push(callback);
+  return () => {
+    settingsListeners = settingsListeners.filter(cb => cb !== callback);
+  };
+}
+
+// ---------- Live ----------
+// Runs the detector on the sensor stream while anyone is listening; a
+// settings change restarts it with the new parameters
+
+export type FreezeListener = (status: FreezeStatus, transition: FreezeTransition | null) => void;
+
+export class FreezeMonitor {
+  private detector = new FreezeDetector(settings.detector);
+  private listeners: FreezeListener[] = [];
+  private detach: (() => void) | null = null;
+
+  constructor() {
+    onFreezeSettingsChange(next => {
+      // Listeners hear the end of an ongoing episode before the new detector takes over
+      const transition = this.detector.reset();
+      const status = this.detector.getStatus();
+      this.detector = new FreezeDetector(next.detector);
+      if (transition) this.listeners.forEach(listener => listener(status, transition));
+    });
+  }
+
+  // Called after every evaluation (4 times a second by default); returns an unsubscribe function
+  subscribe(listener: FreezeListener): () => void {
+    this.listeners.push(listener);
+    if (!this.detach) this.detach = sensorStream.subscribe(frame => this.onFrame(frame));
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0 && this.detach) {
+        this.detach();
+        this.detach = null;
+        this.detector.reset();
+      }
+    };
+  }
+
+  getStatus(): FreezeStatus {
+    return this.detector.getStatus();
+  }
+
+  private onFrame(frame: SensorFrame): void {
+    const before = this.detector.getStatus();
+    const transition = this.detector.push({ time: frame.deviceTime, values: frame.calibrated });
+    const status = this.detector.getStatus();
+    if (status !== before) this.listeners.forEach(listener => listener(status, transition));
+  }
+}
+
+export const freezeMonitor = new FreezeMonitor();
@@ -0,0 +1,78 @@
+import { EspApi, type AudioMode } from './api';
+import { getFreezeSettings, onFreezeSettingsChange, type FreezeSettings, type FreezeTransition } from './freezeDetector';
+
+// ---------- Freeze Response ----------
+// Cueing while a freezing episode lasts: switch the audio mode or raise the
+// master volume when it starts, and put the previous value back when it
+// ends. Runs only while an action is configured, so the detector is idle
+// otherwise.
+
+interface Restore {
+  mode?: AudioMode;
+  volume?: number;
+}
+
+// Apply the configured response to live episodes; returns a stop function
+export function startFreezeResponse(): () => void {
+  let detach: (() => void) | null = null;
+  let restore: Restore | null = null;
+  let pending = false;           // cueing is being switched on
+  let freezing = false;
+
+  const undo = () => {
+    const previous = restore;
+    restore = null;
+    if (!previous || !EspApi.isConnected()) return;
+    const done = previous.mode !== undefined
+      ? EspApi.setMode(previous.mode)
+      : EspApi.setVolumeTotal(previous.volume ?? 0);
+    done.catch(error => console.error('[Freeze] Failed to restore after episode:', error));
+  };
+
+  const onTransition = async (transition: FreezeTransition) => {
+    freezing = transition.type === 'start';
+    if (!freezing) return undo();
+    const { response } = getFreezeSettings();
+    if (response.action === 'none' || restore || pending) return;
+    // Claimed before the first await, so a quick second start doesn't cue twice
+    pending = true;
+    try {
+      const state = await EspApi.getState();
+      if (response.action === 'mode') {
+        restore = { mode: state.mode };
+        await EspApi.setMode(response.mode);
+      } else {
+        restore = { volume: state.volume };
+        await EspApi.setVolumeTotal(Math.min(100, state.volume + response.volumeBoost));
+      }
+      // The episode may have ended while the board was answering
+      if (!freezing) undo();
+    } catch (error) {
+      console.error('[Freeze] Failed to start cueing:', error);
+    } finally {
+      pending = false;
+    }
+  };
+
+  const apply = (settings: FreezeSettings) => {
+    const wanted = settings.response.action !== 'none';
+    if (wanted && !detach) {
+      detach = EspApi.onFreeze((_status, transition) => {
+        if (transition) onTransition(transition);
+      });
+    } else if (!wanted && detach) {
+      detach();
+      detach = null;
+      freezing = false;
+      undo();
+    }
+  };
+
+  apply(getFreezeSettings());
+  const unsubscribe = onFreezeSettingsChange(apply);
+  return () => {
+    unsubscribe();
+    detach?.();
+    undo();
+  };
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectGaitEvents, FEET, type Foot, type GaitEvent, type GaitSample } from './gaitEvents';
+import { ScenarioEngine, type GaitProfile } from './stubScenarios';
+
+// Samples as the app sees them: the stub's raw ADC at 20Hz, normalized to 0-100
+function walk(profile: GaitProfile, seconds: number, mode = 0): GaitSample[] {
+  const engine = new ScenarioEngine();
+  engine.setProfile(profile);
+  return Array.from({ length: seconds * 20 }, (_, i) => ({
+    time: i * 50,
+    values: engine.sample(i * 0.05, mode, 75).map(raw => Math.min(100, (raw / 4095) * 100)),
+  }));
+}
+
+const ofFoot = (events: GaitEvent[], foot: Foot) => events.filter(e => e.foot === foot);
+
+// Steps per minute from the heel-strikes of both feet
+function cadence(events: GaitEvent[]): number {
+  const strikes = events.filter(e => e.type === 'heel-strike').map(e => e.time);
+  return ((strikes.length - 1) / (strikes[strikes.length - 1] - strikes[0])) * 60000;
+}
+
+// Every stance of a foot: heel-strike, then optionally foot-flat and heel-off, then toe-off
+const STANCE = /^(HS (FF (HO )?)?TO )*(HS (FF (HO )?)?)?$/;
+const ABBREVIATION = { 'heel-strike': 'HS', 'foot-flat': 'FF', 'heel-off': 'HO', 'toe-off': 'TO' };
+const sequence = (events: GaitEvent[]) => events.map(e => `${ABBREVIATION[e.type]} `).join('');
+
+// Seeded jitter, so the stub's noise is the same on every run
+beforeEach(() => {
+  let seed = 42;
+  vi.spyOn(Math, 'random').mockImplementation(() => {
+    seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+    return seed / 2 ** 32;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('detectGaitEvents', () => {
+  it('finds all four events of every stance in a normal walk, in order', () => {
+    const events = detectGaitEvents(walk('mode', 20));
+    for (const foot of FEET) {
+      const types = sequence(ofFoot(events, foot));
+      expect(types).toMatch(/^(HS FF HO TO )+(HS (FF (HO )?)?)?$/);
+      // 0.6 strides/s over 20s, less the first stride while the range adapts
+      expect(types.match(/HS/g)?.length).toBeGreaterThanOrEqual(10);
+    }
+  });
+
+  it('measures the cadence of a normal walk', () => {
+    // Accordion mode walks 0.6 strides/s: 72 steps/min
+    expect(cadence(detectGaitEvents(walk('mode', 20)))).toBeCloseTo(72, -1);
+  });
+
+  it('alternates the feet', () => {
+    const strikes = detectGaitEvents(walk('mode', 20)).filter(e => e.type === 'heel-strike');
+    strikes.slice(1).forEach((strike, i) => expect(strike.foot).not.toBe(strikes[i].foot));
+  });
+
+  it('follows the flat-footed landings of a shuffle with foot-flat right away', () => {
+    const events = detectGaitEvents(walk('shuffle', 20));
+    for (const foot of FEET) {
+      const footEvents = ofFoot(events, foot);
+      expect(sequence(footEvents)).toMatch(STANCE);
+      const strikes = footEvents.filter(e => e.type === 'heel-strike');
+      expect(strikes.length).toBeGreaterThan(10);
+      // Heel and toe load together; each crosses its own threshold within a sample or two
+      for (const strike of strikes) {
+        const next = footEvents[footEvents.indexOf(strike) + 1];
+        if (!next) continue;
+        expect(next.type).toBe('foot-flat');
+        expect(next.time - strike.time).toBeLessThanOrEqual(100);
+      }
+    }
+  });
+
+  it('measures the quicker cadence of a shuffle', () => {
+    // 1.1 strides/s: 132 steps/min
+    expect(cadence(detectGaitEvents(walk('shuffle', 20)))).toBeCloseTo(132, -1);
+  });
+
+  it('keeps stances complete and ordered through freezing episodes', () => {
+    const events = detectGaitEvents(walk('freezing', 36));
+    for (const foot of FEET) expect(sequence(ofFoot(events, foot))).toMatch(STANCE);
+  });
+
+  it('does not count the trembling of a freeze one step per load', () => {
+    const events = detectGaitEvents(walk('freezing', 36));
+    // Trembling at 5Hz for 3s of every 12s cycle: 15 loads per foot, every 200ms.
+    // A new stance needs minStanceMs + minSwingMs, so at most every other one counts
+    for (const foot of FEET) {
+      const strikes = ofFoot(events, foot).filter(e => e.type === 'heel-strike').map(e => e.time);
+      strikes.slice(1).forEach((time, i) => expect(time - strikes[i]).toBeGreaterThanOrEqual(300));
+      for (let cycle = 0; cycle < 3; cycle++) {
+        const start = cycle * 12000 + 8000;
+        expect(strikes.filter(time => time >= start && time < start + 3000).length).toBeLessThan(15 / 2);
+      }
+    }
+  });
+});
+
+describe('hysteresis', () => {
+  // Right heel and toe rise and fall together; the left foot stays unloaded
+  const rightFoot = (levels: number[]): GaitSample[] =>
+    levels.map((level, i) => ({ time: i * 50, values: [level, 0, level, 0] }));
+
+  // Warm-up steps between 0 and 80 set the range: on above 24, off below 12
+  const steps = (count: number) => Array.from({ length: count }, () => [...Array(10).fill(80), ...Array(10).fill(0)]).flat();
+
+  it('ignores a level wavering between the off and on thresholds', () => {
+    const wavering = Array.from({ length: 20 }, (_, i) => (i % 2 ? 21 : 16));
+    const events = detectGaitEvents(rightFoot([...steps(3), 80, ...wavering, 0, 0, 0]));
+    const afterLastStep = events.filter(e => e.time >= 3 * 20 * 50);
+    // One stance: loaded at 80, held through the wavering, released at 0
+    expect(sequence(afterLastStep)).toBe('HS FF HO TO ');
+    expect(afterLastStep[3].time).toBe((3 * 20 + 21) * 50);
+  });
+
+  it('reports heel and toe loading together as heel-strike and foot-flat on one sample', () => {
+    const events = detectGaitEvents(rightFoot(steps(3)));
+    const strikes = events.filter(e => e.type === 'heel-strike');
+    expect(strikes.length).toBeGreaterThan(0);
+    for (const strike of strikes) {
+      expect(events[events.indexOf(strike) + 1]).toMatchObject({ type: 'foot-flat', time: strike.time });
+    }
+  });
+
+  it('does not start a stance until the level passes the on threshold', () => {
+    const belowOn = Array(20).fill(20);
+    const events = detectGaitEvents(rightFoot([...steps(3), ...belowOn]));
+    expect(events.filter(e => e.time >= 3 * 20 * 50)).toEqual([]);
+  });
+
+  it('sees no steps when the range stays below the minimum amplitude', () => {
+    const idle = Array.from({ length: 200 }, (_, i) => 20 + 5 * Math.sin(i / 3));
+    expect(detectGaitEvents(rightFoot(idle))).toEqual([]);
+  });
+});
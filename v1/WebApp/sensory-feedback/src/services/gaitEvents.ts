@@ -0,0 +1,260 @@
+import type { RecordingFrame } from './recordingCsv';
+import { sensorStream, type SensorFrame } from './sensorStream';
+
+// ---------- Gait Events ----------
+// Detects the four stance events of each foot from its heel (back) and toe
+// (front) sensor:
+//
+//   swing ──heel-strike──▶ loading ──foot-flat──▶ flat ──heel-off──▶ push-off ──toe-off──▶ swing
+//
+// Initial contact is reported as heel-strike even when the toe lands first;
+// a flat-footed landing gives heel-strike and foot-flat on the same sample.
+// Every heel-strike is followed by exactly one toe-off; a stance that never
+// loads the toe skips foot-flat and heel-off.
+//
+// A sensor counts as loaded above `onFraction` of its recent range and
+// unloaded again below `offFraction` (hysteresis). The range adapts: the
+// peak jumps up with the signal and decays slowly, the floor follows the
+// signal down and creeps up slowly, so a new wearer, a different
+// sensitivity or an uncalibrated baseline need no setup.
+
+export type Foot = 'left' | 'right';
+
+export const FEET: Foot[] = ['left', 'right'];
+
+// Global sensor indices [RF, LF, RB, LB] of each foot
+export const FOOT_CHANNELS: Record<Foot, { toe: number; heel: number }> = {
+  right: { toe: 0, heel: 2 },
+  left: { toe: 1, heel: 3 },
+};
+
+export type GaitEventType = 'heel-strike' | 'foot-flat' | 'heel-off' | 'toe-off';
+
+export type FootPhase = 'swing' | 'loading' | 'flat' | 'push-off';
+
+// Loading of one whole stance, reported with its toe-off
+export interface StanceLoad {
+  peak: number;       // highest heel or toe level
+  integral: number;   // pressure-time integral of heel + toe, level·s
+}
+
+export interface GaitEvent {
+  type: GaitEventType;
+  foot: Foot;
+  time: number;       // ms, on the samples' clock
+  heel: number;       // sensor levels at the event
+  toe: number;
+  load?: StanceLoad;  // toe-off only
+}
+
+export interface GaitSample {
+  time: number;       // ms
+  values: number[];   // [RF, LF, RB, LB], calibrated 0-100
+}
+
+export interface GaitDetectorOptions {
+  minAmplitude: number;   // smallest peak-to-floor range (0-100) that counts as stepping
+  onFraction: number;     // of the range: sensor becomes loaded above this
+  offFraction: number;    // and unloaded below this
+  minStanceMs: number;    // shorter contacts are held until this long
+  minSwingMs: number;     // a new contact this soon after toe-off is ignored
+  adaptMs: number;        // time constant of peak decay and floor creep
+  maxGapMs: number;       // longer gaps between samples restart detection
+}
+
+export const DEFAULT_GAIT_OPTIONS: GaitDetectorOptions = {
+  minAmplitude: 15,
+  onFraction: 0.3,
+  offFraction: 0.15,
+  minStanceMs: 150,
+  minSwingMs: 150,
+  adaptMs: 4000,
+  maxGapMs: 1000,
+};
+
+export type GaitEventListener = (event: GaitEvent) => void;
+
+// Adaptive range and hysteresis state of one sensor
+class SensorLevel {
+  peak = 0;
+  floor = 0;
+  loaded = false;
+  private primed = false;
+  private options: GaitDetectorOptions;
+
+  constructor(options: GaitDetectorOptions) {
+    this.options = options;
+  }
+
+  update(value: number, dt: number): void {
+    if (!this.primed) {
+      this.peak = this.floor = value;
+      this.primed = true;
+      return;
+    }
+    const alpha = 1 - Math.exp(-dt / this.options.adaptMs);
+    this.peak = value > this.peak ? value : this.peak + (Math.max(value, this.floor) - this.peak) * alpha;
+    this.floor = value < this.floor ? value : this.floor + (value - this.floor) * alpha;
+
+    const range = this.peak - this.floor;
+    // Too little movement to tell stance from swing (standing, sensor idle): keep the last state
+    if (range < this.options.minAmplitude) return;
+    if (!this.loaded && value > this.floor + range * this.options.onFraction) this.loaded = true;
+    else if (this.loaded && value < this.floor + range * this.options.offFraction) this.loaded = false;
+  }
+}
+
+class FootTracker {
+  phase: FootPhase = 'swing';
+  private heel: SensorLevel;
+  private toe: SensorLevel;
+  private strikeAt = -Infinity;
+  private toeOffAt = -Infinity;
+  private load: StanceLoad = { peak: 0, integral: 0 };
+  private foot: Foot;
+  private options: GaitDetectorOptions;
+
+  constructor(foot: Foot, options: GaitDetectorOptions) {
+    this.foot = foot;
+    this.options = options;
+    this.heel = new SensorLevel(options);
+    this.toe = new SensorLevel(options);
+  }
+
+  push(time: number, dt: number, values: number[]): GaitEvent[] {
+    const { heel: heelIndex, toe: toeIndex } = FOOT_CHANNELS[this.foot];
+    const heel = values[heelIndex] ?? 0;
+    const toe = values[toeIndex] ?? 0;
+    this.heel.update(heel, dt);
+    this.toe.update(toe, dt);
+
+    if (this.phase !== 'swing') {
+      this.load.peak = Math.max(this.load.peak, heel, toe);
+      this.load.integral += (heel + toe) * dt / 1000;
+    }
+
+    const events: GaitEvent[] = [];
+    const emit = (type: GaitEventType, phase: FootPhase) => {
+      const event: GaitEvent = { type, foot: this.foot, time, heel, toe };
+      if (type === 'heel-strike') this.load = { peak: Math.max(heel, toe), integral: 0 };
+      if (type === 'toe-off') event.load = this.load;
+      events.push(event);
+      this.phase = phase;
+    };
+    const heelOn = this.heel.loaded;
+    const toeOn = this.toe.loaded;
+    const stanceDone = time - this.strikeAt >= this.options.minStanceMs;
+
+    if (this.phase === 'swing') {
+      if ((heelOn || toeOn) && time - this.toeOffAt >= this.options.minSwingMs) {
+        this.strikeAt = time;
+        emit('heel-strike', 'loading');
+        if (heelOn && toeOn) emit('foot-flat', 'flat');
+      }
+    } else if (this.phase === 'loading') {
+      if (toeOn) emit('foot-flat', 'flat');
+      else if (!heelOn && stanceDone) emit('toe-off', 'swing');  // lifted without ever rolling onto the toe
+    }
+
+    if (this.phase === 'flat' && !heelOn && stanceDone) emit('heel-off', 'push-off');
+    if (this.phase === 'push-off' && !toeOn && stanceDone) emit('toe-off', 'swing');
+
+    if (this.phase === 'swing' && events.length > 0) this.toeOffAt = time;
+    return events;
+  }
+}
+
+// Feed samples in time order; each push returns the events it completed
+export class GaitDetector {
+  private options: GaitDetectorOptions;
+  private feet!: Record<Foot, FootTracker>;
+  private lastTime: number | null = null;
+
+  constructor(options: Partial<GaitDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_GAIT_OPTIONS, ...options };
+    this.reset();
+  }
+
+  push(sample: GaitSample): GaitEvent[] {
+    if (this.lastTime !== null && (sample.time < this.lastTime || sample.time - this.lastTime > this.options.maxGapMs)) {
+      this.reset();
+    }
+    const dt = this.lastTime === null ? 0 : sample.time - this.lastTime;
+    this.lastTime = sample.time;
+    return FEET.flatMap(foot => this.feet[foot].push(sample.time, dt, sample.values));
+  }
+
+  getPhase(foot: Foot): FootPhase {
+    return this.feet[foot].phase;
+  }
+
+  getPhases(): Record<Foot, FootPhase> {
+    return { left: this.getPhase('left'), right: this.getPhase('right') };
+  }
+
+  reset(): void {
+    this.feet = {
+      left: new FootTracker('left', this.options),
+      right: new FootTracker('right', this.options),
+    };
+    this.lastTime = null;
+  }
+}
+
+// All events of a recording (RecordingFrame time is already in ms)
+export function detectGaitEvents(samples: (GaitSample | RecordingFrame)[], options: Partial<GaitDetectorOptions> = {}): GaitEvent[] {
+  const detector = new GaitDetector(options);
+  return samples.flatMap(sample => detector.push(sample));
+}
+
+const PHASE_AFTER: Record<GaitEventType, FootPhase> = {
+  'heel-strike': 'loading',
+  'foot-flat': 'flat',
+  'heel-off': 'push-off',
+  'toe-off': 'swing',
+};
+
+// Phase of a foot at `time`, from detected events in time order
+export function footPhaseAt(events: GaitEvent[], foot: Foot, time: number): FootPhase {
+  let phase: FootPhase = 'swing';
+  for (const event of events) {
+    if (event.time > time) break;
+    if (event.foot === foot) phase = PHASE_AFTER[event.type];
+  }
+  return phase;
+}
+
+// ---------- Live ----------
+// Runs one detector over the sensor stream while anyone is listening
+
+export class GaitEventStream {
+  private detector = new GaitDetector();
+  private listeners: GaitEventListener[] = [];
+  private detach: (() => void) | null = null;
+
+  // Returns an unsubscribe function
+  subscribe(listener: GaitEventListener): () => void {
+    this.listeners.push(listener);
+    if (!this.detach) this.detach = sensorStream.subscribe(frame => this.onFrame(frame));
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0 && this.detach) {
+        this.detach();
+        this.detach = null;
+        this.detector.reset();
+      }
+    };
+  }
+
+  getPhases(): Record<Foot, FootPhase> {
+    return this.detector.getPhases();
+  }
+
+  private onFrame(frame: SensorFrame): void {
+    for (const event of this.detector.push({ time: frame.deviceTime, values: frame.calibrated })) {
+      this.listeners.forEach(listener => listener(event));
+    }
+  }
+}
+
+export const gaitEvents = new GaitEventStream();
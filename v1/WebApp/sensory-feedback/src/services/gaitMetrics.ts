@@ -0,0 +1,154 @@
+import { FEET, type Foot, type GaitEvent, type StanceLoad } from './gaitEvents';
+
+// ---------- Gait Metrics ----------
+// Spatiotemporal parameters from the detected gait events. One cycle per
+// stride, from a heel-strike to the next heel-strike of the same foot:
+//
+//   stance        heel-strike → toe-off
+//   swing         toe-off → next heel-strike
+//   step time     the other foot's last heel-strike → this heel-strike
+//   double support  both feet on the ground during this stride's stance
+//
+// Strides longer than MAX_STRIDE_MS are pauses, not walking, and are skipped.
+
+export const MAX_STRIDE_MS = 3000;
+
+// Live averages cover the last strides of each foot
+export const ROLLING_STRIDES = 10;
+
+export interface GaitCycle {
+  foot: Foot;
+  start: number;                      // heel-strike, ms
+  toeOff: number;
+  end: number;                        // next heel-strike of the same foot
+  strideTime: number;
+  stanceTime: number;
+  swingTime: number;
+  stepTime: number | null;            // null when the other foot didn't strike during this stride
+  doubleSupportTime: number | null;   // null without events from the other foot
+  peakPressure: number;               // highest heel or toe level during stance
+  pressureTimeIntegral: number;       // heel + toe over the stance, level·s
+}
+
+export interface MetricStats {
+  mean: number;
+  cv: number | null;    // coefficient of variation in %, from 2 values up
+  count: number;
+}
+
+export interface FootGaitMetrics {
+  strides: number;
+  strideTime: MetricStats | null;     // ms
+  stepTime: MetricStats | null;
+  stanceTime: MetricStats | null;
+  swingTime: MetricStats | null;
+  stancePercent: MetricStats | null;  // of the stride
+  swingPercent: MetricStats | null;
+  doubleSupportTime: MetricStats | null;
+  doubleSupportPercent: MetricStats | null;
+}
+
+export interface GaitMetrics {
+  cadence: number | null;             // steps/min, both feet
+  steps: number;
+  feet: Record<Foot, FootGaitMetrics>;
+}
+
+interface Stance {
+  start: number;
+  end: number;
+  load: StanceLoad;
+}
+
+export function metricStats(values: number[]): MetricStats | null {
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (values.length < 2 || mean === 0) return { mean, cv: null, count: values.length };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, cv: (Math.sqrt(variance) / mean) * 100, count: values.length };
+}
+
+// Heel-strike → toe-off pairs of one foot
+function stances(events: GaitEvent[], foot: Foot): Stance[] {
+  const result: Stance[] = [];
+  let strike: number | null = null;
+  for (const event of events) {
+    if (event.foot !== foot) continue;
+    if (event.type === 'heel-strike') strike = event.time;
+    else if (event.type === 'toe-off' && strike !== null) {
+      result.push({ start: strike, end: event.time, load: event.load ?? { peak: 0, integral: 0 } });
+      strike = null;
+    }
+  }
+  return result;
+}
+
+const overlap = (a: Stance, b: Stance) => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+// Complete strides in the events, oldest first
+export function gaitCycles(events: GaitEvent[]): GaitCycle[] {
+  const sorted = [...events].sort((a, b) => a.time - b.time);
+  const byFoot: Record<Foot, Stance[]> = { left: stances(sorted, 'left'), right: stances(sorted, 'right') };
+  const cycles: GaitCycle[] = [];
+
+  for (const foot of FEET) {
+    const own = byFoot[foot];
+    const other = byFoot[foot === 'left' ? 'right' : 'left'];
+    for (let i = 0; i + 1 < own.length; i++) {
+      const stance = own[i];
+      const end = own[i + 1].start;
+      const strideTime = end - stance.start;
+      if (strideTime > MAX_STRIDE_MS) continue;
+
+      const previous = i > 0 ? own[i - 1].start : stance.start - strideTime;
+      const otherStrike = other.filter(s => s.start <= stance.start && s.start > previous).pop();
+      const otherActive = other.some(s => s.end >= stance.start && s.start <= end);
+      cycles.push({
+        foot,
+        start: stance.start,
+        toeOff: stance.end,
+        end,
+        strideTime,
+        stanceTime: stance.end - stance.start,
+        swingTime: end - stance.end,
+        stepTime: otherStrike ? stance.start - otherStrike.start : null,
+        doubleSupportTime: otherActive ? other.reduce((sum, s) => sum + overlap(stance, s), 0) : null,
+        peakPressure: stance.load.peak,
+        pressureTimeIntegral: stance.load.integral,
+      });
+    }
+  }
+  return cycles.sort((a, b) => a.start - b.start);
+}
+
+function footMetrics(cycles: GaitCycle[]): FootGaitMetrics {
+  const values = (pick: (c: GaitCycle) => number | null) =>
+    metricStats(cycles.map(pick).filter((v): v is number => v !== null));
+  return {
+    strides: cycles.length,
+    strideTime: values(c => c.strideTime),
+    stepTime: values(c => c.stepTime),
+    stanceTime: values(c => c.stanceTime),
+    swingTime: values(c => c.swingTime),
+    stancePercent: values(c => (c.stanceTime / c.strideTime) * 100),
+    swingPercent: values(c => (c.swingTime / c.strideTime) * 100),
+    doubleSupportTime: values(c => c.doubleSupportTime),
+    doubleSupportPercent: values(c => c.doubleSupportTime === null ? null : (c.doubleSupportTime / c.strideTime) * 100),
+  };
+}
+
+// Averages over the given cycles; pass `lastStrides` for a rolling window per foot
+export function summarizeGait(cycles: GaitCycle[], lastStrides?: number): GaitMetrics {
+  const perFoot = (foot: Foot) => {
+    const own = cycles.filter(c => c.foot === foot);
+    return lastStrides === undefined ? own : own.slice(-lastStrides);
+  };
+  const feet = { left: footMetrics(perFoot('left')), right: footMetrics(perFoot('right')) };
+  const steps = FEET.flatMap(foot => perFoot(foot).map(c => c.stepTime)).filter((v): v is number => v !== null);
+  const meanStep = metricStats(steps)?.mean;
+  return {
+    cadence: meanStep ? 60000 / meanStep : null,
+    steps: steps.length,
+    feet,
+  };
+}
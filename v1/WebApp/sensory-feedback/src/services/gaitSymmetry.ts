@@ -0,0 +1,118 @@
+import { detectGaitEvents, type Foot } from './gaitEvents';
+import { gaitCycles, metricStats, type GaitCycle } from './gaitMetrics';
+import { parseRecordingCsv } from './recordingCsv';
+
+// ---------- Gait Symmetry ----------
+// Left/right comparison of per-stride averages with the symmetry index
+//
+//   SI = (right − left) / ((right + left) / 2) × 100
+//
+// 0 is perfectly symmetric; positive means the right side is larger. The
+// session score is 100 minus the mean |SI| over the available metrics
+// (floored at 0), so 100 is perfectly symmetric.
+
+export type SymmetryMetric = 'peakPressure' | 'pressureTimeIntegral' | 'stanceTime' | 'stepTime';
+
+export const SYMMETRY_METRICS: { metric: SymmetryMetric; label: string; unit: string }[] = [
+  { metric: 'peakPressure', label: 'Peak pressure', unit: '%' },
+  { metric: 'pressureTimeIntegral', label: 'Pressure-time integral', unit: '%·s' },
+  { metric: 'stanceTime', label: 'Stance time', unit: 'ms' },
+  { metric: 'stepTime', label: 'Step time', unit: 'ms' },
+];
+
+// |SI| up to this counts as symmetric in the views
+export const SYMMETRIC_SI = 10;
+
+export interface GaitSymmetry {
+  feet: Record<Foot, Record<SymmetryMetric, number | null>>;   // per-stride means
+  indices: Record<SymmetryMetric, number | null>;
+  score: number | null;
+  strides: number;                                             // fewer of the two feet
+}
+
+export function symmetryIndex(right: number | null, left: number | null): number | null {
+  if (right === null || left === null || right + left === 0) return null;
+  return ((right - left) / ((right + left) / 2)) * 100;
+}
+
+function footMeans(cycles: GaitCycle[]): Record<SymmetryMetric, number | null> {
+  const mean = (values: (number | null)[]) =>
+    metricStats(values.filter((v): v is number => v !== null))?.mean ?? null;
+  return {
+    peakPressure: mean(cycles.map(c => c.peakPressure)),
+    pressureTimeIntegral: mean(cycles.map(c => c.pressureTimeIntegral)),
+    stanceTime: mean(cycles.map(c => c.stanceTime)),
+    stepTime: mean(cycles.map(c => c.stepTime)),
+  };
+}
+
+// Symmetry over the given cycles; pass `lastStrides` for a rolling window per foot
+export function gaitSymmetry(cycles: GaitCycle[], lastStrides?: number): GaitSymmetry {
+  const perFoot = (foot: Foot) => {
+    const own = cycles.filter(c => c.foot === foot);
+    return lastStrides === undefined ? own : own.slice(-lastStrides);
+  };
+  const right = perFoot('right');
+  const left = perFoot('left');
+  const feet = { right: footMeans(right), left: footMeans(left) };
+  const indices = Object.fromEntries(SYMMETRY_METRICS.map(({ metric }) =>
+    [metric, symmetryIndex(feet.right[metric], feet.left[metric])])) as Record<SymmetryMetric, number | null>;
+  const known = Object.values(indices).filter((v): v is number => v !== null);
+  return {
+    feet,
+    indices,
+    score: known.length > 0 ? Math.max(0, 100 - known.reduce((sum, v) => sum + Math.abs(v), 0) / known.length) : null,
+    strides: Math.min(right.length, left.length),
+  };
+}
+
+export function recordingSymmetry(csv: string): GaitSymmetry {
+  return gaitSymmetry(gaitCycles(detectGaitEvents(parseRecordingCsv(csv, 'unfiltered'))));
+}
+
+// ---------- Per Recording ----------
+// Saved sessions live in cloud storage, so summaries are kept in localStorage
+// and each CSV is only downloaded and analysed once.
+
+export interface RecordingSymmetrySummary {
+  indices: Record<SymmetryMetric, number | null>;
+  score: number | null;
+  strides: number;
+}
+
+const STORAGE_KEY = 'tom-recording-symmetry';
+
+function loadSummaries(): Record<string, RecordingSymmetrySummary> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch { /* ignore */ }
+  return {};
+}
+
+let summaries = loadSummaries();
+
+function saveSummaries(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(summaries));
+  } catch { /* ignore */ }
+}
+
+// Analyse a recording unless it already has a summary
+export async function loadRecordingSymmetry(id: string, download: () => Promise<string>): Promise<RecordingSymmetrySummary> {
+  const known = summaries[id];
+  if (known) return known;
+  const { indices, score, strides } = recordingSymmetry(await download());
+  summaries = { ...summaries, [id]: { indices, score, strides } };
+  saveSummaries();
+  return summaries[id];
+}
+
+// Drop summaries of recordings that no longer exist
+export function pruneRecordingSymmetry(ids: string[]): void {
+  const keep = new Set(ids);
+  const next = Object.fromEntries(Object.entries(summaries).filter(([id]) => keep.has(id)));
+  if (Object.keys(next).length === Object.keys(summaries).length) return;
+  summaries = next;
+  saveSummaries();
+}
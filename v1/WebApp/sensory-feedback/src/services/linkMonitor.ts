@@ -0,0 +1,150 @@
+import type { DeviceSlot } from './deviceSlots';
+import { FrameRing } from './sensorStream';
+
+// ---------- Link Monitor ----------
+// Per-board health of the notification stream, measured on arrival:
+// frame rate against the firmware's 20 Hz, gaps between frames, periods
+// where only {"hb":1} heartbeats arrive (the board's loop() is stalled) and
+// PING round-trip time. EspApi feeds it and publishes a snapshot every second.
+
+export const EXPECTED_FRAME_RATE_HZ = 20;
+
+const WINDOW_MS = 5000;          // rate and gap percentiles cover this much history
+const ARRIVALS_KEPT = 256;       // > WINDOW_MS worth of frames at 20 Hz
+const LATENCIES_KEPT = 10;
+const OFFLINE_AFTER_MS = 3000;   // nothing at all for this long
+
+export type LinkQuality = 'good' | 'fair' | 'poor' | 'stalled' | 'offline';
+
+export interface LinkStats {
+  slot: DeviceSlot;
+  frameRate: number;              // frames/s over the last WINDOW_MS
+  gapP50: number | null;          // ms between consecutive frames
+  gapP95: number | null;
+  gapMax: number | null;
+  stalled: boolean;               // heartbeats but no frames since the last frame
+  stallCount: number;             // heartbeat-only periods since connect
+  stallMs: number;                // length of the current (or last) stall
+  latencyMs: number | null;       // last PING round trip
+  latencyAvgMs: number | null;    // over the last LATENCIES_KEPT pings
+  pingFailures: number;           // PINGs without a reply since connect
+  quality: LinkQuality;
+}
+
+interface SlotLink {
+  arrivals: FrameRing<number>;    // performance.now() per frame
+  latencies: FrameRing<number>;
+  lastHeartbeatAt: number | null;
+  stallStartedAt: number | null;
+  stallEndedAt: number | null;
+  stallCount: number;
+  pingFailures: number;
+  lastLatency: number | null;
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+function classify(stats: Omit<LinkStats, 'quality'>, lastSeen: number | null, now: number): LinkQuality {
+  if (lastSeen === null || now - lastSeen > OFFLINE_AFTER_MS) return 'offline';
+  if (stats.stalled) return 'stalled';
+  const rate = stats.frameRate / EXPECTED_FRAME_RATE_HZ;
+  const gap = stats.gapP95 ?? 0;
+  const latency = stats.latencyMs ?? 0;
+  if (rate < 0.6 || gap > 250 || latency > 500) return 'poor';
+  if (rate < 0.9 || gap > 120 || latency > 200) return 'fair';
+  return 'good';
+}
+
+export class LinkMonitor {
+  private links = new Map<DeviceSlot, SlotLink>();
+
+  recordFrame(slot: DeviceSlot, at: number = performance.now()): void {
+    const link = this.linkFor(slot);
+    link.arrivals.push(at);
+    if (link.stallStartedAt !== null && link.stallEndedAt === null) link.stallEndedAt = at;
+  }
+
+  recordHeartbeat(slot: DeviceSlot, at: number = performance.now()): void {
+    const link = this.linkFor(slot);
+    link.lastHeartbeatAt = at;
+    // First heartbeat since the last frame starts a stall
+    const stalled = link.stallStartedAt !== null && link.stallEndedAt === null;
+    if (!stalled) {
+      link.stallStartedAt = at;
+      link.stallEndedAt = null;
+      link.stallCount++;
+    }
+  }
+
+  recordLatency(slot: DeviceSlot, ms: number | null): void {
+    const link = this.linkFor(slot);
+    if (ms === null) {
+      link.pingFailures++;
+      return;
+    }
+    link.lastLatency = ms;
+    link.latencies.push(ms);
+  }
+
+  // Forget a board (disconnect) or all of them
+  reset(slot?: DeviceSlot): void {
+    if (slot) this.links.delete(slot);
+    else this.links.clear();
+  }
+
+  snapshot(now: number = performance.now()): LinkStats[] {
+    return [...this.links].map(([slot, link]) => {
+      const all = link.arrivals.toArray();
+      const arrivals = all.filter(t => now - t <= WINDOW_MS);
+      const gaps = arrivals.slice(1).map((t, i) => t - arrivals[i]).sort((a, b) => a - b);
+      const latencies = link.latencies.toArray();
+      const stalled = link.stallStartedAt !== null && link.stallEndedAt === null;
+      const stats = {
+        slot,
+        frameRate: arrivals.length / (WINDOW_MS / 1000),
+        gapP50: percentile(gaps, 0.5),
+        gapP95: percentile(gaps, 0.95),
+        gapMax: gaps.length > 0 ? gaps[gaps.length - 1] : null,
+        stalled,
+        stallCount: link.stallCount,
+        stallMs: link.stallStartedAt === null ? 0 : (link.stallEndedAt ?? now) - link.stallStartedAt,
+        latencyMs: link.lastLatency,
+        latencyAvgMs: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null,
+        pingFailures: link.pingFailures,
+      };
+      const lastSeen = Math.max(all[all.length - 1] ?? -Infinity, link.lastHeartbeatAt ?? -Infinity);
+      return { ...stats, quality: classify(stats, Number.isFinite(lastSeen) ? lastSeen : null, now) };
+    });
+  }
+
+  private linkFor(slot: DeviceSlot): SlotLink {
+    let link = this.links.get(slot);
+    if (!link) {
+      link = {
+        arrivals: new FrameRing<number>(ARRIVALS_KEPT),
+        latencies: new FrameRing<number>(LATENCIES_KEPT),
+        lastHeartbeatAt: null,
+        stallStartedAt: null,
+        stallEndedAt: null,
+        stallCount: 0,
+        pingFailures: 0,
+        lastLatency: null,
+      };
+      this.links.set(slot, link);
+    }
+    return link;
+  }
+}
+
+// Worst quality across boards, for a single indicator
+const QUALITY_ORDER: LinkQuality[] = ['good', 'fair', 'poor', 'stalled', 'offline'];
+
+export function overallQuality(stats: LinkStats[]): LinkQuality | null {
+  if (stats.length === 0) return null;
+  return stats.reduce<LinkQuality>((worst, s) =>
+    QUALITY_ORDER.indexOf(s.quality) > QUALITY_ORDER.indexOf(worst) ? s.quality : worst, 'good');
+}
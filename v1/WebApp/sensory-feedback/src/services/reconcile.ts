@@ -0,0 +1,143 @@
+import { EspApi, type AudioMode, type DeviceState } from './api';
+import { fullScaleLevel, type SensorCalibration } from './calibration';
+
+// ---------- Device State Reconciliation ----------
+// After a connect/reconnect the device may have lost settings (firmware reboot
+// → BOOT diag event resets everything except mode). Instead of blindly
+// re-sending everything, read STATE back, resend only what differs, and
+// verify. Repeats a few times before declaring the device out of sync.
+
+export interface DesiredDeviceState {
+  mode: AudioMode;
+  power: boolean;
+  volume: number;
+  sensorVolumes: number[];
+  sensitivity: number;
+  calibration: SensorCalibration | null;  // null: never calibrated, leave the board's defaults
+}
+
+export type SyncField = keyof DesiredDeviceState;
+
+export type SyncStatus = 'in-sync' | 'out-of-sync' | 'unverified';
+
+export interface ReconcileResult {
+  status: SyncStatus;
+  mismatched: SyncField[];  // fields still different after the last attempt
+  attempts: number;
+  error?: string;
+}
+
+export interface ReconcileOptions {
+  retries?: number;   // resend rounds after the first diff
+  settleMs?: number;  // wait after resending before reading back
+}
+
+const VALUE_TOLERANCE = 1;  // device rounds volumes/slider to integers
+
+const near = (a: number, b: number) => Math.abs(a - b) <= VALUE_TOLERANCE;
+
+export function diffDeviceState(desired: DesiredDeviceState, actual: DeviceState): SyncField[] {
+  const fields: SyncField[] = [];
+  if (desired.mode !== actual.mode) fields.push('mode');
+  if (desired.power !== actual.power) fields.push('power');
+  if (!near(desired.volume, actual.volume)) fields.push('volume');
+  // NaN: channel belongs to a per-shoe board that isn't connected
+  if (desired.sensorVolumes.some((v, i) => actual.sensorVolumes[i] === undefined
+    || (!Number.isNaN(actual.sensorVolumes[i]) && !near(v, actual.sensorVolumes[i])))) {
+    fields.push('sensorVolumes');
+  }
+  if (actual.sensitivity === null || !near(desired.sensitivity, actual.sensitivity)) fields.push('sensitivity');
+  // NaN: board not connected, or firmware without CALIBRATE_SPAN (no full scale)
+  const differs = (wanted: number, reported: number | undefined) =>
+    reported === undefined || (!Number.isNaN(reported) && !near(wanted, reported));
+  if (desired.calibration?.channels.some((c, i) =>
+    differs(c.offset, actual.calibration[i]) || differs(fullScaleLevel(c), actual.fullScale[i]))) {
+    fields.push('calibration');
+  }
+  return fields;
+}
+
+async function pushField(desired: DesiredDeviceState, field: SyncField): Promise<void> {
+  switch (field) {
+    case 'mode':
+      await EspApi.setMode(desired.mode);
+      break;
+    case 'power':
+      await EspApi.switchOn(desired.power);
+      break;
+    case 'volume':
+      await EspApi.setVolumeTotal(desired.volume);
+      break;
+    case 'sensorVolumes': {
+      // Send every channel even if one fails, then report the field as failed
+      let failure: unknown = null;
+      for (let i = 0; i < desired.sensorVolumes.length; i++) {
+        await EspApi.setSensorVolume(i, desired.sensorVolumes[i]).catch(err => { failure = err; });
+      }
+      if (failure) throw failure;
+      break;
+    }
+    case 'sensitivity':
+      await EspApi.setSensitivity(desired.sensitivity);
+      break;
+    case 'calibration':
+      if (desired.calibration) await EspApi.sendCalibration(desired.calibration);
+      break;
+  }
+}
+
+// A rejected command doesn't stop the others; the next read-back decides
+// what to resend. Returns the fields whose command failed
+async function pushFields(desired: DesiredDeviceState, fields: SyncField[]): Promise<SyncField[]> {
+  const failed: SyncField[] = [];
+  for (const field of fields) {
+    try {
+      await pushField(desired, field);
+    } catch (err) {
+      console.warn(`[SYNC] Failed to send ${field}:`, err);
+      failed.push(field);
+    }
+  }
+  return failed;
+}
+
+const ALL_FIELDS: SyncField[] = ['mode', 'volume', 'sensorVolumes', 'power', 'sensitivity', 'calibration'];
+
+export async function reconcileDeviceState(
+  desired: DesiredDeviceState,
+  options: ReconcileOptions = {},
+): Promise<ReconcileResult> {
+  const retries = options.retries ?? 3;
+  const settleMs = options.settleMs ?? 200;
+  let mismatched: SyncField[] = [];
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let actual: DeviceState;
+    try {
+      actual = await EspApi.getState();
+    } catch (err) {
+      if (attempt === 0) {
+        // Firmware without STATE support: fall back to pushing everything once
+        console.warn('[SYNC] Device state unavailable, pushing full state:', err);
+        const failed = await pushFields(desired, ALL_FIELDS);
+        return { status: failed.length > 0 ? 'out-of-sync' : 'unverified', mismatched: failed, attempts: 1, error: (err as Error).message };
+      }
+      // Read-back failed mid-way — retry the read on the next round
+      console.warn(`[SYNC] State read failed (attempt ${attempt + 1}):`, err);
+      await new Promise(resolve => setTimeout(resolve, settleMs));
+      continue;
+    }
+
+    mismatched = diffDeviceState(desired, actual);
+    if (mismatched.length === 0) {
+      return { status: 'in-sync', mismatched: [], attempts: attempt + 1 };
+    }
+    if (attempt === retries) break;
+
+    console.log(`[SYNC] Resending ${mismatched.join(', ')} (attempt ${attempt + 1}/${retries})`);
+    await pushFields(desired, mismatched);
+    await new Promise(resolve => setTimeout(resolve, settleMs));
+  }
+
+  return { status: 'out-of-sync', mismatched, attempts: retries + 1 };
+}
@@ -0,0 +1,158 @@
+import type { DeviceSlot } from './deviceSlots';
+
+// ---------- Reconnect Policy ----------
+// How hard to try after an unexpected drop: exponential backoff with jitter,
+// optionally capped by attempts and/or total time. Once the policy is
+// exhausted, passive mode keeps watching for the board's advertisements and
+// reconnects when it comes back in range (BLE and stub only; other links give up).
+
+export interface ReconnectPolicy {
+  maxAttempts: number | null;   // null = no attempt cap
+  baseDelayMs: number;          // delay before the first attempt
+  maxDelayMs: number;           // backoff ceiling; also the passive-mode rescan pause
+  multiplier: number;           // backoff growth per attempt
+  jitter: number;               // 0-1, each delay varies by ±jitter
+  maxTotalMs: number | null;    // null = no time cap
+  passive: boolean;             // watch for the board once exhausted
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: null,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxTotalMs: 2 * 60 * 1000,
+  passive: true,
+};
+
+const STORAGE_KEY = 'tom-reconnect-policy';
+
+type PolicyListener = (policy: ReconnectPolicy) => void;
+let policyListeners: PolicyListener[] = [];
+
+function loadPolicy(): ReconnectPolicy {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_RECONNECT_POLICY, ...JSON.parse(raw) };
+  } catch { /* ignore */ }
+  return DEFAULT_RECONNECT_POLICY;
+}
+
+let policy = loadPolicy();
+
+// Read at the start of every reconnect, so changes apply to the next drop
+export function getReconnectPolicy(): ReconnectPolicy {
+  return policy;
+}
+
+export function setReconnectPolicy(next: ReconnectPolicy): void {
+  policy = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch { /* ignore */ }
+  policyListeners.forEach(cb => cb(next));
+}
+
+// Returns an unsubscribe function
+export function onReconnectPolicyChange(callback: PolicyListener): () => void {
+  policyListeners.push(callback);
+  return () => {
+    policyListeners = policyListeners.filter(cb => cb !== callback);
+  };
+}
+
+// Wait before attempt n (1-based)
+export function nextReconnectDelay(p: ReconnectPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(p.maxDelayMs, p.baseDelayMs * p.multiplier ** (attempt - 1));
+  const spread = base * p.jitter;
+  return Math.max(0, Math.round(base - spread + random() * 2 * spread));
+}
+
+// True once attempt n (1-based) is beyond the policy's caps
+export function reconnectExhausted(p: ReconnectPolicy, attempt: number, startedAt: number, now = Date.now()): boolean {
+  if (p.maxAttempts !== null && attempt > p.maxAttempts) return true;
+  return p.maxTotalMs !== null && now - startedAt >= p.maxTotalMs;
+}
+
+// ---------- Reconnect Metrics ----------
+// Counted per session: from the first connect until the next connect that
+// starts with no board connected.
+
+export interface ReconnectMetrics {
+  sessionStartedAt: number | null;
+  drops: number;              // unexpected link losses
+  attempts: number;           // active reconnect attempts made
+  reconnects: number;         // links brought back by active retries
+  passiveReconnects: number;  // links brought back after the board re-advertised
+  gaveUp: number;             // policy exhausted without passive mode
+  longestOutageMs: number;
+  totalOutageMs: number;
+}
+
+type MetricsListener = (metrics: ReconnectMetrics) => void;
+
+const emptyMetrics = (sessionStartedAt: number | null): ReconnectMetrics => ({
+  sessionStartedAt, drops: 0, attempts: 0, reconnects: 0, passiveReconnects: 0,
+  gaveUp: 0, longestOutageMs: 0, totalOutageMs: 0,
+});
+
+export class ReconnectMetricsTracker {
+  private metrics = emptyMetrics(null);
+  private outageStarts = new Map<DeviceSlot, number>();
+  private listeners: MetricsListener[] = [];
+
+  startSession(): void {
+    this.metrics = emptyMetrics(Date.now());
+    this.outageStarts.clear();
+    this.notify();
+  }
+
+  recordDrop(slot: DeviceSlot): void {
+    this.outageStarts.set(slot, Date.now());
+    this.update({ drops: this.metrics.drops + 1 });
+  }
+
+  recordAttempt(): void {
+    this.update({ attempts: this.metrics.attempts + 1 });
+  }
+
+  recordRecovered(slot: DeviceSlot, passive: boolean): void {
+    const outageMs = Date.now() - (this.outageStarts.get(slot) ?? Date.now());
+    this.outageStarts.delete(slot);
+    this.update({
+      reconnects: this.metrics.reconnects + (passive ? 0 : 1),
+      passiveReconnects: this.metrics.passiveReconnects + (passive ? 1 : 0),
+      longestOutageMs: Math.max(this.metrics.longestOutageMs, outageMs),
+      totalOutageMs: this.metrics.totalOutageMs + outageMs,
+    });
+  }
+
+  recordGaveUp(slot: DeviceSlot): void {
+    this.outageStarts.delete(slot);
+    this.update({ gaveUp: this.metrics.gaveUp + 1 });
+  }
+
+  get(): ReconnectMetrics {
+    return this.metrics;
+  }
+
+  // Returns an unsubscribe function
+  onChange(listener: MetricsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private update(changes: Partial<ReconnectMetrics>): void {
+    this.metrics = { ...this.metrics, ...changes };
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.metrics));
+  }
+}
+
+export const reconnectMetrics = new ReconnectMetricsTracker();
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecordingCsv, parseRecordingPipelines, pipelineCsvRows, RECORDING_CSV_HEADER, reprocessRecording, type RecordedPipeline } from './recordingCsv';
+import { SignalPipeline, type SignalPipelineConfig } from './signalPipeline';
+
+const SMOOTHING: SignalPipelineConfig = {
+  channels: [[{ kind: 'butterworth', value: 3 }], [{ kind: 'median', value: 5 }], [{ kind: 'ema', value: 2 }], []],
+};
+const SHAPING: SignalPipelineConfig = {
+  channels: [[{ kind: 'movingAverage', value: 4 }, { kind: 'power', value: 0.7 }], [{ kind: 'deadband', value: 2 }], [], [{ kind: 'conductance', value: 80 }]],
+};
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+// Walking-like levels with spikes, already at the 0.1 resolution recordings keep
+function unfilteredAt(i: number): number[] {
+  const t = i * 0.05;
+  const spike = i % 37 === 0 ? 30 : 0;
+  return [0, 1, 2, 3].map(ch => round(Math.min(100, 40 + 35 * Math.sin(t * 2 * Math.PI * 0.6 + ch) + spike)));
+}
+
+// A recording as useRecording writes it: the live pipeline filters every frame
+// and restarts whenever the settings change
+function record(frameCount: number, pipelines: RecordedPipeline[]): string {
+  let live: SignalPipeline | null = null;
+  const rows = Array.from({ length: frameCount }, (_, i) => {
+    const time = i * 50;
+    const change = pipelines.find(p => p.from === time);
+    if (change) live = new SignalPipeline(change.config);
+    const unfiltered = unfilteredAt(i);
+    const processed = live ? live.process(unfiltered, time) : unfiltered;
+    return `${time},${processed.map(round).join(',')},${unfiltered.join(',')}`;
+  });
+  return [`${RECORDING_CSV_HEADER}\n${rows.join('\n')}`, ...pipelineCsvRows(pipelines)].join('\n');
+}
+
+const maxDifference = (a: number[][], b: number[][]) =>
+  Math.max(...a.flatMap((values, i) => values.map((v, ch) => Math.abs(v - b[i][ch]))));
+
+describe('reprocessRecording', () => {
+  it('reproduces the recorded levels from the unfiltered ones and the saved pipeline', () => {
+    const csv = record(400, [{ from: 0, config: SMOOTHING }]);
+    const recorded = parseRecordingCsv(csv).map(f => f.values);
+    const reprocessed = reprocessRecording(csv).map(f => f.values);
+    expect(reprocessed).toHaveLength(400);
+    expect(maxDifference(reprocessed, recorded)).toBeLessThanOrEqual(0.05 + 1e-9);
+  });
+
+  it('switches pipelines where the settings changed while recording', () => {
+    const pipelines = [{ from: 0, config: SMOOTHING }, { from: 10000, config: SHAPING }];
+    const csv = record(400, pipelines);
+    expect(parseRecordingPipelines(csv)).toEqual(pipelines);
+    const recorded = parseRecordingCsv(csv).map(f => f.values);
+    expect(maxDifference(reprocessRecording(csv).map(f => f.values), recorded)).toBeLessThanOrEqual(0.05 + 1e-9);
+  });
+
+  it('runs a given pipeline instead of the saved one', () => {
+    const csv = record(200, [{ from: 0, config: SMOOTHING }]);
+    const expected = record(200, [{ from: 0, config: SHAPING }]);
+    const reprocessed = reprocessRecording(csv, SHAPING).map(f => f.values);
+    expect(maxDifference(reprocessed, parseRecordingCsv(expected).map(f => f.values))).toBeLessThanOrEqual(0.05 + 1e-9);
+  });
+
+  it('passes the levels of a recording without a pipeline through', () => {
+    const csv = 'time_ms,right_front,left_front,right_back,left_back\n0,1,2,3,4\n50,5,6,7,8';
+    expect(parseRecordingCsv(csv, 'unfiltered')).toEqual(parseRecordingCsv(csv));
+    expect(reprocessRecording(csv)).toEqual([
+      { time: 0, values: [1, 2, 3, 4] },
+      { time: 50, values: [5, 6, 7, 8] },
+    ]);
+  });
+});
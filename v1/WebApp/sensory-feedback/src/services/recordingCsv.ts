@@ -0,0 +1,96 @@
+import { sanitizeSignalPipeline, SignalPipeline, type SignalPipelineConfig } from './signalPipeline';
+
+// ---------- Recording CSV ----------
+// Recordings are saved by useRecording as
+//   time_ms,right_front,left_front,right_back,left_back,unfiltered_right_front,...
+// with one row per captured frame; values are calibrated levels 0-100, first
+// after the signal pipeline (see signalPipeline.ts), then before it. The
+// pipeline follows as a comment row, one per change while recording, so
+// either can be reproduced
+//   # pipeline,from_ms,{"channels":[...]}
+// Freezing-of-gait episodes seen while recording are comment rows too
+//   # freeze,start_ms,end_ms
+// Older recordings have only the first four value columns.
+
+export interface RecordingFrame {
+  time: number;       // ms since recording start
+  values: number[];   // [RF, LF, RB, LB]
+}
+
+// 'unfiltered' falls back to the processed columns for older recordings
+export type RecordingColumns = 'processed' | 'unfiltered';
+
+export const RECORDING_CSV_HEADER =
+  'time_ms,right_front,left_front,right_back,left_back,unfiltered_right_front,unfiltered_left_front,unfiltered_right_back,unfiltered_left_back';
+
+export function parseRecordingCsv(csv: string, columns: RecordingColumns = 'processed'): RecordingFrame[] {
+  const frames: RecordingFrame[] = [];
+  for (const line of csv.trim().split('\n')) {
+    // Header row and comment lines aren't data
+    if (line.startsWith('#') || !/^\s*\d/.test(line)) continue;
+    const parts = line.split(',');
+    const time = parseInt(parts[0], 10);
+    if (Number.isNaN(time)) continue;
+    const first = columns === 'unfiltered' && parts.length >= 9 ? 5 : 1;
+    frames.push({
+      time,
+      values: [0, 1, 2, 3].map(i => parseFloat(parts[first + i]) || 0),
+    });
+  }
+  return frames;
+}
+
+export interface RecordedPipeline {
+  from: number;       // ms since recording start
+  config: SignalPipelineConfig;
+}
+
+export function pipelineCsvRows(pipelines: RecordedPipeline[]): string[] {
+  return pipelines.map(p => `# pipeline,${Math.round(p.from)},${JSON.stringify(p.config)}`);
+}
+
+// Empty for recordings made before the pipeline existed
+export function parseRecordingPipelines(csv: string): RecordedPipeline[] {
+  const pipelines: RecordedPipeline[] = [];
+  for (const line of csv.split('\n')) {
+    const match = /^#\s*pipeline,(\d+),(.*)$/.exec(line.trim());
+    if (!match) continue;
+    try {
+      pipelines.push({ from: parseInt(match[1], 10), config: sanitizeSignalPipeline(JSON.parse(match[2])) });
+    } catch { /* skip a damaged row */ }
+  }
+  return pipelines;
+}
+
+// Run the unfiltered columns through the recorded pipelines (or the given
+// one) again. Matches the processed columns up to their 0.1 rounding once
+// the filters have settled; live, they were already running at the start.
+export function reprocessRecording(csv: string, config?: SignalPipelineConfig): RecordingFrame[] {
+  const pipelines = config ? [{ from: 0, config }] : parseRecordingPipelines(csv);
+  let current = -1;
+  let pipeline: SignalPipeline | null = null;
+  return parseRecordingCsv(csv, 'unfiltered').map(frame => {
+    while (current + 1 < pipelines.length && pipelines[current + 1].from <= frame.time) {
+      pipeline = new SignalPipeline(pipelines[++current].config);
+    }
+    return pipeline ? { time: frame.time, values: pipeline.process(frame.values, frame.time) } : frame;
+  });
+}
+
+export interface RecordedFreeze {
+  start: number;      // ms since recording start
+  end: number;
+}
+
+export function freezeCsvRows(episodes: RecordedFreeze[]): string[] {
+  return episodes.map(e => `# freeze,${Math.round(e.start)},${Math.round(e.end)}`);
+}
+
+export function parseRecordingFreezes(csv: string): RecordedFreeze[] {
+  const episodes: RecordedFreeze[] = [];
+  for (const line of csv.split('\n')) {
+    const match = /^#\s*freeze,(\d+),(\d+)/.exec(line.trim());
+    if (match) episodes.push({ start: parseInt(match[1], 10), end: parseInt(match[2], 10) });
+  }
+  return episodes;
+}
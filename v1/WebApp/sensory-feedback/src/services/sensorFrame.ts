@@ -0,0 +1,141 @@
+// ---------- Binary Sensor Frame Protocol ----------
+// Compact little-endian frame sent by the ESP32 on every sensor notification.
+// Replaces the JSON string {"t":..,"s":[..]} (JSON stays supported as fallback).
+//
+//   byte 0      magic 0xA5 (never a valid first byte of UTF-8 JSON)
+//   byte 1      protocol version
+//   bytes 2-3   sequence counter (uint16, wraps at 65536)
+//   bytes 4-7   device timestamp, millis() (uint32)
+//   byte 8      channel count N
+//   bytes 9..   N x uint16 raw ADC values (0-4095)
+
+export const FRAME_MAGIC = 0xA5;
+export const FRAME_VERSION = 1;
+export const FRAME_HEADER_SIZE = 9;
+
+const SEQ_MODULO = 0x10000;
+
+// Notification payload as delivered by a transport:
+// binary frames stay as bytes, everything else is decoded to a string
+export type SensorPayload = string | Uint8Array;
+
+export interface DecodedFrame {
+  seq: number | null;     // null for formats without a sequence counter
+  deviceTime: number;     // millis() on the ESP32
+  values: number[];       // raw ADC per channel
+  format: 'binary' | 'json' | 'legacy';
+}
+
+export interface FrameGap {
+  kind: 'lost' | 'out-of-order';
+  expected: number;       // sequence number the parser was waiting for
+  received: number;       // sequence number that actually arrived
+  count: number;          // frames lost (or how far behind a late frame is)
+}
+
+export interface FrameStats {
+  received: number;
+  lost: number;
+  outOfOrder: number;
+}
+
+export function isBinaryFrame(bytes: Uint8Array): boolean {
+  return bytes.length >= FRAME_HEADER_SIZE && bytes[0] === FRAME_MAGIC;
+}
+
+export function decodeBinaryFrame(bytes: Uint8Array): DecodedFrame {
+  if (!isBinaryFrame(bytes)) {
+    throw new Error('Not a sensor frame (bad magic or too short)');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(1);
+  if (version !== FRAME_VERSION) {
+    throw new Error(`Unsupported sensor frame version ${version}`);
+  }
+  const count = view.getUint8(8);
+  if (bytes.length < FRAME_HEADER_SIZE + count * 2) {
+    throw new Error(`Truncated sensor frame: ${bytes.length} bytes for ${count} channels`);
+  }
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    values.push(view.getUint16(FRAME_HEADER_SIZE + i * 2, true));
+  }
+  return {
+    seq: view.getUint16(2, true),
+    deviceTime: view.getUint32(4, true),
+    values,
+    format: 'binary',
+  };
+}
+
+export function encodeBinaryFrame(seq: number, deviceTime: number, values: number[]): Uint8Array {
+  const bytes = new Uint8Array(FRAME_HEADER_SIZE + values.length * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, FRAME_MAGIC);
+  view.setUint8(1, FRAME_VERSION);
+  view.setUint16(2, seq % SEQ_MODULO, true);
+  view.setUint32(4, deviceTime >>> 0, true);
+  view.setUint8(8, values.length);
+  values.forEach((v, i) => {
+    view.setUint16(FRAME_HEADER_SIZE + i * 2, Math.max(0, Math.min(0xFFFF, Math.round(v))), true);
+  });
+  return bytes;
+}
+
+/**
+ * Tracks the sequence counter across frames and reports gaps.
+ * accept() returns false for late (out-of-order) frames so callers can drop
+ * them instead of rolling the display back in time.
+ */
+export class SensorFrameParser {
+  private expectedSeq: number | null = null;
+  private stats: FrameStats = { received: 0, lost: 0, outOfOrder: 0 };
+  private onGap: (gap: FrameGap) => void;
+
+  constructor(onGap: (gap: FrameGap) => void = () => {}) {
+    this.onGap = onGap;
+  }
+
+  accept(frame: DecodedFrame): boolean {
+    this.stats.received++;
+    if (frame.seq === null) return true;
+
+    if (this.expectedSeq === null) {
+      this.expectedSeq = (frame.seq + 1) % SEQ_MODULO;
+      return true;
+    }
+
+    const ahead = (frame.seq - this.expectedSeq + SEQ_MODULO) % SEQ_MODULO;
+    if (ahead === 0) {
+      this.expectedSeq = (frame.seq + 1) % SEQ_MODULO;
+      return true;
+    }
+
+    if (ahead < SEQ_MODULO / 2) {
+      // Frames between expected and received never arrived
+      this.stats.lost += ahead;
+      this.onGap({ kind: 'lost', expected: this.expectedSeq, received: frame.seq, count: ahead });
+      this.expectedSeq = (frame.seq + 1) % SEQ_MODULO;
+      return true;
+    }
+
+    // Sequence is behind what we already saw — late or duplicated frame
+    this.stats.outOfOrder++;
+    this.onGap({
+      kind: 'out-of-order',
+      expected: this.expectedSeq,
+      received: frame.seq,
+      count: SEQ_MODULO - ahead,
+    });
+    return false;
+  }
+
+  getStats(): FrameStats {
+    return { ...this.stats };
+  }
+
+  reset(): void {
+    this.expectedSeq = null;
+    this.stats = { received: 0, lost: 0, outOfOrder: 0 };
+  }
+}
@@ -0,0 +1,79 @@
+import type { DeviceSlot } from './deviceSlots';
+
+// ---------- Sensor Stream ----------
+// Every decoded (and, with per-shoe boards, merged) frame is published once
+// to its subscribers as it arrives — no polling, no duplicated or skipped
+// frames. Values use global sensor indices (RF, LF, RB, LB).
+
+export interface SensorFrame {
+  index: number;          // running count of published frames
+  deviceTime: number;     // when the board sampled it, mapped onto the local clock (performance.now() base)
+  receivedAt: number;     // performance.now() when it was decoded
+  raw: number[];          // ADC 0-4095
+  normalized: number[];   // raw scaled to 0-100
+  calibrated: number[];   // normalized with the calibration offset and gain applied, 0-100 (see calibration.ts)
+  processed: number[];    // calibrated through the signal pipeline; what is shown and recorded
+  sources: DeviceSlot[];  // boards that contributed a fresh sample
+}
+
+export type SensorFrameListener = (frame: SensorFrame) => void;
+
+export class SensorStream {
+  private listeners: SensorFrameListener[] = [];
+  private latest: SensorFrame | null = null;
+  private count = 0;
+
+  // Returns an unsubscribe function
+  subscribe(listener: SensorFrameListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  publish(frame: Omit<SensorFrame, 'index'>): void {
+    const indexed = { ...frame, index: this.count++ };
+    this.latest = indexed;
+    this.listeners.forEach(listener => listener(indexed));
+  }
+
+  getLatest(): SensorFrame | null {
+    return this.latest;
+  }
+}
+
+// Fixed-size history; the oldest item is overwritten once full
+export class FrameRing<T> {
+  private items: T[] = [];
+  private start = 0;
+  readonly capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.start = 0;
+  }
+}
+
+export const sensorStream = new SensorStream();
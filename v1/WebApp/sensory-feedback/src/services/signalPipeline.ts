@@ -0,0 +1,236 @@
+// ---------- Signal Pipeline ----------
+// Per-channel conditioning of the calibrated levels before they are shown
+// and recorded. Each channel runs its own list of steps in order; every step
+// has one parameter:
+//
+//   moving average   mean of the last N samples
+//   median           median of the last N samples (removes spikes)
+//   EMA low-pass     first order, cutoff in Hz
+//   Butterworth      second order low-pass, cutoff in Hz
+//   deadband         hold the output until the input moves more than W
+//   power curve      100 · (x / 100)^γ, bends the FSR's response
+//   conductance      FSR force ∝ conductance; from a voltage divider that is
+//                    x / (100 − x), scaled so level F reads 100
+//
+// Filters use the time between samples, so they follow the real frame rate.
+// Gait and freeze detection keep working on the unfiltered levels.
+
+export type SignalStepKind = 'movingAverage' | 'median' | 'ema' | 'butterworth' | 'deadband' | 'power' | 'conductance';
+
+export interface SignalStep {
+  kind: SignalStepKind;
+  value: number;
+}
+
+export interface SignalStepSpec {
+  kind: SignalStepKind;
+  label: string;
+  param: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export const SIGNAL_STEPS: SignalStepSpec[] = [
+  { kind: 'movingAverage', label: 'Moving average', param: 'Window', unit: 'samples', min: 2, max: 40, step: 1, default: 4 },
+  { kind: 'median', label: 'Median', param: 'Window', unit: 'samples', min: 3, max: 21, step: 2, default: 5 },
+  { kind: 'ema', label: 'EMA low-pass', param: 'Cutoff', unit: 'Hz', min: 0.1, max: 10, step: 0.1, default: 3 },
+  { kind: 'butterworth', label: 'Butterworth low-pass', param: 'Cutoff', unit: 'Hz', min: 0.1, max: 10, step: 0.1, default: 4 },
+  { kind: 'deadband', label: 'Deadband', param: 'Width', unit: 'level', min: 0, max: 20, step: 0.5, default: 2 },
+  { kind: 'power', label: 'Power curve', param: 'Exponent', unit: 'γ', min: 0.2, max: 5, step: 0.1, default: 0.7 },
+  { kind: 'conductance', label: 'FSR conductance', param: 'Full scale', unit: 'level', min: 1, max: 99, step: 1, default: 80 },
+];
+
+export function signalStepSpec(kind: SignalStepKind): SignalStepSpec {
+  return SIGNAL_STEPS.find(s => s.kind === kind)!;
+}
+
+export interface SignalPipelineConfig {
+  channels: SignalStep[][];   // [RF, LF, RB, LB]
+}
+
+export const DEFAULT_SIGNAL_PIPELINE: SignalPipelineConfig = {
+  channels: [[], [], [], []],
+};
+
+// A longer gap between samples starts the filters over
+const MAX_GAP_MS = 1000;
+// Sample interval assumed for the first sample after a (re)start
+const NOMINAL_DT_MS = 50;
+
+interface StepProcessor {
+  process(value: number, dtMs: number): number;
+}
+
+function lastSamples(count: number, reduce: (window: number[]) => number): StepProcessor {
+  const window: number[] = [];
+  const size = Math.max(1, Math.round(count));
+  return {
+    process(value) {
+      window.push(value);
+      if (window.length > size) window.shift();
+      return reduce(window);
+    },
+  };
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function ema(cutoffHz: number): StepProcessor {
+  let y: number | null = null;
+  return {
+    process(value, dtMs) {
+      const alpha = 1 - Math.exp((-2 * Math.PI * cutoffHz * dtMs) / 1000);
+      y = y === null ? value : y + alpha * (value - y);
+      return y;
+    },
+  };
+}
+
+// RBJ biquad low-pass with Q = 1/√2; starts settled on the first sample
+function butterworth(cutoffHz: number): StepProcessor {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  let started = false;
+  return {
+    process(value, dtMs) {
+      if (!started) {
+        x1 = x2 = y1 = y2 = value;
+        started = true;
+        return value;
+      }
+      const rate = 1000 / dtMs;
+      if (cutoffHz >= rate / 2) {
+        x2 = x1; x1 = value; y2 = y1; y1 = value;
+        return value;
+      }
+      const w0 = (2 * Math.PI * cutoffHz) / rate;
+      const alpha = Math.sin(w0) / Math.SQRT2;
+      const cos = Math.cos(w0);
+      const a0 = 1 + alpha;
+      const b0 = (1 - cos) / 2 / a0;
+      const b1 = (1 - cos) / a0;
+      const a1 = (-2 * cos) / a0;
+      const a2 = (1 - alpha) / a0;
+      const y = b0 * value + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = value; y2 = y1; y1 = y;
+      return y;
+    },
+  };
+}
+
+function deadband(width: number): StepProcessor {
+  let held: number | null = null;
+  return {
+    process(value) {
+      if (held === null || Math.abs(value - held) > width) held = value;
+      return held;
+    },
+  };
+}
+
+const conductance = (level: number) => level >= 100 ? Infinity : Math.max(0, level) / (100 - level);
+
+function curve(map: (value: number) => number): StepProcessor {
+  return { process: value => map(value) };
+}
+
+function createStep({ kind, value }: SignalStep): StepProcessor {
+  switch (kind) {
+    case 'movingAverage': return lastSamples(value, mean);
+    case 'median': return lastSamples(value, median);
+    case 'ema': return ema(value);
+    case 'butterworth': return butterworth(value);
+    case 'deadband': return deadband(value);
+    case 'power': return curve(x => 100 * Math.pow(Math.max(0, x) / 100, value));
+    case 'conductance': return curve(x => Math.min(100, (100 * conductance(x)) / conductance(value)));
+  }
+}
+
+const clampLevel = (value: number) => Math.min(100, Math.max(0, value));
+
+export class SignalPipeline {
+  private config: SignalPipelineConfig;
+  private steps: StepProcessor[][] = [];
+  private lastTime: number | null = null;
+  private lastDt = NOMINAL_DT_MS;
+
+  constructor(config: SignalPipelineConfig) {
+    this.config = config;
+    this.reset();
+  }
+
+  // One frame of calibrated levels; `time` in ms on any clock
+  process(values: number[], time: number): number[] {
+    if (this.lastTime !== null && (time <= this.lastTime || time - this.lastTime > MAX_GAP_MS)) this.reset();
+    const dt = this.lastTime === null ? this.lastDt : time - this.lastTime;
+    this.lastTime = time;
+    this.lastDt = dt;
+    return values.map((value, channel) =>
+      clampLevel((this.steps[channel] ?? []).reduce((v, step) => step.process(v, dt), value)));
+  }
+
+  reset(): void {
+    this.steps = this.config.channels.map(steps => steps.map(createStep));
+    this.lastTime = null;
+  }
+}
+
+// ---------- Settings ----------
+// Kept in localStorage; the live pipeline in api.ts restarts on every change
+
+const STORAGE_KEY = 'tom-signal-pipeline';
+
+type PipelineListener = (config: SignalPipelineConfig) => void;
+let pipelineListeners: PipelineListener[] = [];
+
+function isStep(step: unknown): step is SignalStep {
+  const s = step as SignalStep;
+  return !!s && SIGNAL_STEPS.some(spec => spec.kind === s.kind) && Number.isFinite(s.value);
+}
+
+// Unknown steps from a newer version are dropped rather than breaking the stream
+export function sanitizeSignalPipeline(stored: unknown): SignalPipelineConfig {
+  const channels = (stored as SignalPipelineConfig | null)?.channels;
+  return {
+    channels: DEFAULT_SIGNAL_PIPELINE.channels.map((_, i) =>
+      Array.isArray(channels?.[i]) ? channels[i].filter(isStep) : []),
+  };
+}
+
+function loadConfig(): SignalPipelineConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return sanitizeSignalPipeline(JSON.parse(raw));
+  } catch { /* ignore */ }
+  return DEFAULT_SIGNAL_PIPELINE;
+}
+
+let config = loadConfig();
+
+export function getSignalPipeline(): SignalPipelineConfig {
+  return config;
+}
+
+export function setSignalPipeline(next: SignalPipelineConfig): void {
+  config = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch { /* ignore */ }
+  pipelineListeners.forEach(cb => cb(next));
+}
+
+// Returns an unsubscribe function
+export function onSignalPipelineChange(callback: PipelineListener): () => void {
+  pipelineListeners.push(callback);
+  return () => {
+    pipelineListeners = pipelineListeners.filter(cb => cb !== callback);
+  };
+}
@@ -0,0 +1,281 @@
+import { FRAME_MAGIC, type SensorPayload } from './sensorFrame';
+import { simulateGaitSample } from './stubSimulation';
+
+// ---------- Stub Scenarios ----------
+// Scriptable behaviour for the stub simulator: the gait the simulated wearer
+// walks with, plus faults scheduled against the link (dropped notifications,
+// stalls, bad data, disconnects, diag log events). The simulator asks the
+// engine what to do on every tick; the developer panel drives it at runtime.
+// No browser APIs here so the relay server can use it as well.
+
+export type GaitProfile = 'mode' | 'limp' | 'shuffle' | 'freezing' | 'asymmetric' | 'standing';
+
+export const GAIT_PROFILES: GaitProfile[] = ['mode', 'limp', 'shuffle', 'freezing', 'asymmetric', 'standing'];
+
+export const GAIT_PROFILE_LABELS: Record<GaitProfile, string> = {
+  mode: 'Follow mode',
+  limp: 'Limp',
+  shuffle: 'Shuffle',
+  freezing: 'Freezing',
+  asymmetric: 'Asymmetric',
+  standing: 'Standing',
+};
+
+export type FaultKind = 'drop' | 'heartbeat' | 'malformed' | 'disconnect' | 'diag';
+
+export const FAULT_KINDS: FaultKind[] = ['drop', 'heartbeat', 'malformed', 'disconnect', 'diag'];
+
+export const FAULT_LABELS: Record<FaultKind, string> = {
+  drop: 'Drop notifications',
+  heartbeat: 'Heartbeat only',
+  malformed: 'Malformed data',
+  disconnect: 'Disconnect',
+  diag: 'Diag log events',
+};
+
+export interface FaultSpec {
+  kind: FaultKind;
+  durationMs: number;      // how long it lasts; for "disconnect", how long the board stays unreachable
+  rate?: number;           // drop / malformed: share of frames affected (0-1)
+  repeatEveryMs?: number;  // start again this long after each start
+}
+
+export interface ScheduledFault extends FaultSpec {
+  id: number;
+  startAt: number;   // Date.now() when it (next) starts
+  active: boolean;
+}
+
+export interface ScenarioStatus {
+  profile: GaitProfile;
+  faults: ScheduledFault[];
+}
+
+// Event to append to the simulated board's diag log
+export interface SyntheticDiagEvent {
+  event: string;
+  value: number;
+}
+
+// What the simulator should do on the current tick
+export interface TickEffects {
+  dropFrame: boolean;                // skip this frame (the sequence number still advances)
+  heartbeatOnly: boolean;            // send heartbeats instead of frames, like a stalled loop()
+  malformed: SensorPayload | null;   // send this instead of the frame
+  disconnectMs: number;              // > 0: drop the link now for this long
+  diagEvents: SyntheticDiagEvent[];  // append to every board's log now
+}
+
+type ScenarioCallback = (status: ScenarioStatus) => void;
+
+const DEFAULT_DROP_RATE = 0.5;
+const DEFAULT_MALFORMED_RATE = 0.2;
+
+const TWO_PI = 2 * Math.PI;
+const BASELINE = 300;   // unloaded sensor, raw ADC
+
+const wrap = (phase: number) => ((phase % TWO_PI) + TWO_PI) % TWO_PI;
+
+// Load under one sensor while its foot is on the ground: sin² bump over
+// the first `width` radians of each gait cycle, 0 during swing
+const stance = (phase: number, width: number) => {
+  const p = wrap(phase);
+  return p < width ? Math.pow(Math.sin(p * Math.PI / width), 2) : 0;
+};
+
+const jitter = (amount: number) => (Math.random() - 0.5) * amount;
+
+// Returns [RF, LF, RB, LB] load above baseline (raw ADC counts) at time t (seconds)
+type ProfileSampler = (t: number) => number[];
+
+// Accordion-mode walking without noise or baseline
+const steadyWalk: ProfileSampler = (t) => {
+  const phase = t * TWO_PI * 0.6;
+  return [
+    stance(phase - 0.3, 2.5) * 2800,
+    stance(phase + Math.PI - 0.3, 2.5) * 2800,
+    stance(phase, 2.5) * 2500,
+    stance(phase + Math.PI, 2.5) * 2500,
+  ];
+};
+
+// Painful right leg: short, light right stance; long, heavy left stance
+// and uneven step timing
+const limp: ProfileSampler = (t) => {
+  const phase = t * TWO_PI * 0.7;
+  const left = phase - Math.PI + 0.5;
+  return [
+    stance(phase - 0.3, 1.6) * 1300,
+    stance(left - 0.3, 3.4) * 2900,
+    stance(phase, 1.6) * 1500,
+    stance(left, 3.4) * 2700,
+  ];
+};
+
+// Short, quick, flat-footed steps: heel and toe load together, feet rarely unloaded
+const shuffle: ProfileSampler = (t) => {
+  const phase = t * TWO_PI * 1.1;
+  const right = 300 + stance(phase, 4.2) * 1100;
+  const left = 300 + stance(phase + Math.PI, 4.2) * 1100;
+  return [right, left, right * 1.15, left * 1.15];
+};
+
+// Steady walking with regular freezing episodes: every 12s, 3s of trembling
+// in place (small fast alternating loads) followed by a hesitant restart
+const freezing: ProfileSampler = (t) => {
+  const cycle = t % 12;
+  if (cycle < 8) return steadyWalk(t);
+  if (cycle < 11) {
+    const tremble = Math.sin(t * TWO_PI * 5) * 350;
+    return [700 + tremble, 700 - tremble, 1000 + tremble, 1000 - tremble];
+  }
+  return shuffle(t);
+};
+
+// Normal timing but the left foot carries half the load
+const asymmetric: ProfileSampler = (t) => {
+  const [rf, lf, rb, lb] = steadyWalk(t);
+  return [rf * 1.1, lf * 0.5, rb * 1.1, lb * 0.5];
+};
+
+// Both feet loaded, weight swaying slowly side to side and front to back
+const standing: ProfileSampler = (t) => {
+  const side = Math.sin(t * TWO_PI * 0.25) * 250;
+  const fore = Math.sin(t * TWO_PI * 0.13) * 150;
+  return [900 + side + fore, 900 - side + fore, 1500 + side - fore, 1500 - side - fore];
+};
+
+const PROFILE_SAMPLERS: Record<Exclude<GaitProfile, 'mode'>, ProfileSampler> = {
+  limp, shuffle, freezing, asymmetric, standing,
+};
+
+// Payloads a confused board or a corrupted link might deliver
+const MALFORMED_PAYLOADS: (() => SensorPayload)[] = [
+  () => '{"t":1234,"s":[812,40',                               // truncated JSON
+  () => '{"log":"evt","i":3,"t":}',                            // invalid JSON
+  () => 'ERR garbage',                                         // not JSON at all
+  () => new Uint8Array([FRAME_MAGIC, 9, 0, 0]),                // unknown version, too short
+  () => Uint8Array.from({ length: 7 }, () => Math.floor(Math.random() * 256)),
+];
+
+// A burst of firmware-like trouble for the diag log
+function syntheticDiagEvents(): SyntheticDiagEvent[] {
+  const pool: (() => SyntheticDiagEvent)[] = [
+    () => ({ event: 'LOOP_SLOW', value: 800 + Math.floor(Math.random() * 2500) }),
+    () => ({ event: 'HEAP_LOW', value: 18 + Math.floor(Math.random() * 20) }),
+    () => ({ event: 'SD_SLOW', value: 120 + Math.floor(Math.random() * 500) }),
+    () => ({ event: 'HEARTBEAT', value: 0 }),
+    () => ({ event: 'SD_FAIL', value: 0 }),
+  ];
+  const count = 3 + Math.floor(Math.random() * 4);
+  return Array.from({ length: count }, () => pool[Math.floor(Math.random() * pool.length)]());
+}
+
+export class ScenarioEngine {
+  private profile: GaitProfile = 'mode';
+  private faults: ScheduledFault[] = [];
+  private nextId = 1;
+  private callbacks: ScenarioCallback[] = [];
+
+  getProfile(): GaitProfile {
+    return this.profile;
+  }
+
+  setProfile(profile: GaitProfile): void {
+    this.profile = profile;
+    this.notify();
+  }
+
+  // Schedule a fault delayMs from now; returns its id for cancel()
+  schedule(spec: FaultSpec, delayMs: number = 0): number {
+    const id = this.nextId++;
+    this.faults.push({ ...spec, id, startAt: Date.now() + delayMs, active: false });
+    this.notify();
+    return id;
+  }
+
+  cancel(id: number): void {
+    this.faults = this.faults.filter(f => f.id !== id);
+    this.notify();
+  }
+
+  clear(): void {
+    this.faults = [];
+    this.notify();
+  }
+
+  getStatus(): ScenarioStatus {
+    return { profile: this.profile, faults: this.faults.map(f => ({ ...f })) };
+  }
+
+  onChange(callback: ScenarioCallback): () => void {
+    this.callbacks.push(callback);
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  // Raw ADC values (0-4095) for all four sensors at time t (seconds)
+  sample(t: number, mode: number, sensitivity: number): number[] {
+    if (this.profile === 'mode') return simulateGaitSample(t, mode, sensitivity);
+
+    // Higher sensitivity = stronger signal, as in simulateGaitSample
+    const sensGain = 0.7 + (sensitivity / 100) * 0.6;
+    const clamp = (v: number) => Math.max(0, Math.min(4095, Math.floor(v)));
+    return PROFILE_SAMPLERS[this.profile](t).map(load => clamp(BASELINE + load * sensGain + jitter(100)));
+  }
+
+  // Advance the fault schedule to `now` and report what this tick should do
+  tick(now: number = Date.now()): TickEffects {
+    const effects: TickEffects = {
+      dropFrame: false,
+      heartbeatOnly: false,
+      malformed: null,
+      disconnectMs: 0,
+      diagEvents: [],
+    };
+    let changed = false;
+
+    for (const fault of [...this.faults]) {
+      if (now < fault.startAt) continue;
+
+      if (!fault.active) {
+        fault.active = true;
+        changed = true;
+        if (fault.kind === 'disconnect') effects.disconnectMs = Math.max(effects.disconnectMs, fault.durationMs);
+        if (fault.kind === 'diag') effects.diagEvents.push(...syntheticDiagEvents());
+      }
+
+      if (fault.kind === 'drop' && Math.random() < (fault.rate ?? DEFAULT_DROP_RATE)) {
+        effects.dropFrame = true;
+      } else if (fault.kind === 'heartbeat') {
+        effects.heartbeatOnly = true;
+      } else if (fault.kind === 'malformed' && !effects.malformed && Math.random() < (fault.rate ?? DEFAULT_MALFORMED_RATE)) {
+        effects.malformed = MALFORMED_PAYLOADS[Math.floor(Math.random() * MALFORMED_PAYLOADS.length)]();
+      }
+
+      // Diag events are written once; everything else lasts its duration
+      const ended = fault.kind === 'diag' || now >= fault.startAt + fault.durationMs;
+      if (!ended) continue;
+
+      changed = true;
+      if (fault.repeatEveryMs) {
+        fault.active = false;
+        fault.startAt = Math.max(fault.startAt + fault.repeatEveryMs, now + 1);
+      } else {
+        this.faults = this.faults.filter(f => f !== fault);
+      }
+    }
+
+    if (changed) this.notify();
+    return effects;
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.callbacks.forEach(cb => cb(status));
+  }
+}
+
+// Drives the app's stub mode (BleStubService) and the developer panel
+export const stubScenarios = new ScenarioEngine();
@@ -0,0 +1,239 @@
+import { SLOT_CHANNELS, type DeviceSlot } from './deviceSlots';
+import { helloReply } from './firmwareInfo';
+
+// ---------- Stub Simulation ----------
+// Fake insole used by BleStubService and the relay server's simulation mode.
+// No browser APIs here so it runs under Node as well.
+
+export const SIMULATION_INTERVAL_MS = 50;  // 20Hz — matches real ESP32 loop delay
+const DIAG_LOG_SIZE = 64;                   // firmware ring buffer size
+const STUB_FIRMWARE_VERSION = '1.2.0-stub';
+const HEAP_SNAPSHOT_MS = 5000;              // firmware logs HEAP_SNAP every 5 s
+
+// One entry of the simulated board's event log (same fields as the firmware's)
+export interface StubLogEntry {
+  t: number;   // millis()
+  e: string;   // event name, e.g. "BLE_DISC"
+  v: number;
+}
+
+// Simulated board: holds the same settings the firmware does and answers
+// commands for its own channels (4 for "main", 2 for a per-shoe board)
+export class StubDevice {
+  readonly slot: DeviceSlot;
+  mode: number = 0;          // 0 = accordion, 1 = song
+  sensitivity: number = 75;  // 0-100 slider
+  power: boolean = true;
+  volume: number = 100;      // master 0-100
+  sensorVolumes: number[];
+  thresholds: number[];      // raw ADC, firmware defaults
+  baselines: number[];       // raw ADC, firmware defaults
+  spans: number[];           // raw ADC read as full load
+  seq: number = 0;
+  private connectedAt: number = Date.now();
+  private diagLog: StubLogEntry[] = [];
+  private freeHeapKb: number = 160;
+  private lastHeapSnapshot: number = 0;
+
+  constructor(slot: DeviceSlot) {
+    this.slot = slot;
+    const n = SLOT_CHANNELS[slot].length;
+    this.sensorVolumes = new Array(n).fill(100);
+    this.thresholds = new Array(n).fill(150);
+    this.baselines = new Array(n).fill(300);
+    this.spans = new Array(n).fill(4095);
+    this.logEvent('BOOT', this.mode);
+  }
+
+  millis(): number {
+    return Date.now() - this.connectedAt;
+  }
+
+  // Append to the event log, dropping the oldest entry when full
+  logEvent(event: string, value: number = 0): void {
+    this.diagLog.push({ t: this.millis(), e: event, v: value });
+    if (this.diagLog.length > DIAG_LOG_SIZE) this.diagLog.shift();
+  }
+
+  // Call every simulation tick: logs a wandering free-heap snapshot like the firmware
+  sampleHealth(): void {
+    const now = this.millis();
+    if (now - this.lastHeapSnapshot < HEAP_SNAPSHOT_MS) return;
+    this.lastHeapSnapshot = now;
+    this.freeHeapKb = Math.min(180, Math.max(120, this.freeHeapKb + Math.round((Math.random() - 0.5) * 6)));
+    this.logEvent('HEAP_SNAP', this.freeHeapKb);
+  }
+
+  // The notifications the firmware sends in answer to GETLOG, oldest event first
+  diagLogMessages(): string[] {
+    return [
+      JSON.stringify({ log: 'start', n: this.diagLog.length }),
+      ...this.diagLog.map((entry, i) => JSON.stringify({ log: 'evt', i, t: entry.t, e: entry.e, v: entry.v })),
+      JSON.stringify({ log: 'end' }),
+    ];
+  }
+
+  // Parse "COMMAND:value[#id]" like the real ESP32; returns a reply to notify, if any
+  handleText(cmd: string): Record<string, unknown> | null {
+    const sep = cmd.indexOf(':');
+    if (sep === -1) return null;
+    const command = cmd.substring(0, sep);
+    let value = cmd.substring(sep + 1);
+
+    // Optional "#<id>" request tag — reply is correlated by id
+    let requestId: number | null = null;
+    const tag = value.lastIndexOf('#');
+    if (tag !== -1) {
+      requestId = parseInt(value.substring(tag + 1));
+      value = value.substring(0, tag);
+    }
+    return this.handleCommand(command, value, requestId);
+  }
+
+  // Apply a "COMMAND:value[#id]" write; returns a reply or ack to notify, if any
+  handleCommand(command: string, value: string, requestId: number | null): Record<string, unknown> | null {
+    const n = this.sensorVolumes.length;
+    // Malformed or out-of-range data is rejected, as the firmware does
+    let applied = true;
+    if (command === 'GET') {
+      return requestId !== null ? this.answerRequest(requestId, value) : null;
+    } else if (command === 'MODE') {
+      const mode = parseInt(value);
+      applied = mode === 0 || mode === 1;
+      if (applied) {
+        this.mode = mode;
+        this.logEvent('MODE_CHG', this.mode);
+        console.log(`[STUB ${this.slot}] Mode → ${this.mode === 0 ? 'Accordion' : 'Song'}`);
+      }
+    } else if (command === 'SENSITIVITY') {
+      this.sensitivity = Math.max(0, Math.min(100, parseFloat(value) || 0));
+      console.log(`[STUB ${this.slot}] Sensitivity → ${this.sensitivity}`);
+    } else if (command === 'POWER') {
+      this.power = value === '1';
+    } else if (command === 'VOLUME_TOTAL') {
+      this.volume = Math.max(0, Math.min(100, parseFloat(value) || 0));
+    } else if (command === 'SENSOR_VOLUME') {
+      const [id, vol] = value.split(',').map(Number);
+      applied = value.includes(',') && id >= 0 && id < n;
+      if (applied) this.sensorVolumes[id] = Math.max(0, Math.min(100, vol || 0));
+    } else if (command === 'SENSOR_THRESHOLD' || command === 'CALIBRATE' || command === 'CALIBRATE_SPAN') {
+      const vals = value.split(',').map(v => parseInt(v));
+      applied = vals.length === n && vals.every(v => !Number.isNaN(v));
+      if (applied && command === 'SENSOR_THRESHOLD') this.thresholds = vals;
+      if (applied && command === 'CALIBRATE') this.baselines = vals;
+      if (applied && command === 'CALIBRATE_SPAN') this.spans = vals;
+    } else if (command !== 'GETLOG' && command !== 'HOST') {
+      return requestId !== null ? { re: requestId, err: 'unknown command' } : null;
+    }
+    // Tagged commands are acknowledged once applied
+    if (requestId === null) return null;
+    return applied ? { re: requestId, ok: 1 } : { re: requestId, err: 'bad data' };
+  }
+
+  // Reply to "GET:<endpoint>#<id>" the way the firmware does
+  private answerRequest(id: number, endpoint: string): Record<string, unknown> {
+    switch (endpoint) {
+      case 'MODE':
+        return { re: id, d: this.mode };
+      case 'SENSITIVITY':
+        return { re: id, d: this.sensitivity };
+      case 'PING':
+        return { re: id, d: this.millis() };
+      case 'HELLO':
+        return { re: id, d: helloReply(this.sensorVolumes.length, STUB_FIRMWARE_VERSION) };
+      case 'STATE':
+        return {
+          re: id,
+          d: {
+            m: this.mode,
+            on: this.power ? 1 : 0,
+            vol: Math.round(this.volume),
+            sv: this.sensorVolumes.map(Math.round),
+            thr: this.thresholds,
+            sens: Math.round(this.sensitivity),
+            cal: this.baselines,
+            span: this.spans,
+            bat: 87,
+          },
+        };
+      default:
+        return { re: id, err: 'unknown endpoint' };
+    }
+  }
+}
+
+// Raw ADC values (0-4095) for all four sensors at time t (seconds)
+// Song mode: intense, fast walking with bursts and overlapping foot strikes
+// Accordion mode: gentler, steady walking pattern
+export function simulateGaitSample(t: number, mode: number, sensitivity: number): number[] {
+  let rf: number, lf: number, rb: number, lb: number; // raw ADC 0-4095
+
+  if (mode === 1) {
+    // ---- Song Mode: Intense walking simulation ----
+    // Fast walking cadence (~2 steps/sec = 120 BPM)
+    // Right foot: phase 0, Left foot: phase PI
+    // Within each foot: Back (heel) strikes first, Front (toe) pushes off after
+    const walkFreq = 2.0 * Math.PI * 1.0; // 1 full gait cycle per second
+    const rightPhase = t * walkFreq;
+    const leftPhase = t * walkFreq + Math.PI;
+
+    // Heel strike: sharp attack, quick decay (impact)
+    const heelStrike = (phase: number) => {
+      const p = ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      // Narrow pulse at phase 0 (heel contact)
+      if (p < 0.8) return Math.pow(Math.cos(p * Math.PI / 1.6), 2);
+      return 0;
+    };
+
+    // Toe pushoff: slower build, moderate peak, comes after heel
+    const toePush = (phase: number) => {
+      const p = ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      // Delayed pulse (starts at phase ~1.2, peaks at ~2.0)
+      if (p > 1.0 && p < 3.0) return Math.pow(Math.sin((p - 1.0) * Math.PI / 2.0), 2);
+      return 0;
+    };
+
+    // Random micro-bursts (simulate uneven ground, stumbles, tempo changes)
+    const burst = Math.sin(t * 7.3) > 0.85 ? 0.3 : 0;
+    const jitter = () => (Math.random() - 0.5) * 200; // ±200 ADC noise
+
+    // Sensitivity affects how raw values map (higher sensitivity = stronger signal)
+    const sensGain = 0.7 + (sensitivity / 100) * 0.6; // 0.7 to 1.3
+
+    // Raw ADC values (baseline ~300, max ~3800)
+    rf = 300 + (toePush(rightPhase) * 3200 + burst * 1500) * sensGain + jitter();
+    lf = 300 + (toePush(leftPhase) * 3200 + burst * 1200) * sensGain + jitter();
+    rb = 300 + (heelStrike(rightPhase) * 3500 + burst * 1800) * sensGain + jitter();
+    lb = 300 + (heelStrike(leftPhase) * 3500 + burst * 1600) * sensGain + jitter();
+
+    // Occasional "running" bursts: both feet active simultaneously
+    if (Math.sin(t * 0.3) > 0.7) {
+      const runBoost = 800 * Math.abs(Math.sin(t * 5));
+      rf += runBoost;
+      rb += runBoost * 1.2;
+    }
+
+  } else {
+    // ---- Accordion Mode: Steady, deliberate stepping ----
+    const walkFreq = 2.0 * Math.PI * 0.6; // slower walk (0.6 Hz)
+    const rightPhase = t * walkFreq;
+    const leftPhase = t * walkFreq + Math.PI;
+
+    const step = (phase: number) => {
+      const p = ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      if (p < 2.5) return Math.pow(Math.sin(p * Math.PI / 2.5), 2);
+      return 0;
+    };
+
+    const jitter = () => (Math.random() - 0.5) * 100;
+
+    rf = 300 + step(rightPhase - 0.3) * 2800 + jitter();
+    lf = 300 + step(leftPhase - 0.3) * 2800 + jitter();
+    rb = 300 + step(rightPhase) * 2500 + jitter();
+    lb = 300 + step(leftPhase) * 2500 + jitter();
+  }
+
+  // Clamp to valid ADC range
+  const clamp = (v: number) => Math.max(0, Math.min(4095, Math.floor(v)));
+  return [clamp(rf), clamp(lf), clamp(rb), clamp(lb)];
+}
@@ -0,0 +1,172 @@
+import { config, type TransportKind } from '../config';
+import {
+  BleService, BleStubService,
+  type DeviceStatus, type DisconnectCallback, type IBleService, type ReconnectCallback, type SensorCallback,
+} from './BleService';
+import type { DeviceSlot } from './deviceSlots';
+import { SerialTransport } from './SerialTransport';
+import { WebSocketTransport } from './WebSocketTransport';
+import { ReplayTransport } from './ReplayTransport';
+
+// ---------- Transport Selection ----------
+// EspApi and RequestChannel hold on to one IBleService for the app's lifetime.
+// TransportSwitch is that object: it forwards to whichever transport is
+// selected and relays callbacks only from the active one, so switching
+// between Bluetooth, USB serial and the relay needs no re-subscription above
+// this layer.
+
+export const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  ble: 'Bluetooth',
+  serial: 'USB',
+  relay: 'Relay',
+  replay: 'Replay',
+};
+
+// Shared so playback controls can reach the transport EspApi is streaming from
+export const replayTransport = new ReplayTransport();
+
+const STORAGE_KEY = 'tom-transport';
+const RELAY_URL_KEY = 'tom-relay-url';
+
+export function isTransportAvailable(kind: TransportKind): boolean {
+  if (config.useStubs) return true;
+  switch (kind) {
+    case 'ble': return typeof navigator !== 'undefined' && !!navigator.bluetooth;
+    case 'serial': return SerialTransport.isAvailable();
+    case 'relay': return typeof WebSocket !== 'undefined';
+    case 'replay': return replayTransport.hasRecording();
+  }
+}
+
+function loadTransportKind(): TransportKind {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && saved !== 'replay' && saved in TRANSPORT_LABELS) return saved as TransportKind;
+  } catch { /* ignore */ }
+  return config.transport;
+}
+
+export function getRelayUrl(): string {
+  try {
+    return localStorage.getItem(RELAY_URL_KEY) || config.relayUrl;
+  } catch { return config.relayUrl; }
+}
+
+export function setRelayUrl(url: string): void {
+  try {
+    localStorage.setItem(RELAY_URL_KEY, url.trim());
+  } catch { /* ignore */ }
+}
+
+class TransportSwitch implements IBleService {
+  private kind: TransportKind = loadTransportKind();
+  private transports = new Map<string, IBleService>();
+  private sensorCallbacks: SensorCallback[] = [];
+  private disconnectCallbacks: DisconnectCallback[] = [];
+  private reconnectCallbacks: ReconnectCallback[] = [];
+
+  getKind(): TransportKind {
+    return this.kind;
+  }
+
+  // Only while disconnected — a live link is dropped rather than orphaned
+  setKind(kind: TransportKind): void {
+    if (kind === this.kind) return;
+    const previous = this.active;
+    const dropped = previous.getDevices().filter(d => d.connected).map(d => d.slot);
+    previous.disconnect();
+    this.kind = kind;
+    // previous is no longer active, so its own disconnect events won't be relayed
+    dropped.forEach(slot => this.disconnectCallbacks.forEach(cb => cb(slot)));
+    if (kind === 'replay') return;  // per session only
+    try {
+      localStorage.setItem(STORAGE_KEY, kind);
+    } catch { /* ignore */ }
+  }
+
+  connect(slot?: DeviceSlot): Promise<void> {
+    return this.active.connect(slot);
+  }
+
+  disconnect(slot?: DeviceSlot): void {
+    this.active.disconnect(slot);
+  }
+
+  isConnected(slot?: DeviceSlot): boolean {
+    return this.active.isConnected(slot);
+  }
+
+  write(data: Uint8Array, slot?: DeviceSlot): Promise<void> {
+    return this.active.write(data, slot);
+  }
+
+  read(slot?: DeviceSlot): Promise<Uint8Array> {
+    return this.active.read(slot);
+  }
+
+  subscribeToSensor(callback: SensorCallback): void {
+    this.sensorCallbacks.push(callback);
+  }
+
+  unsubscribeFromSensor(callback: SensorCallback): void {
+    this.sensorCallbacks = this.sensorCallbacks.filter(cb => cb !== callback);
+  }
+
+  onDisconnect(callback: DisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  onReconnect(callback: ReconnectCallback): void {
+    this.reconnectCallbacks.push(callback);
+  }
+
+  getDevices(): DeviceStatus[] {
+    return this.active.getDevices();
+  }
+
+  reconnectRemembered(): Promise<DeviceSlot[]> {
+    return this.active.reconnectRemembered();
+  }
+
+  // The id may belong to any transport; each ignores ids it doesn't own
+  async forgetDevice(id: string): Promise<void> {
+    await Promise.all([...this.transports.values()].map(t => t.forgetDevice(id)));
+  }
+
+  private get active(): IBleService {
+    // Stub mode simulates every live transport with the same fake boards
+    const key = config.useStubs && this.kind !== 'replay' ? 'stub' : this.kind;
+    let transport = this.transports.get(key);
+    if (!transport) {
+      transport = this.create();
+      this.attach(transport);
+      this.transports.set(key, transport);
+    }
+    return transport;
+  }
+
+  private create(): IBleService {
+    if (this.kind === 'replay') return replayTransport;
+    if (config.useStubs) return new BleStubService();
+    switch (this.kind) {
+      case 'ble': return new BleService();
+      case 'serial': return new SerialTransport();
+      case 'relay': return new WebSocketTransport(getRelayUrl);
+    }
+  }
+
+  private attach(transport: IBleService): void {
+    const isActive = () => this.active === transport;
+    transport.subscribeToSensor((value, slot) => {
+      if (isActive()) this.sensorCallbacks.forEach(cb => cb(value, slot));
+    });
+    transport.onDisconnect((slot) => {
+      if (isActive()) this.disconnectCallbacks.forEach(cb => cb(slot));
+    });
+    transport.onReconnect((state, slot) => {
+      if (isActive()) this.reconnectCallbacks.forEach(cb => cb(state, slot));
+    });
+  }
+}
+
+export const bleService = new TransportSwitch();
@@ -3,6 +3,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_USE_STUBS: string
+  readonly VITE_TRANSPORT?: string
+  readonly VITE_RELAY_URL?: string
 }
 
 interface ImportMeta {